@@ -1,28 +1,84 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { extractColorPalette } from '@/lib/ai-models';
+import { hexToRgb } from '@/lib/color-science';
+import { findNearestPaints, getPaintCatalogs } from '@/lib/paint-catalog';
+import { enableDiskAnalysisCache } from '@/lib/server-cache';
+import { decodeImage } from '@/lib/server-image';
+
+enableDiskAnalysisCache();
+
+const MAX_COLOR_COUNT = 16;
+const MAX_MATCH_COUNT = 20;
 
 export async function POST(request: NextRequest) {
   try {
-    const { imageUrl, colorCount = 5 } = await request.json();
-    
-    if (!imageUrl) {
+    // colors: hex colors picked in the editor, matched to paints without an image
+    const { imageUrl, colorCount = 5, colors = [], matchCount = 3, catalogIds } = await request.json();
+
+    if (imageUrl !== undefined && typeof imageUrl !== 'string') {
+      return NextResponse.json(
+        { error: 'imageUrl must be a string' },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(colorCount) || colorCount < 1 || colorCount > MAX_COLOR_COUNT) {
+      return NextResponse.json(
+        { error: `colorCount must be an integer from 1 to ${MAX_COLOR_COUNT}` },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(colors) || colors.some((color: unknown) => typeof color !== 'string' || !hexToRgb(color))) {
+      return NextResponse.json(
+        { error: 'Colors must be hex strings' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(matchCount) || matchCount < 1 || matchCount > MAX_MATCH_COUNT) {
+      return NextResponse.json(
+        { error: `matchCount must be an integer from 1 to ${MAX_MATCH_COUNT}` },
+        { status: 400 }
+      );
+    }
+    // Decks are matched by exact id
+    const knownIds = getPaintCatalogs().map(catalog => catalog.id);
+    const isKnownId = (id: unknown) => typeof id === 'string' && knownIds.includes(id);
+    if (catalogIds !== undefined && (!Array.isArray(catalogIds) || !catalogIds.every(isKnownId))) {
+      return NextResponse.json(
+        { error: `catalogIds must be an array of catalog ids: ${knownIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!imageUrl && colors.length === 0) {
       return NextResponse.json(
-        { error: 'Image URL is required' },
+        { error: 'Image URL or colors are required' },
         { status: 400 }
       );
     }
 
-    // Extract color palette using AI
-    const result = await extractColorPalette(imageUrl, colorCount);
+    const matchOptions = { count: matchCount, catalogIds };
+    const matches = colors.map((color: string) => ({ color, paints: findNearestPaints(color, matchOptions) }));
+
+    if (!imageUrl) {
+      return NextResponse.json({ success: true, matches, catalogs: catalogSummaries() });
+    }
+
+    // Extract color palette from the decoded pixels
+    const result = await extractColorPalette(await decodeImage(imageUrl), colorCount);
 
     return NextResponse.json({
       success: true,
       palette: {
         colors: result.colors,
+        shares: result.shares,
         dominantColor: result.dominantColor,
         colorHarmony: result.colorHarmony,
+        paints: result.colors.map(color => findNearestPaints(color, matchOptions)),
         processingTime: Date.now(),
-      }
+      },
+      matches,
+      catalogs: catalogSummaries(),
     });
   } catch (error) {
     console.error('Color palette extraction API error:', error);
@@ -32,3 +88,7 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+function catalogSummaries() {
+  return getPaintCatalogs().map(({ id, brand, collection, colors }) => ({ id, brand, collection, colorCount: colors.length }));
+}
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { estimateDepth } from '@/lib/ai-models';
+import { enableDiskAnalysisCache } from '@/lib/server-cache';
+import { decodeImage, encodeDepth } from '@/lib/server-image';
+
+enableDiskAnalysisCache();
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,16 +16,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Estimate depth using AI
-    const result = await estimateDepth(imageUrl);
+    // Estimate depth on the decoded pixels
+    const result = await estimateDepth(await decodeImage(imageUrl));
 
     return NextResponse.json({
       success: true,
       depth: {
-        depthMap: result.depthMap,
+        depthMap: await encodeDepth(result.depthMap),
         minDepth: result.minDepth,
         maxDepth: result.maxDepth,
-        perspectiveCorrection: result.perspectiveCorrection,
+        perspective: result.perspective,
         processingTime: Date.now(),
       }
     });
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { detectObjects } from '@/lib/ai-models';
+import { enableDiskAnalysisCache } from '@/lib/server-cache';
+import { decodeImage, encodeMask } from '@/lib/server-image';
+
+enableDiskAnalysisCache();
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,13 +16,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Detect objects using AI
-    const result = await detectObjects(imageUrl);
+    // Detect objects in the decoded pixels
+    const pixels = await decodeImage(imageUrl);
+    const result = await detectObjects(pixels);
 
     return NextResponse.json({
       success: true,
       objects: {
-        detectedObjects: result.objects,
+        width: pixels.width,
+        height: pixels.height,
+        detectedObjects: await Promise.all(result.objects.map(async ({ label, confidence, bbox, mask }) => ({
+          label,
+          confidence,
+          bbox,
+          mask: mask ? await encodeMask(mask) : null,
+        }))),
         processingTime: Date.now(),
       }
     });
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { processWallSegmentation } from '@/lib/ai-models';
+import { enableDiskAnalysisCache } from '@/lib/server-cache';
+import { decodeImage, encodeMask } from '@/lib/server-image';
+
+enableDiskAnalysisCache();
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,16 +16,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Process wall segmentation using AI
-    const result = await processWallSegmentation(imageUrl);
+    // Process wall segmentation on the decoded pixels
+    const pixels = await decodeImage(imageUrl);
+    const result = await processWallSegmentation(pixels);
 
     return NextResponse.json({
       success: true,
       segmentation: {
-        mask: result.mask,
+        width: pixels.width,
+        height: pixels.height,
+        mask: await encodeMask(result.mask),
         confidence: result.confidence,
         bounds: result.bounds,
         wallSegments: result.wallSegments,
+        lines: result.lines,
+        surfaces: await Promise.all(result.surfaces.map(async ({ id, label, polygon, confidence, mask }) => ({
+          id,
+          label,
+          polygon,
+          confidence,
+          mask: await encodeMask(mask),
+        }))),
+        openings: await Promise.all(result.openings.map(async ({ mask, ...opening }) => ({
+          ...opening,
+          mask: await encodeMask(mask),
+        }))),
         processingTime: Date.now(),
       }
     });
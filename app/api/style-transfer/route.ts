@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { applyStyleTransfer } from '@/lib/ai-models';
+import { blendStyle } from '@/lib/ai-models';
+import { decodeImage, decodeMask, encodeImage } from '@/lib/server-image';
 
 export async function POST(request: NextRequest) {
   try {
-    const { originalImageUrl, styleImageUrl, maskData } = await request.json();
+    const { originalImageUrl, styleImageUrl, maskUrl } = await request.json();
     
     if (!originalImageUrl || !styleImageUrl) {
       return NextResponse.json(
@@ -12,15 +13,27 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Apply style transfer using AI
-    const result = await applyStyleTransfer(originalImageUrl, styleImageUrl, maskData);
+    const startTime = Date.now();
+
+    // Blend the decoded images; an optional mask image limits the effect to its covered area
+    const original = await decodeImage(originalImageUrl);
+    const style = await decodeImage(styleImageUrl);
+    const mask = maskUrl ? await decodeMask(maskUrl) : undefined;
+    if (mask && (mask.width !== original.width || mask.height !== original.height)) {
+      return NextResponse.json(
+        { error: 'Mask must have the same size as the original image' },
+        { status: 400 }
+      );
+    }
+
+    const blended = blendStyle(original, style, mask);
 
     return NextResponse.json({
       success: true,
       result: {
-        imageUrl: result.imageUrl,
-        processingTime: result.processingTime,
-        quality: result.quality,
+        imageUrl: await encodeImage(blended, 'jpeg'),
+        processingTime: Date.now() - startTime,
+        quality: 'medium',
       }
     });
   } catch (error) {
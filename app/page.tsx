@@ -8,12 +8,14 @@ import { Header } from '@/components/Header';
 import { Toolbar } from '@/components/Toolbar';
 import { ExportPanel } from '@/components/ExportPanel';
 import { ClientOnly } from '@/components/ClientOnly';
+import type { LengthUnit } from '@/lib/scale-calibration';
 
 export default function Home() {
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
   const [selectedDesign, setSelectedDesign] = useState<any>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [canvasRef, setCanvasRef] = useState<any>(null);
+  const [units, setUnits] = useState<LengthUnit>('cm');
 
   const handleImageUpload = (imageUrl: string) => {
     setUploadedImage(imageUrl);
@@ -75,6 +77,7 @@ export default function Home() {
                 <DesignPalette
                   onDesignSelect={handleDesignSelect}
                   selectedDesign={selectedDesign}
+                  units={units}
                 />
               </div>
 
@@ -91,6 +94,8 @@ export default function Home() {
                     selectedDesign={selectedDesign}
                     setCanvasRef={setCanvasRef}
                     setIsProcessing={setIsProcessing}
+                    units={units}
+                    onUnitsChange={setUnits}
                   />
                 </div>
               </div>
@@ -1,32 +1,157 @@
 'use client';
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import * as fabric from 'fabric';
 import { motion } from 'framer-motion';
 import { Loader2, Zap, Brain, Target, AlertCircle } from 'lucide-react';
 import { ClientOnly } from './ClientOnly';
+import { MaskToolsPanel, type BrushSettings, type MaskEditMode } from './MaskToolsPanel';
+import { SurfacePanel } from './SurfacePanel';
+import { FinishSelector } from './FinishSelector';
+import { ForegroundPanel } from './ForegroundPanel';
+import { HarmonyWheel } from './HarmonyWheel';
+import { OpeningPanel } from './OpeningPanel';
+import { PaintMatchPanel } from './PaintMatchPanel';
+import { ScalePanel } from './ScalePanel';
+import { createPaintDesign } from '@/hooks/useDesigns';
+import {
+  applyDesignPattern,
+  applyPaintRecolor,
+  applyPerspectivePattern,
+  bringOccludersToFront,
+  canvasPointToImage,
+  canvasPointsToImage,
+  clearDesigns,
+  createEditablePolygon,
+  createMaskClipPath,
+  createOccluderLayer,
+  createPolygonClipPath,
+  createWallMask,
+  getImagePixels,
+  getMaskCanvasBounds,
+  getPolygonCanvasPoints,
+  imagePointsToCanvas,
+  refreshWallMask,
+  type DesignObject,
+  type OccluderObject,
+  type WallObject,
+} from '@/lib/fabric-utils';
+import type { ColorPaletteResult, DetectedObject } from '@/lib/ai-models';
+import { isAnalysisCancelled, runAnalysis } from '@/lib/analysis-pool';
+import { rgbToHex } from '@/lib/color-science';
+import { distance, findVertexNear, insertVertex, removeVertex, type Point2D } from '@/lib/geometry';
+import { OBJECT_NAMES, type ObjectLabel } from '@/lib/object-detection';
+import { OPENING_NAMES, type DetectedOpening, type OpeningType } from '@/lib/opening-detection';
+import { findNearestPaints } from '@/lib/paint-catalog';
+import { createPerspectivePlane, type PerspectiveEstimate, type PerspectivePlane } from '@/lib/perspective';
+import { sampleColor, type PixelBuffer } from '@/lib/pixel-buffer';
+import { DEFAULT_PAINT_FINISH } from '@/lib/recolor';
+import { SURFACE_NAMES, WALL_LABELS, type SurfaceLabel } from '@/lib/room-layout';
+import {
+  calibrateFromLine,
+  estimateCalibration,
+  measureLine,
+  measureSurface,
+  type LengthUnit,
+  type ScaleCalibration,
+} from '@/lib/scale-calibration';
+import {
+  cloneMask,
+  combineMasks,
+  createRectangleMask,
+  cropMask,
+  getMaskBounds,
+  growRegion,
+  maskToPolygon,
+  paintMaskStroke,
+  rasterizePolygon,
+  refineMaskEdges,
+  subtractRegions,
+  type MaskCombineMode,
+  type MaskRegion,
+} from '@/lib/wall-mask';
 
 interface CanvasEditorProps {
   imageUrl: string;
   selectedDesign: any;
   setCanvasRef: (canvas: any) => void;
   setIsProcessing: (processing: boolean) => void;
+  units: LengthUnit;
+  onUnitsChange: (units: LengthUnit) => void;
 }
 
+// A labeled surface in the editor with its own mask and design
+interface EditorSurface {
+  id: string;
+  label: SurfaceLabel;
+  confidence: number;
+  overlay: fabric.Image & WallObject & { maskData: PixelBuffer };
+  polygon: Point2D[] | null; // outline in source-image pixels, null after pixel edits
+  plane: PerspectivePlane | null; // wall plane patterns are warped onto, null until known
+  design: any | null;
+}
+
+// An object in front of the walls, cut out of designs and composited above them
+interface EditorOccluder {
+  id: string;
+  name: string;
+  source: 'detected' | 'user';
+  confidence?: number; // detected objects only
+  region: Pick<MaskRegion, 'bounds' | 'mask'>;
+  enabled: boolean;
+  layer: fabric.Image & OccluderObject;
+}
+
+// A window, door or other opening in a wall, cut out of designs while enabled
+interface EditorOpening {
+  id: string;
+  name: string;
+  type: OpeningType;
+  region: Pick<MaskRegion, 'bounds' | 'mask'>;
+  enabled: boolean;
+}
+
+// Distance (canvas pixels) within which a click hits a polygon corner
+const VERTEX_HIT_RADIUS = 10;
+
 function CanvasEditorContent({ 
   imageUrl, 
   selectedDesign, 
   setCanvasRef, 
-  setIsProcessing 
+  setIsProcessing,
+  units,
+  onUnitsChange
 }: CanvasEditorProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [canvas, setCanvas] = useState<fabric.Canvas | null>(null);
   const [isSegmenting, setIsSegmenting] = useState(false);
-  const [wallMask, setWallMask] = useState<any>(null);
+  const [baseImage, setBaseImage] = useState<fabric.Image | null>(null);
+  const [surfaces, setSurfaces] = useState<EditorSurface[]>([]);
+  const [activeSurfaceId, setActiveSurfaceId] = useState<string | null>(null);
+  const [occluders, setOccluders] = useState<EditorOccluder[]>([]);
+  const [selectedOccluderId, setSelectedOccluderId] = useState<string | null>(null);
+  const [openings, setOpenings] = useState<EditorOpening[]>([]);
   const [aiStatus, setAiStatus] = useState<string>('Initializing...');
   const [segmentationResult, setSegmentationResult] = useState<any>(null);
+  const [perspective, setPerspective] = useState<PerspectiveEstimate | null>(null);
+  const [calibration, setCalibration] = useState<ScaleCalibration | null>(null);
+  const [referenceLine, setReferenceLine] = useState<{ start: Point2D; end: Point2D } | null>(null); // source-image pixels
+  const [colorPalette, setColorPalette] = useState<ColorPaletteResult | null>(null);
+  const [pickedColor, setPickedColor] = useState<string | null>(null); // matched to catalog paints
+  const [showHarmony, setShowHarmony] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [aiModelsLoaded, setAiModelsLoaded] = useState(false);
+  const [editMode, setEditMode] = useState<MaskEditMode>('none');
+  const [wandTolerance, setWandTolerance] = useState(24);
+  const [brush, setBrush] = useState<BrushSettings>({ size: 30, hardness: 70, snapToEdges: true });
+  const sourcePixelsRef = useRef<ImageData | null>(null);
+  const edgeMapRef = useRef<Promise<Uint8ClampedArray> | null>(null);
+  const analysisAbortRef = useRef<AbortController | null>(null);
+  const drawPointsRef = useRef<Point2D[]>([]);
+  // Design matte per surface mask, with the ids of the cutouts it was made without
+  const matteCacheRef = useRef(new WeakMap<PixelBuffer, { cutouts: string; matte: PixelBuffer }>());
+  // Latest design application started per surface; older ones still rendering are dropped
+  const applyGenerationRef = useRef(new Map<string, number>());
 
   // Initialize AI models
   useEffect(() => {
@@ -103,23 +228,738 @@ function CanvasEditorContent({
     }
   }, [canvas, imageUrl]);
 
-  // Apply design when all dependencies are ready
+  const activeSurface = surfaces.find(surface => surface.id === activeSurfaceId) ?? null;
+  const hasSurfaces = surfaces.length > 0;
+
+  // Real size of the active wall, for the scale panel
+  const activeWallSize = useMemo(() => {
+    if (!calibration || !activeSurface || !WALL_LABELS.includes(activeSurface.label)) return null;
+    return {
+      name: SURFACE_NAMES[activeSurface.label],
+      size: measureSurface(calibration, activeSurface.plane, getMaskBounds(activeSurface.overlay.maskData)),
+    };
+  }, [calibration, activeSurface]);
+
+  // Full-resolution pixels of the photo, read once per image
+  const getSourcePixels = useCallback((img: fabric.Image) => {
+    if (!sourcePixelsRef.current) {
+      sourcePixelsRef.current = getImagePixels(img);
+    }
+    return sourcePixelsRef.current;
+  }, []);
+
+  // Pixels and edge map of the photo, computed once per image in an analysis worker
+  const getSourceAnalysis = useCallback(async (img: fabric.Image) => {
+    const pixels = getSourcePixels(img);
+    if (!edgeMapRef.current) {
+      // The worker takes ownership of the buffer it is sent, so send a copy
+      const copy = { data: pixels.data.slice(), width: pixels.width, height: pixels.height };
+      edgeMapRef.current = runAnalysis('edges', copy);
+      edgeMapRef.current.catch(() => {
+        edgeMapRef.current = null;
+      });
+    }
+    return { pixels, edges: await edgeMapRef.current };
+  }, [getSourcePixels]);
+
+  // Add foreground objects and their photo cutouts
+  const addOccluders = useCallback((
+    added: Array<Pick<EditorOccluder, 'name' | 'source' | 'confidence' | 'region'>>,
+    img: fabric.Image
+  ) => {
+    if (!canvas || added.length === 0) return;
+
+    const pixels = getSourcePixels(img);
+    const created = added.map(occluder => {
+      const id = `occluder-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+      const layer = createOccluderLayer(pixels, occluder.region, img, id);
+      canvas.add(layer);
+      return { ...occluder, id, enabled: true, layer };
+    });
+    bringOccludersToFront(canvas);
+    canvas.renderAll();
+
+    setOccluders(prev => [...prev, ...created]);
+  }, [canvas, getSourcePixels]);
+
+  // A surface's soft design matte: its mask with enabled foreground objects and openings cut out,
+  // refined at display resolution and reused until the mask or the cutouts change
+  const getDesignMatte = useCallback((surface: EditorSurface, img: fabric.Image) => {
+    const cutouts = [...occluders, ...openings].filter(cutout => cutout.enabled);
+    const key = cutouts.map(cutout => cutout.id).join(',');
+    const cached = matteCacheRef.current.get(surface.overlay.maskData);
+    if (cached?.cutouts === key) return cached.matte;
+
+    const mask = subtractRegions(surface.overlay.maskData, cutouts.map(cutout => cutout.region));
+    const matte = refineMaskEdges(mask, getSourcePixels(img), { scale: img.scaleX });
+    matteCacheRef.current.set(surface.overlay.maskData, { cutouts: key, matte });
+    return matte;
+  }, [occluders, openings, getSourcePixels]);
+
+  // Create a mask overlay and keep it directly above the photo, below any designs
+  const addMaskOverlay = useCallback((mask: PixelBuffer, img: fabric.Image) => {
+    const overlay = createWallMask(mask, img) as EditorSurface['overlay'];
+    if (canvas && canvas.getContext && canvas.getContext()) {
+      canvas.insertAt(1, overlay);
+    }
+    return overlay;
+  }, [canvas]);
+
+  // Start a new design application on a surface, superseding any still in progress
+  const startApply = useCallback((surfaceId: string) => {
+    const generation = (applyGenerationRef.current.get(surfaceId) ?? 0) + 1;
+    applyGenerationRef.current.set(surfaceId, generation);
+    return () => applyGenerationRef.current.get(surfaceId) === generation;
+  }, []);
+
+  const applyDesignToSurface = useCallback(async (surface: EditorSurface, design: any, fadeIn: boolean = true) => {
+    if (!canvas || !baseImage) return;
+    const isCurrent = startApply(surface.id);
+
+    try {
+      // Apply design to the surface area, clipped to a soft matte of the surface pixels minus
+      // foreground objects. Paint recolors the photo so the wall keeps its light and shadows;
+      // patterns follow the wall's perspective plane when it is known, at their real size once the
+      // photo's scale is.
+      const sourcePixels = getSourcePixels(baseImage);
+      const designMask = getDesignMatte(surface, baseImage);
+      const clipPath = createMaskClipPath(designMask, baseImage);
+      const recolored = design.category === 'paint'
+        ? applyPaintRecolor(design, sourcePixels, designMask, getMaskBounds(designMask), baseImage, clipPath)
+        : null;
+      const designObject = recolored ?? (surface.plane && design.category !== 'paint'
+        ? await applyPerspectivePattern(design, surface.plane, getMaskBounds(designMask), baseImage, clipPath, calibration)
+        : await applyDesignPattern(
+          canvas,
+          design,
+          getMaskCanvasBounds(designMask, baseImage),
+          clipPath,
+          calibration ? (baseImage.scaleX || 1) / calibration.cmPerPixel : undefined
+        ));
+      if (!isCurrent()) return;
+      if (!designObject) {
+        throw new Error('Failed to create design object');
+      }
+      (designObject as DesignObject).surfaceId = surface.id;
+      designObject.set('evented', editMode === 'none');
+
+      const targetOpacity = designObject.opacity ?? 0.9;
+
+      if (canvas.getContext && canvas.getContext()) {
+        // Replace the surface's previous design only now, so overlapping applications never stack
+        clearDesigns(canvas, surface.id);
+        canvas.add(designObject);
+        bringOccludersToFront(canvas);
+        canvas.renderAll();
+      }
+
+      if (!fadeIn) return;
+
+      // Animate the application
+      designObject.set('opacity', 0);
+      canvas.renderAll();
+
+      // Fade in animation
+      const animate = () => {
+        const currentOpacity = designObject.opacity!;
+        if (currentOpacity < targetOpacity) {
+          designObject.set('opacity', Math.min(currentOpacity + 0.1, targetOpacity));
+          canvas.renderAll();
+          requestAnimationFrame(animate);
+        } else {
+          designObject.set('opacity', targetOpacity);
+          canvas.renderAll();
+        }
+      };
+      animate();
+
+    } catch (error) {
+      if (!isCurrent()) return;
+      console.error('Error applying design:', error);
+      setError('Failed to apply design to wall');
+    }
+  }, [canvas, baseImage, editMode, calibration, getSourcePixels, getDesignMatte, startApply]);
+
+  // Swap a surface's mask (and outline) and re-clip its design
+  const setSurfaceMask = useCallback((surface: EditorSurface, mask: PixelBuffer, polygon: Point2D[] | null) => {
+    if (!canvas || !baseImage) return;
+
+    canvas.remove(surface.overlay);
+    const updated = { ...surface, overlay: addMaskOverlay(mask, baseImage), polygon };
+    canvas.renderAll();
+
+    setSurfaces(prev => prev.map(s => (s.id === surface.id ? updated : s)));
+    if (updated.design) {
+      applyDesignToSurface(updated, updated.design, false);
+    }
+  }, [canvas, baseImage, addMaskOverlay, applyDesignToSurface]);
+
+  // Change the plane a surface's pattern is warped onto and re-render its design
+  const setSurfacePlane = useCallback((surface: EditorSurface, plane: PerspectivePlane) => {
+    const updated = { ...surface, plane };
+    setSurfaces(prev => prev.map(s => (s.id === surface.id ? updated : s)));
+    if (updated.design) {
+      applyDesignToSurface(updated, updated.design, false);
+    }
+  }, [applyDesignToSurface]);
+
+  // Assign a design (or none) to a surface
+  const setSurfaceDesign = useCallback((surface: EditorSurface, design: any | null) => {
+    setSurfaces(prev => prev.map(s => (s.id === surface.id ? { ...s, design } : s)));
+    if (design) {
+      applyDesignToSurface(surface, design);
+    } else if (canvas) {
+      startApply(surface.id);
+      clearDesigns(canvas, surface.id);
+    }
+  }, [canvas, applyDesignToSurface, startApply]);
+
+  // Surfaces and design setters of the latest render, for the effects below that re-render designs
+  // only when one particular input changes
+  const latestRef = useRef({ surfaces, activeSurface, applyDesignToSurface, setSurfaceDesign });
   useEffect(() => {
-    if (canvas && selectedDesign && wallMask) {
-      applyDesignToWall();
+    latestRef.current = { surfaces, activeSurface, applyDesignToSurface, setSurfaceDesign };
+  });
+
+  // Apply the selected design to the active surface once surfaces are ready
+  useEffect(() => {
+    const { activeSurface, setSurfaceDesign } = latestRef.current;
+    if (canvas && selectedDesign && baseImage && activeSurface && activeSurface.design?.id !== selectedDesign.id) {
+      setSurfaceDesign(activeSurface, selectedDesign);
     }
-  }, [canvas, selectedDesign, wallMask]);
+  }, [canvas, selectedDesign, baseImage, hasSurfaces]);
 
-  // Defensive: clear wallMask when image changes
+  // Defensive: clear surfaces when image changes
   useEffect(() => {
-    setWallMask(null);
+    setSurfaces([]);
+    setActiveSurfaceId(null);
+    setOccluders([]);
+    setSelectedOccluderId(null);
+    setOpenings([]);
+    setBaseImage(null);
     setSegmentationResult(null);
+    setPerspective(null);
+    setCalibration(null);
+    setReferenceLine(null);
+    setColorPalette(null);
+    setPickedColor(null);
     setError(null);
+    sourcePixelsRef.current = null;
+    edgeMapRef.current = null;
+    // Designs still rendering for the previous image's surfaces (same ids) must not land on this one
+    const generations = applyGenerationRef.current;
+    generations.forEach((generation, surfaceId) => generations.set(surfaceId, generation + 1));
   }, [imageUrl]);
 
+  // Stop background analysis when the editor goes away
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  // Re-clip every painted surface when foreground objects or openings change, and re-size its
+  // pattern when the photo's scale does
+  useEffect(() => {
+    const { surfaces, applyDesignToSurface } = latestRef.current;
+    surfaces.forEach(surface => {
+      if (surface.design) {
+        applyDesignToSurface(surface, surface.design, false);
+      }
+    });
+  }, [occluders, openings, calibration]);
+
+  // Map surfaces onto their wall planes once the perspective is known
+  useEffect(() => {
+    if (!perspective) return;
+    const { surfaces, applyDesignToSurface } = latestRef.current;
+    const updated = surfaces.map(surface => ({
+      ...surface,
+      plane: perspective.planes.find(plane => plane.surfaceId === surface.id) ?? surface.plane,
+    }));
+    setSurfaces(updated);
+    updated.forEach(surface => {
+      if (surface.design) {
+        applyDesignToSurface(surface, surface.design, false);
+      }
+    });
+  }, [perspective]);
+
+  // Only show the mask overlay of the surface being edited
+  useEffect(() => {
+    if (!canvas) return;
+    surfaces.forEach(surface => {
+      surface.overlay.set('visible', surface.id === activeSurfaceId);
+    });
+    canvas.renderAll();
+  }, [canvas, surfaces, activeSurfaceId]);
+
+  // Disable object selection while a mask editing tool is active
+  useEffect(() => {
+    if (!canvas) return;
+    canvas.selection = editMode === 'none';
+    const editsShapes = editMode === 'polygon' || editMode === 'perspective';
+    canvas.skipTargetFind = editMode !== 'none' && !editsShapes;
+    canvas.defaultCursor = editMode === 'none' || editsShapes ? 'default' : 'crosshair';
+    canvas.getObjects().forEach(obj => {
+      if ((obj as DesignObject).isDesign) {
+        obj.set('evented', editMode === 'none');
+      }
+    });
+    if (editMode !== 'none') {
+      canvas.discardActiveObject();
+      canvas.renderAll();
+    }
+  }, [canvas, editMode]);
+
+  // Magic wand: grow a region of the active surface from the clicked pixel
+  useEffect(() => {
+    if (!canvas || editMode !== 'wand' || !baseImage || !activeSurface) return;
+
+    const handleMouseDown = async (opt: any) => {
+      const event = opt.e as MouseEvent;
+      const point = canvasPointToImage(opt.scenePoint, baseImage);
+
+      try {
+        const { pixels, edges } = await getSourceAnalysis(baseImage);
+        const region = growRegion(pixels, edges, point.x, point.y, {
+          tolerance: wandTolerance,
+        });
+        const mode: MaskCombineMode = event.shiftKey ? 'add' : event.altKey ? 'subtract' : 'replace';
+        setSurfaceMask(activeSurface, combineMasks(activeSurface.overlay.maskData, region, mode), null);
+      } catch (error) {
+        console.error('Magic wand selection error:', error);
+        setError('Failed to select wall region');
+      }
+    };
+
+    canvas.on('mouse:down', handleMouseDown);
+    return () => {
+      canvas.off('mouse:down', handleMouseDown);
+    };
+  }, [canvas, editMode, baseImage, activeSurface, wandTolerance, getSourceAnalysis, setSurfaceMask]);
+
+  // Brush and eraser: paint the active surface mask directly
+  useEffect(() => {
+    if (!canvas || (editMode !== 'brush' && editMode !== 'erase') || !baseImage || !activeSurface) return;
+
+    let working: PixelBuffer | null = null;
+    let lastPoint: Point2D | null = null;
+    let edges: Uint8ClampedArray | null = null;
+
+    getSourceAnalysis(baseImage)
+      .then(analysis => {
+        edges = analysis.edges;
+      })
+      .catch(error => console.warn('Edge map unavailable, brush will not snap to edges:', error));
+
+    const brushOptions = () => ({
+      radius: brush.size / 2 / (baseImage.scaleX || 1),
+      hardness: brush.hardness / 100,
+      mode: editMode === 'brush' ? 'paint' as const : 'erase' as const,
+      edges: brush.snapToEdges ? edges : null,
+    });
+
+    const paintTo = (point: Point2D) => {
+      if (!working || !lastPoint) return;
+      const rect = paintMaskStroke(working, lastPoint, point, brushOptions());
+      refreshWallMask(activeSurface.overlay, working, rect);
+      canvas.requestRenderAll();
+      lastPoint = point;
+    };
+
+    const handleMouseDown = (opt: any) => {
+      working = cloneMask(activeSurface.overlay.maskData);
+      const point = canvasPointToImage(opt.scenePoint, baseImage);
+      // A single click still leaves one dab
+      lastPoint = { x: point.x - 0.01, y: point.y };
+      paintTo(point);
+    };
+
+    const handleMouseMove = (opt: any) => {
+      if (working) {
+        paintTo(canvasPointToImage(opt.scenePoint, baseImage));
+      }
+    };
+
+    const handleMouseUp = () => {
+      if (!working) return;
+      setSurfaceMask(activeSurface, working, null);
+      working = null;
+      lastPoint = null;
+    };
+
+    canvas.on('mouse:down', handleMouseDown);
+    canvas.on('mouse:move', handleMouseMove);
+    canvas.on('mouse:up', handleMouseUp);
+    return () => {
+      canvas.off('mouse:down', handleMouseDown);
+      canvas.off('mouse:move', handleMouseMove);
+      canvas.off('mouse:up', handleMouseUp);
+    };
+  }, [canvas, editMode, baseImage, activeSurface, brush, getSourceAnalysis, setSurfaceMask]);
+
+  // Polygon editing: drag, insert and delete corners of the active surface outline
+  useEffect(() => {
+    if (!canvas || editMode !== 'polygon' || !baseImage || !activeSurface) return;
+
+    const imagePolygon = activeSurface.polygon ?? maskToPolygon(activeSurface.overlay.maskData);
+    if (imagePolygon.length < 3) return;
+
+    let polygon = createEditablePolygon(imagePointsToCanvas(imagePolygon, baseImage));
+    const showPolygon = (next: fabric.Polygon) => {
+      canvas.remove(polygon);
+      polygon = next;
+      canvas.add(polygon);
+      canvas.setActiveObject(polygon);
+      canvas.renderAll();
+    };
+    activeSurface.overlay.set('visible', false);
+    showPolygon(polygon);
+
+    const commit = (points: Point2D[]) => {
+      const outline = canvasPointsToImage(points, baseImage);
+      const mask = rasterizePolygon(outline, baseImage.width || 0, baseImage.height || 0);
+      setSurfaceMask(activeSurface, mask, outline);
+    };
+
+    // Re-clip the surface's designs live while a corner is dragged
+    const handleModifyPoly = () => {
+      const points = getPolygonCanvasPoints(polygon);
+      canvas.getObjects().forEach(obj => {
+        if ((obj as DesignObject).isDesign && (obj as DesignObject).surfaceId === activeSurface.id) {
+          obj.set('clipPath', createPolygonClipPath(points));
+        }
+      });
+      canvas.requestRenderAll();
+    };
+
+    const handleModified = (opt: any) => {
+      if (opt.target === polygon) {
+        commit(getPolygonCanvasPoints(polygon));
+      }
+    };
+
+    const handleDoubleClick = (opt: any) => {
+      const points = getPolygonCanvasPoints(polygon);
+      const vertex = findVertexNear(points, opt.scenePoint, VERTEX_HIT_RADIUS);
+      const next = vertex >= 0 ? removeVertex(points, vertex) : insertVertex(points, opt.scenePoint);
+      if (next === points) return;
+
+      showPolygon(createEditablePolygon(next));
+      commit(next);
+    };
+
+    canvas.on('object:modifyPoly', handleModifyPoly);
+    canvas.on('object:modified', handleModified);
+    canvas.on('mouse:dblclick', handleDoubleClick);
+    return () => {
+      canvas.off('object:modifyPoly', handleModifyPoly);
+      canvas.off('object:modified', handleModified);
+      canvas.off('mouse:dblclick', handleDoubleClick);
+      canvas.remove(polygon);
+      canvas.renderAll();
+    };
+  }, [canvas, editMode, baseImage, activeSurface, setSurfaceMask]);
+
+  // Object selection: click a foreground object in the photo to select it
+  useEffect(() => {
+    if (!canvas || editMode !== 'none' || !baseImage) return;
+
+    const handleMouseDown = (opt: any) => {
+      const point = canvasPointToImage(opt.scenePoint, baseImage);
+      // The smallest object under the pointer, so a frame above a sofa stays reachable
+      const hit = occluders
+        .filter(occluder => occluder.enabled && maskCovers(occluder.region, point))
+        .sort((a, b) => a.region.bounds.width * a.region.bounds.height - b.region.bounds.width * b.region.bounds.height)[0];
+      setSelectedOccluderId(hit?.id ?? null);
+    };
+
+    canvas.on('mouse:down', handleMouseDown);
+    return () => {
+      canvas.off('mouse:down', handleMouseDown);
+    };
+  }, [canvas, editMode, baseImage, occluders]);
+
+  // Outline the selected foreground object with a glow around its cutout
+  useEffect(() => {
+    if (!canvas) return;
+    occluders.forEach(occluder => {
+      occluder.layer.set('shadow', occluder.id === selectedOccluderId
+        ? new fabric.Shadow({ color: 'rgba(37, 99, 235, 0.9)', blur: 16 })
+        : null);
+    });
+    canvas.renderAll();
+  }, [canvas, occluders, selectedOccluderId]);
+
+  // Paint matching: pick a color from the photo
+  useEffect(() => {
+    if (!canvas || editMode !== 'pick' || !baseImage) return;
+
+    const handleMouseDown = (opt: any) => {
+      const point = canvasPointToImage(opt.scenePoint, baseImage);
+      const color = sampleColor(getSourcePixels(baseImage), point.x, point.y);
+      if (color) setPickedColor(rgbToHex(color));
+    };
+
+    canvas.on('mouse:down', handleMouseDown);
+    return () => {
+      canvas.off('mouse:down', handleMouseDown);
+    };
+  }, [canvas, editMode, baseImage, getSourcePixels]);
+
+  // Measuring: drag a reference line along a wall; entering its real length sets the photo's scale
+  useEffect(() => {
+    if (!canvas || editMode !== 'measure' || !baseImage) return;
+
+    let start: Point2D | null = null;
+    const line = new fabric.Line([0, 0, 0, 0], {
+      stroke: '#f59e0b',
+      strokeWidth: 2,
+      strokeDashArray: [6, 4],
+      selectable: false,
+      evented: false,
+      visible: false,
+      objectCaching: false,
+    });
+    if (referenceLine) {
+      const [from, to] = imagePointsToCanvas([referenceLine.start, referenceLine.end], baseImage);
+      line.set({ x1: from.x, y1: from.y, x2: to.x, y2: to.y, visible: true });
+    }
+    canvas.add(line);
+    canvas.renderAll();
+
+    const handleMouseDown = (opt: any) => {
+      start = { x: opt.scenePoint.x, y: opt.scenePoint.y };
+      line.set({ x1: start.x, y1: start.y, x2: start.x, y2: start.y, visible: true });
+      canvas.renderAll();
+    };
+
+    const handleMouseMove = (opt: any) => {
+      if (!start) return;
+      line.set({ x2: opt.scenePoint.x, y2: opt.scenePoint.y });
+      canvas.renderAll();
+    };
+
+    const handleMouseUp = (opt: any) => {
+      if (!start) return;
+      const [from, to] = canvasPointsToImage([start, { x: opt.scenePoint.x, y: opt.scenePoint.y }], baseImage);
+      start = null;
+      if (distance(from, to) >= 1) {
+        setReferenceLine({ start: from, end: to });
+      } else {
+        line.set('visible', false);
+        canvas.renderAll();
+      }
+    };
+
+    canvas.on('mouse:down', handleMouseDown);
+    canvas.on('mouse:move', handleMouseMove);
+    canvas.on('mouse:up', handleMouseUp);
+    return () => {
+      canvas.off('mouse:down', handleMouseDown);
+      canvas.off('mouse:move', handleMouseMove);
+      canvas.off('mouse:up', handleMouseUp);
+      canvas.remove(line);
+      canvas.renderAll();
+    };
+  }, [canvas, editMode, baseImage, referenceLine]);
+
+  // Perspective editing: drag the four corners of the active surface's wall plane
+  useEffect(() => {
+    if (!canvas || editMode !== 'perspective' || !baseImage || !activeSurface) return;
+
+    const width = baseImage.width || 0;
+    const height = baseImage.height || 0;
+    let plane = activeSurface.plane;
+    if (!plane) {
+      // Without a detected plane, start from the surface's bounding rectangle (no perspective)
+      const bounds = getMaskBounds(activeSurface.overlay.maskData);
+      const corners = [
+        { x: bounds.x, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+        { x: bounds.x, y: bounds.y + bounds.height },
+      ];
+      plane = createPerspectivePlane(activeSurface.id, activeSurface.label, corners, width, height, perspective?.focalLength);
+    }
+
+    const quad = createEditablePolygon(imagePointsToCanvas(plane.corners, baseImage));
+    quad.set({ fill: 'transparent', strokeDashArray: [6, 4] });
+    canvas.add(quad);
+    canvas.setActiveObject(quad);
+    canvas.renderAll();
+
+    const handleModified = (opt: any) => {
+      if (opt.target !== quad) return;
+      const corners = canvasPointsToImage(getPolygonCanvasPoints(quad), baseImage);
+      setSurfacePlane(
+        activeSurface,
+        createPerspectivePlane(activeSurface.id, activeSurface.label, corners, width, height, perspective?.focalLength)
+      );
+    };
+
+    canvas.on('object:modified', handleModified);
+    return () => {
+      canvas.off('object:modified', handleModified);
+      canvas.remove(quad);
+      canvas.renderAll();
+    };
+  }, [canvas, editMode, baseImage, activeSurface, perspective, setSurfacePlane]);
+
+  // Polygon drawing: click corners of a new outline for the active surface or a foreground object
+  // (which needs no active surface)
+  useEffect(() => {
+    const drawsOccluder = editMode === 'occluder';
+    if (!canvas || !baseImage || !(drawsOccluder || (editMode === 'draw' && activeSurface))) return;
+
+    drawPointsRef.current = [];
+    let preview: fabric.Polyline | null = null;
+
+    const updatePreview = () => {
+      if (preview) canvas.remove(preview);
+      preview = new fabric.Polyline(drawPointsRef.current, {
+        fill: 'rgba(59, 130, 246, 0.15)',
+        stroke: '#3b82f6',
+        strokeWidth: 2,
+        strokeDashArray: [5, 5],
+        selectable: false,
+        evented: false,
+        objectCaching: false,
+      });
+      canvas.add(preview);
+      canvas.renderAll();
+    };
+
+    const close = () => {
+      const points = drawPointsRef.current;
+      drawPointsRef.current = [];
+      if (points.length < 3) return;
+
+      const outline = canvasPointsToImage(points, baseImage);
+      const mask = rasterizePolygon(outline, baseImage.width || 0, baseImage.height || 0);
+      if (drawsOccluder) {
+        const bounds = getMaskBounds(mask);
+        addOccluders([{ name: 'Marked object', source: 'user', region: { bounds, mask: cropMask(mask, bounds) } }], baseImage);
+        if (preview) canvas.remove(preview);
+        preview = null;
+        canvas.renderAll();
+        return;
+      }
+      if (!activeSurface) return;
+      setSurfaceMask(activeSurface, mask, outline);
+      setEditMode('polygon');
+    };
+
+    const handleMouseDown = (opt: any) => {
+      const point = { x: opt.scenePoint.x, y: opt.scenePoint.y };
+      const points = drawPointsRef.current;
+
+      if (points.length >= 3 && distance(point, points[0]) <= VERTEX_HIT_RADIUS) {
+        close();
+        return;
+      }
+      // Ignore the repeated click of a double-click
+      if (points.length > 0 && distance(point, points[points.length - 1]) <= 2) return;
+
+      drawPointsRef.current = [...points, point];
+      updatePreview();
+    };
+
+    canvas.on('mouse:down', handleMouseDown);
+    canvas.on('mouse:dblclick', close);
+    return () => {
+      canvas.off('mouse:down', handleMouseDown);
+      canvas.off('mouse:dblclick', close);
+      if (preview) canvas.remove(preview);
+      canvas.renderAll();
+    };
+  }, [canvas, editMode, baseImage, activeSurface, addOccluders, setSurfaceMask]);
+
+  // Show or hide an object's cutout; painted surfaces re-clip when the occluder list changes
+  const toggleOccluder = (id: string, enabled: boolean) => {
+    const toggled = occluders.find(occluder => occluder.id === id);
+    if (!toggled) return;
+
+    toggled.layer.set('visible', enabled);
+    canvas?.renderAll();
+    setOccluders(prev => prev.map(occluder => (occluder.id === id ? { ...occluder, enabled } : occluder)));
+  };
+
+  const removeOccluder = (id: string) => {
+    const removed = occluders.find(occluder => occluder.id === id);
+    if (!removed) return;
+
+    if (id === selectedOccluderId) setSelectedOccluderId(null);
+    canvas?.remove(removed.layer);
+    canvas?.renderAll();
+    setOccluders(prev => prev.filter(occluder => occluder.id !== id));
+  };
+
+  // The surface a reference line lies on: the one under its midpoint, else the active one
+  const getLineSurface = (line: { start: Point2D; end: Point2D }) => {
+    const midpoint = { x: (line.start.x + line.end.x) / 2, y: (line.start.y + line.end.y) / 2 };
+    return surfaces.find(surface => {
+      const mask = surface.overlay.maskData;
+      return maskCovers({ bounds: { x: 0, y: 0, width: mask.width, height: mask.height }, mask }, midpoint);
+    }) ?? activeSurface;
+  };
+
+  // Set the photo's scale from the reference line's real length (cm)
+  const calibrateScale = (length: number) => {
+    if (!referenceLine) return;
+    const surface = getLineSurface(referenceLine);
+    const wallPixels = surface ? getMaskBounds(surface.overlay.maskData).height : baseImage?.height || 0;
+    const calibrated = calibrateFromLine(referenceLine.start, referenceLine.end, length, surface?.plane ?? null, wallPixels);
+    if (calibrated) setCalibration(calibrated);
+  };
+
+  // Keep an opening free of designs, or let designs cover it
+  const toggleOpening = (id: string, enabled: boolean) => {
+    setOpenings(prev => prev.map(opening => (opening.id === id ? { ...opening, enabled } : opening)));
+  };
+
+  // Number detected openings per type ("Window 1", "Window 2", "Door 1")
+  const initializeOpenings = (detected: DetectedOpening[]) => {
+    const counts: Partial<Record<OpeningType, number>> = {};
+    setOpenings(detected.map(opening => {
+      counts[opening.type] = (counts[opening.type] ?? 0) + 1;
+      return {
+        id: opening.id,
+        name: `${OPENING_NAMES[opening.type]} ${counts[opening.type]}`,
+        type: opening.type,
+        region: { bounds: opening.bounds, mask: opening.mask },
+        enabled: true,
+      };
+    }));
+  };
+
+  // Replace all surfaces with freshly segmented ones
+  const initializeSurfaces = (
+    detected: Array<{ id: string; label: SurfaceLabel; confidence: number; mask: PixelBuffer; polygon: Point2D[] }>,
+    img: fabric.Image
+  ) => {
+    if (!canvas) return;
+
+    const created = detected.map(surface => ({
+      id: surface.id,
+      label: surface.label,
+      confidence: surface.confidence,
+      overlay: addMaskOverlay(surface.mask, img),
+      polygon: surface.polygon,
+      plane: null,
+      design: null,
+    }));
+    canvas.renderAll();
+
+    setSurfaces(created);
+    setActiveSurfaceId((created.find(surface => surface.label === 'back-wall') ?? created[0])?.id ?? null);
+  };
+
   const loadImageToCanvas = async () => {
     if (!canvas) return;
 
+    // Cancel analysis still running for the previous image
+    analysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+
     setIsSegmenting(true);
     setIsProcessing(true);
     setAiStatus('Loading image...');
@@ -132,17 +972,10 @@ function CanvasEditorContent({
       }
 
       // Load image with error handling
-      const img: fabric.Image = await new Promise((resolve, reject) => {
-        fabric.Image.fromURL(imageUrl, {
-          crossOrigin: 'anonymous'
-        }, (image: fabric.Image | null) => {
-          if (image) {
-            resolve(image);
-          } else {
-            reject(new Error('Failed to load image'));
-          }
-        });
+      const img = await fabric.Image.fromURL(imageUrl, {
+        crossOrigin: 'anonymous'
       });
+      if (controller.signal.aborted) return;
 
       // Scale image to fit canvas
       const canvasWidth = 800;
@@ -166,10 +999,11 @@ function CanvasEditorContent({
         canvas.add(img);
         canvas.renderAll();
       }
+      setBaseImage(img);
 
       // Perform AI wall segmentation or fallback
       if (aiModelsLoaded) {
-        await performAISegmentation(img);
+        await performAISegmentation(img, controller.signal);
       } else {
         await performFallbackSegmentation(img);
       }
@@ -179,56 +1013,52 @@ function CanvasEditorContent({
       setError('Failed to load image. Please try again.');
       setAiStatus('Error processing image');
     } finally {
-      setIsSegmenting(false);
-      setIsProcessing(false);
+      // A newer image owns the processing state once this one is cancelled
+      if (!controller.signal.aborted) {
+        setIsSegmenting(false);
+        setIsProcessing(false);
+      }
     }
   };
 
-  const performAISegmentation = async (img: fabric.Image) => {
+  const performAISegmentation = async (img: fabric.Image, signal: AbortSignal) => {
     try {
       setAiStatus('Analyzing wall structure...');
 
-      // Import AI models dynamically to prevent SSR issues
-      const { processWallSegmentation, estimateDepth, extractColorPalette } = await import('@/lib/ai-models');
-
-      // Perform wall segmentation using AI
-      const result = await processWallSegmentation(imageUrl);
+      // Segment the walls, find the furniture in front of them, estimate depth and extract colors
+      // in one analysis job, so the image is decoded and its room layout built only once
+      const onProgress = (progress: number, stage: string) => {
+        if (!signal.aborted) setAiStatus(`${stage}... ${Math.round(progress)}%`);
+      };
+      const { segmentation: result, objects: detection, depth, palette } =
+        await runAnalysis('room', imageUrl, { onProgress, signal });
+      if (signal.aborted) return;
       setSegmentationResult(result);
 
-      setAiStatus('Detecting wall boundaries...');
-
-      // Create wall mask visualization
-      const maskRect = new fabric.Rect({
-        left: (img.left || 0) + result.bounds.x * (img.scaleX || 1),
-        top: (img.top || 0) + result.bounds.y * (img.scaleY || 1),
-        width: result.bounds.width * (img.scaleX || 1),
-        height: result.bounds.height * (img.scaleY || 1),
-        fill: 'rgba(59, 130, 246, 0.3)',
-        stroke: '#3b82f6',
-        strokeWidth: 2,
-        strokeDashArray: [5, 5],
-        selectable: false,
-        evented: false,
-        opacity: 0.7,
-      });
-
-      if (canvas && canvas.getContext && canvas.getContext()) {
-        canvas.add(maskRect);
-        canvas.renderAll();
-      }
-
-      setWallMask(maskRect);
-
-      // Perform additional AI analysis
-      setAiStatus('Estimating depth and perspective...');
-      await estimateDepth(imageUrl);
-
-      setAiStatus('Extracting color palette...');
-      await extractColorPalette(imageUrl);
+      // Create one mask per labeled surface, with windows and doors kept free of designs
+      initializeSurfaces(result.surfaces, img);
+      initializeOpenings(result.openings);
+      setCalibration(estimateCalibration(result.openings, result.surfaces));
+      addOccluders(
+        nameDetectedObjects(detection.objects.filter(object => object.mask))
+          .map(({ object, name }) => ({
+            name,
+            source: 'detected' as const,
+            confidence: object.confidence,
+            region: {
+              bounds: { x: object.bbox[0], y: object.bbox[1], width: object.bbox[2], height: object.bbox[3] },
+              mask: object.mask!,
+            },
+          })),
+        img
+      );
+      setPerspective(depth.perspective);
+      setColorPalette(palette);
 
       setAiStatus('AI analysis complete!');
 
     } catch (error) {
+      if (isAnalysisCancelled(error)) return;
       console.error('AI segmentation error:', error);
       setAiStatus('AI analysis failed - using fallback detection');
 
@@ -241,35 +1071,28 @@ function CanvasEditorContent({
     try {
       setAiStatus('Using fallback wall detection...');
 
-      // Simple fallback wall detection
-      const maskRect = new fabric.Rect({
-        left: (img.left || 0) + 50,
-        top: (img.top || 0) + 100,
-        width: ((img.width || 0) * (img.scaleX || 1)) - 100,
-        height: ((img.height || 0) * (img.scaleY || 1)) - 200,
-        fill: 'rgba(59, 130, 246, 0.3)',
-        stroke: '#3b82f6',
-        strokeWidth: 2,
-        strokeDashArray: [5, 5],
-        selectable: false,
-        evented: false,
-        opacity: 0.7,
-      });
-
-      if (canvas && canvas.getContext && canvas.getContext()) {
-        canvas.add(maskRect);
-        canvas.renderAll();
-      }
-
-      setWallMask(maskRect);
+      // Simple fallback wall detection: inset rectangle in source-image pixels
+      const scaleX = img.scaleX || 1;
+      const scaleY = img.scaleY || 1;
+      const bounds = {
+        x: 50 / scaleX,
+        y: 100 / scaleY,
+        width: (img.width || 0) - 100 / scaleX,
+        height: (img.height || 0) - 200 / scaleY,
+      };
+      const mask = createRectangleMask(img.width || 0, img.height || 0, bounds);
+      const polygon = [
+        { x: bounds.x, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+        { x: bounds.x, y: bounds.y + bounds.height },
+      ];
+      initializeSurfaces([{ id: 'back-wall', label: 'back-wall', confidence: 0.5, mask, polygon }], img);
+      setCalibration(estimateCalibration([], [{ id: 'back-wall', label: 'back-wall', mask }]));
       setSegmentationResult({
+        mask,
         confidence: 0.5,
-        bounds: {
-          x: 50,
-          y: 100,
-          width: ((img.width || 0) * (img.scaleX || 1)) - 100,
-          height: ((img.height || 0) * (img.scaleY || 1)) - 200,
-        }
+        bounds,
       });
 
       setAiStatus('Fallback detection complete');
@@ -279,77 +1102,6 @@ function CanvasEditorContent({
     }
   };
 
-  const applyDesignToWall = async () => {
-    if (!canvas || !wallMask || !selectedDesign) return;
-
-    try {
-      // Remove previous design
-      const objects = canvas.getObjects();
-      objects.forEach(obj => {
-        if ((obj as any).isDesign) {
-          canvas.remove(obj);
-        }
-      });
-
-      // Create pattern from design
-      const patternImg: fabric.Image = await new Promise((resolve, reject) => {
-        fabric.Image.fromURL(selectedDesign.url, {
-          crossOrigin: 'anonymous'
-
-        }, (image: fabric.Image | null) => {
-          if (image) resolve(image);
-          else reject(new Error('Failed to load design image'));
-        });
-      });
-
-      const pattern = new fabric.Pattern({
-        source: patternImg.getElement(),
-        repeat: 'repeat',
-      });
-
-      // Apply pattern to wall area
-      const designRect = new fabric.Rect({
-        left: wallMask.left,
-        top: wallMask.top,
-        width: wallMask.width,
-        height: wallMask.height,
-        fill: pattern,
-        opacity: 0.9,
-        selectable: true,
-        evented: true,
-      });
-
-      (designRect as any).isDesign = true;
-
-      if (canvas.getContext && canvas.getContext()) {
-        canvas.add(designRect);
-        canvas.renderAll();
-      }
-
-      // Animate the application
-      designRect.set('opacity', 0);
-      canvas.renderAll();
-
-      // Fade in animation
-      const animate = () => {
-        const currentOpacity = designRect.opacity!;
-        if (currentOpacity < 0.9) {
-          designRect.set('opacity', Math.min(currentOpacity + 0.1, 0.9));
-          canvas.renderAll();
-          requestAnimationFrame(animate);
-        } else {
-          designRect.set('opacity', 0.9);
-          canvas.renderAll();
-        }
-      };
-      animate();
-
-    } catch (error) {
-      console.error('Error applying design:', error);
-      setError('Failed to apply design to wall');
-    }
-  };
-
   return (
     <div className="relative h-full flex items-center justify-center p-6">
       {error && (
@@ -401,23 +1153,169 @@ function CanvasEditorContent({
         </div>
       )}
 
+      {/* Surfaces and foreground objects */}
+      {baseImage && surfaces.length > 0 && (
+        <div className="absolute bottom-4 right-4 z-10 space-y-2">
+          {pickedColor && (
+            <PaintMatchPanel
+              color={pickedColor}
+              matches={findNearestPaints(pickedColor)}
+              onClose={() => setPickedColor(null)}
+            />
+          )}
+          {calibration && (
+            <ScalePanel
+              calibration={calibration}
+              units={units}
+              onUnitsChange={onUnitsChange}
+              surface={activeWallSize}
+              measurement={referenceLine
+                ? measureLine(referenceLine.start, referenceLine.end, calibration, getLineSurface(referenceLine)?.plane ?? null)
+                : null}
+              onCalibrate={calibrateScale}
+              disabled={isSegmenting}
+            />
+          )}
+          {activeSurface?.design?.category === 'paint' && (
+            <FinishSelector
+              finish={activeSurface.design.finish ?? DEFAULT_PAINT_FINISH}
+              onChange={(finish) => setSurfaceDesign(activeSurface, { ...activeSurface.design, finish })}
+              disabled={isSegmenting}
+            />
+          )}
+          {openings.length > 0 && (
+            <OpeningPanel
+              openings={openings.map(opening => ({
+                id: opening.id,
+                name: opening.name,
+                type: opening.type,
+                enabled: opening.enabled,
+              }))}
+              onToggle={toggleOpening}
+              disabled={isSegmenting}
+            />
+          )}
+          <ForegroundPanel
+            objects={occluders.map(occluder => ({
+              id: occluder.id,
+              name: occluder.name,
+              confidence: occluder.confidence,
+              enabled: occluder.enabled,
+              removable: occluder.source === 'user',
+            }))}
+            selectedId={selectedOccluderId}
+            onSelect={setSelectedOccluderId}
+            onToggle={toggleOccluder}
+            onRemove={removeOccluder}
+            disabled={isSegmenting}
+          />
+          <SurfacePanel
+            surfaces={surfaces.map(surface => ({
+              id: surface.id,
+              name: SURFACE_NAMES[surface.label],
+              confidence: surface.confidence,
+              designName: surface.design?.name,
+            }))}
+            activeSurfaceId={activeSurfaceId}
+            onSurfaceSelect={setActiveSurfaceId}
+            onApplyDesign={(id) => {
+              const surface = surfaces.find(s => s.id === id);
+              if (surface && selectedDesign) setSurfaceDesign(surface, selectedDesign);
+            }}
+            onClearDesign={(id) => {
+              const surface = surfaces.find(s => s.id === id);
+              if (surface) setSurfaceDesign(surface, null);
+            }}
+            canApplyDesign={!!selectedDesign}
+            disabled={isSegmenting}
+          />
+        </div>
+      )}
+
+      {/* Mask Editing Tools */}
+      {baseImage && hasSurfaces && (
+        <div className="absolute bottom-4 left-4 z-10">
+          <MaskToolsPanel
+            mode={editMode}
+            onModeChange={setEditMode}
+            tolerance={wandTolerance}
+            onToleranceChange={setWandTolerance}
+            brush={brush}
+            onBrushChange={setBrush}
+            hasSurface={!!activeSurface}
+            disabled={isSegmenting}
+          />
+        </div>
+      )}
+
       {/* AI Status Indicator */}
       {segmentationResult && (
-        <div
-          className="absolute top-4 left-4 bg-green-50 border border-green-200 rounded-lg px-3 py-2"
-        >
-          <div className="flex items-center space-x-2">
-            <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-            <span className="text-sm font-medium text-green-800">
-              {aiModelsLoaded ? 'AI Ready' : 'Fallback Ready'} ({(segmentationResult.confidence * 100).toFixed(0)}% confidence)
-            </span>
+        <div className="absolute top-4 left-4 z-10 space-y-2">
+          <div className="bg-green-50 border border-green-200 rounded-lg px-3 py-2">
+            <div className="flex items-center space-x-2">
+              <div className="w-2 h-2 bg-green-500 rounded-full"></div>
+              <span className="text-sm font-medium text-green-800">
+                {aiModelsLoaded ? 'AI Ready' : 'Fallback Ready'} ({(segmentationResult.confidence * 100).toFixed(0)}% confidence)
+              </span>
+            </div>
+            {colorPalette?.dominantColor && (
+              <div className="flex items-center space-x-1 mt-2" title="Room colors">
+                {colorPalette.colors.map((color, index) => (
+                  <button
+                    key={`${color}-${index}`}
+                    className="w-4 h-4 rounded border border-white shadow-sm"
+                    style={{ backgroundColor: color }}
+                    title={`${color} (${Math.round(colorPalette.shares[index] * 100)}%) - find matching paints`}
+                    onClick={() => setPickedColor(color)}
+                  />
+                ))}
+                <button
+                  className="pl-1 text-xs font-medium text-green-800 hover:underline"
+                  onClick={() => setShowHarmony(show => !show)}
+                >
+                  {showHarmony ? 'Hide harmony' : 'Harmony'}
+                </button>
+              </div>
+            )}
           </div>
+
+          {/* Harmonies around the picked color, or the room's dominant color */}
+          {colorPalette?.dominantColor && showHarmony && (
+            <HarmonyWheel
+              baseColor={pickedColor ?? colorPalette.dominantColor}
+              onApply={(color) => activeSurface && setSurfaceDesign(activeSurface, createPaintDesign(color, undefined, activeSurface.design?.finish))}
+              canApply={!!activeSurface}
+              disabled={isSegmenting}
+            />
+          )}
         </div>
       )}
     </div>
   );
 }
 
+// Whether a region's mask covers a source-image point
+function maskCovers(region: Pick<MaskRegion, 'bounds' | 'mask'>, point: Point2D): boolean {
+  const col = Math.floor(point.x - region.bounds.x);
+  const row = Math.floor(point.y - region.bounds.y);
+  if (col < 0 || row < 0 || col >= region.bounds.width || row >= region.bounds.height) return false;
+  return region.mask.data[(row * region.bounds.width + col) * 4 + 3] > 0;
+}
+
+// Name detected objects by kind, numbering repeats ("Sofa", "Frame 1", "Frame 2"); labels from other
+// detection models are shown as they are
+function nameDetectedObjects(objects: DetectedObject[]): Array<{ object: DetectedObject; name: string }> {
+  const totals: Record<string, number> = {};
+  objects.forEach(object => (totals[object.label] = (totals[object.label] ?? 0) + 1));
+
+  const counts: Record<string, number> = {};
+  return objects.map(object => {
+    counts[object.label] = (counts[object.label] ?? 0) + 1;
+    const kind = OBJECT_NAMES[object.label as ObjectLabel] ?? object.label;
+    return { object, name: totals[object.label] > 1 ? `${kind} ${counts[object.label]}` : kind };
+  });
+}
+
 // Export the component wrapped with ClientOnly
 export function CanvasEditor(props: CanvasEditorProps) {
   return (
@@ -1,10 +1,13 @@
 'use client';
 
-import { useState } from 'react';
-import { Search, Palette, Wallpaper, Paintbrush, Layers, Loader2 } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Search, Palette, Wallpaper, Paintbrush, Layers, Loader2, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { createSwatchDesign, DEFAULT_SWATCH_WIDTH } from '@/hooks/useDesigns';
+import { PAINT_FINISH_NAMES, type PaintFinish } from '@/lib/recolor';
+import { formatLength, fromUnit, toUnit, type LengthUnit, type PhysicalSize } from '@/lib/scale-calibration';
 import { cn } from '@/lib/utils';
 import { motion } from 'framer-motion'
 
@@ -14,12 +17,16 @@ interface Design {
   category: 'pvc' | 'wallpaper' | 'paint' | 'texture';
   url: string;
   color?: string;
+  finish?: PaintFinish;
   preview: string;
+  tile?: string;
+  tileSize?: PhysicalSize;
 }
 
 interface DesignPaletteProps {
   onDesignSelect: (design: Design) => void;
   selectedDesign: Design | null;
+  units: LengthUnit;
 }
 
 const designs: Design[] = [
@@ -29,6 +36,7 @@ const designs: Design[] = [
     name: 'Oak Wood Grain',
     category: 'pvc',
     url: 'https://images.pexels.com/photos/129731/pexels-photo-129731.jpeg',
+    tileSize: { width: 120, height: 80 },
     preview: 'https://images.pexels.com/photos/129731/pexels-photo-129731.jpeg?w=100&h=100&fit=crop',
   },
   {
@@ -36,6 +44,7 @@ const designs: Design[] = [
     name: 'White Marble',
     category: 'pvc',
     url: 'https://images.pexels.com/photos/1939485/pexels-photo-1939485.jpeg',
+    tileSize: { width: 120, height: 80 },
     preview: 'https://images.pexels.com/photos/1939485/pexels-photo-1939485.jpeg?w=100&h=100&fit=crop',
   },
   {
@@ -43,6 +52,7 @@ const designs: Design[] = [
     name: 'Modern Brick',
     category: 'pvc',
     url: 'https://images.pexels.com/photos/2219024/pexels-photo-2219024.jpeg',
+    tileSize: { width: 90, height: 60 },
     preview: 'https://images.pexels.com/photos/2219024/pexels-photo-2219024.jpeg?w=100&h=100&fit=crop',
   },
   
@@ -52,6 +62,7 @@ const designs: Design[] = [
     name: 'Geometric Pattern',
     category: 'wallpaper',
     url: 'https://images.pexels.com/photos/1034584/pexels-photo-1034584.jpeg',
+    tileSize: { width: 78, height: 52 },
     preview: 'https://images.pexels.com/photos/1034584/pexels-photo-1034584.jpeg?w=100&h=100&fit=crop',
   },
   {
@@ -59,6 +70,7 @@ const designs: Design[] = [
     name: 'Vintage Floral',
     category: 'wallpaper',
     url: 'https://images.pexels.com/photos/1571460/pexels-photo-1571460.jpeg',
+    tileSize: { width: 96, height: 64 },
     preview: 'https://images.pexels.com/photos/1571460/pexels-photo-1571460.jpeg?w=100&h=100&fit=crop',
   },
   {
@@ -66,6 +78,7 @@ const designs: Design[] = [
     name: 'Abstract Blue',
     category: 'wallpaper',
     url: 'https://images.pexels.com/photos/1323712/pexels-photo-1323712.jpeg',
+    tileSize: { width: 105, height: 70 },
     preview: 'https://images.pexels.com/photos/1323712/pexels-photo-1323712.jpeg?w=100&h=100&fit=crop',
   },
 
@@ -75,6 +88,7 @@ const designs: Design[] = [
     name: 'Deep Navy',
     category: 'paint',
     color: '#1e3a8a',
+    finish: 'eggshell',
     url: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%231e3a8a"/></svg>',
     preview: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%231e3a8a"/></svg>',
   },
@@ -83,6 +97,7 @@ const designs: Design[] = [
     name: 'Sage Green',
     category: 'paint',
     color: '#84cc16',
+    finish: 'matte',
     url: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%2384cc16"/></svg>',
     preview: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%2384cc16"/></svg>',
   },
@@ -91,18 +106,41 @@ const designs: Design[] = [
     name: 'Terracotta',
     category: 'paint',
     color: '#ea580c',
+    finish: 'satin',
     url: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%23ea580c"/></svg>',
     preview: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%23ea580c"/></svg>',
   },
 ];
 
-export function DesignPalette({ onDesignSelect, selectedDesign }: DesignPaletteProps) {
+export function DesignPalette({ onDesignSelect, selectedDesign, units }: DesignPaletteProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTab, setActiveTab] = useState('pvc');
   // Fix: add isSegmenting state for demo purposes (default: false)
   const [isSegmenting, setIsSegmenting] = useState(false);
+  const [uploadedDesigns, setUploadedDesigns] = useState<Design[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [swatchWidth, setSwatchWidth] = useState(DEFAULT_SWATCH_WIDTH); // cm
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const filteredDesigns = designs.filter(design => 
+  // Add an uploaded swatch to the current tab, with a seamless tile prepared from it, sized from the
+  // swatch's real width
+  const handleSwatchUpload = async (file: File) => {
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const design = await createSwatchDesign(file, activeTab === 'pvc' ? 'pvc' : 'wallpaper', swatchWidth);
+      setUploadedDesigns(prev => [...prev, design]);
+      onDesignSelect(design);
+    } catch (error) {
+      console.error('Swatch upload error:', error);
+      setUploadError(error instanceof Error ? error.message : 'Failed to prepare the swatch');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const filteredDesigns = [...designs, ...uploadedDesigns].filter(design => 
     design.category === activeTab &&
     design.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -130,6 +168,50 @@ export function DesignPalette({ onDesignSelect, selectedDesign }: DesignPaletteP
             className="pl-10 bg-gray-50 border-0 focus:bg-white transition-colors"
           />
         </div>
+
+        {/* Swatch upload for pattern tabs */}
+        {activeTab !== 'paint' && (
+          <div className="mt-3 space-y-1">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleSwatchUpload(file);
+                e.target.value = '';
+              }}
+            />
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="flex-1"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isUploading}
+              >
+                {isUploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+                {isUploading ? 'Preparing tile...' : 'Upload swatch'}
+              </Button>
+              <Input
+                type="number"
+                min={1}
+                step="any"
+                aria-label={`Swatch width (${units})`}
+                title={`Real width of the swatch photo (${units})`}
+                value={Number(toUnit(swatchWidth, units).toFixed(1))}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) setSwatchWidth(fromUnit(value, units));
+                }}
+                className="w-20 h-9"
+              />
+              <span className="text-xs text-gray-500">{units}</span>
+            </div>
+            {uploadError && <p className="text-xs text-red-600">{uploadError}</p>}
+          </div>
+        )}
       </div>
 
       {/* Tabs */}
@@ -184,6 +266,14 @@ export function DesignPalette({ onDesignSelect, selectedDesign }: DesignPaletteP
                     <h3 className="font-medium text-gray-900 text-sm truncate">
                       {design.name}
                     </h3>
+                    {design.finish && (
+                      <p className="text-xs text-gray-500">{PAINT_FINISH_NAMES[design.finish]}</p>
+                    )}
+                    {design.tileSize && (
+                      <p className="text-xs text-gray-500">
+                        {formatLength(design.tileSize.width, units)} × {formatLength(design.tileSize.height, units)}
+                      </p>
+                    )}
                   </div>
                 </motion.div>
               ))}
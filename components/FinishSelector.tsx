@@ -0,0 +1,38 @@
+'use client';
+
+import { Sparkles } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { PAINT_FINISHES, PAINT_FINISH_NAMES, type PaintFinish } from '@/lib/recolor';
+
+interface FinishSelectorProps {
+  finish: PaintFinish;
+  onChange: (finish: PaintFinish) => void;
+  disabled?: boolean;
+}
+
+export function FinishSelector({ finish, onChange, disabled }: FinishSelectorProps) {
+  return (
+    <div className="bg-white/95 border border-gray-200 rounded-xl shadow-lg p-3 space-y-2 w-60">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+        <Sparkles className="w-4 h-4 text-blue-600" />
+        <span>Paint finish</span>
+      </div>
+      <ToggleGroup
+        type="single"
+        size="sm"
+        variant="outline"
+        value={finish}
+        // Radix clears the value when the active item is pressed again; keep the current finish
+        onValueChange={(value) => value && onChange(value as PaintFinish)}
+        disabled={disabled}
+        className="grid grid-cols-4 gap-1"
+      >
+        {PAINT_FINISHES.map((option) => (
+          <ToggleGroupItem key={option} value={option} className="text-xs px-1">
+            {PAINT_FINISH_NAMES[option]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { Sofa, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+
+export interface ForegroundSummary {
+  id: string;
+  name: string;
+  confidence?: number; // detected objects only
+  enabled: boolean;
+  removable: boolean;
+}
+
+interface ForegroundPanelProps {
+  objects: ForegroundSummary[];
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  onToggle: (id: string, enabled: boolean) => void;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+export function ForegroundPanel({ objects, selectedId, onSelect, onToggle, onRemove, disabled }: ForegroundPanelProps) {
+  return (
+    <div className="bg-white/95 border border-gray-200 rounded-xl shadow-lg p-3 space-y-2 w-60">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+        <Sofa className="w-4 h-4 text-blue-600" />
+        <span>Foreground objects</span>
+      </div>
+
+      {objects.length === 0 ? (
+        <p className="text-xs text-gray-500">
+          None detected. Use the foreground tool to outline furniture in front of the wall.
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-40 overflow-auto">
+          {objects.map((object) => (
+            <div
+              key={object.id}
+              className={cn(
+                'flex items-center justify-between rounded-lg px-2 py-1 cursor-pointer transition-colors',
+                object.id === selectedId ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-gray-50'
+              )}
+              onClick={() => !disabled && onSelect(object.id === selectedId ? null : object.id)}
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-gray-900 truncate">{object.name}</p>
+                {object.confidence !== undefined && (
+                  <p className="text-xs text-gray-500">{(object.confidence * 100).toFixed(0)}%</p>
+                )}
+              </div>
+              <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+                {object.removable && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Remove"
+                    disabled={disabled}
+                    onClick={() => onRemove(object.id)}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </Button>
+                )}
+                <Switch
+                  checked={object.enabled}
+                  onCheckedChange={(enabled) => onToggle(object.id, enabled)}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
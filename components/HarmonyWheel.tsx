@@ -0,0 +1,130 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Palette, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { getHue, getSchemeColors, HARMONY_SCHEME_NAMES, type HarmonyScheme } from '@/lib/color-harmony';
+
+interface HarmonyWheelProps {
+  baseColor: string; // hex key color before rotation
+  onApply: (color: string) => void;
+  canApply: boolean; // whether a wall is selected to paint
+  disabled?: boolean;
+}
+
+const WHEEL_SIZE = 132;
+const MARKER_RADIUS = WHEEL_SIZE / 2 - 12;
+const HUE_RING = 'conic-gradient(hsl(0 75% 55%), hsl(60 75% 55%), hsl(120 75% 55%), hsl(180 75% 55%), hsl(240 75% 55%), hsl(300 75% 55%), hsl(360 75% 55%))';
+
+export function HarmonyWheel({ baseColor, onApply, canApply, disabled }: HarmonyWheelProps) {
+  const [scheme, setScheme] = useState<HarmonyScheme>('complementary');
+  const [rotation, setRotation] = useState(0);
+  const wheelRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef(false);
+
+  const colors = getSchemeColors(baseColor, scheme, rotation);
+  const baseHue = getHue(baseColor);
+
+  // Rotate the scheme so its key color sits under the pointer
+  const rotateToPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    const rect = wheelRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const angle = (Math.atan2(event.clientX - rect.left - rect.width / 2, rect.top + rect.height / 2 - event.clientY) * 180) / Math.PI;
+    setRotation(Math.round(((((angle - baseHue) % 360) + 540) % 360) - 180));
+  };
+
+  return (
+    <div className="bg-white/95 border border-gray-200 rounded-xl shadow-lg p-3 space-y-3 w-60">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+          <Palette className="w-4 h-4 text-blue-600" />
+          <span>Color harmony</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => setRotation(0)}
+          disabled={disabled || rotation === 0}
+          title="Reset rotation"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <Select value={scheme} onValueChange={(value) => setScheme(value as HarmonyScheme)} disabled={disabled}>
+        <SelectTrigger className="h-8 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(HARMONY_SCHEME_NAMES) as HarmonyScheme[]).map((key) => (
+            <SelectItem key={key} value={key}>{HARMONY_SCHEME_NAMES[key]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {/* Hue wheel: drag to rotate the scheme; markers show each color's hue */}
+      <div
+        ref={wheelRef}
+        className="relative mx-auto rounded-full touch-none cursor-grab"
+        style={{ width: WHEEL_SIZE, height: WHEEL_SIZE, background: HUE_RING }}
+        onPointerDown={(event) => {
+          if (disabled) return;
+          draggingRef.current = true;
+          event.currentTarget.setPointerCapture(event.pointerId);
+          rotateToPointer(event);
+        }}
+        onPointerMove={(event) => draggingRef.current && rotateToPointer(event)}
+        onPointerUp={() => (draggingRef.current = false)}
+        onPointerCancel={() => (draggingRef.current = false)}
+      >
+        <div className="absolute inset-6 rounded-full bg-white/90" />
+        {colors.map((color, index) => {
+          const angle = (getHue(color) * Math.PI) / 180;
+          return (
+            <div
+              key={`${color}-${index}`}
+              className={`absolute rounded-full border-2 border-white shadow ${index === 0 ? 'w-5 h-5' : 'w-3.5 h-3.5'}`}
+              style={{
+                backgroundColor: color,
+                left: WHEEL_SIZE / 2 + MARKER_RADIUS * Math.sin(angle),
+                top: WHEEL_SIZE / 2 - MARKER_RADIUS * Math.cos(angle),
+                transform: 'translate(-50%, -50%)',
+              }}
+            />
+          );
+        })}
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <span>Rotation</span>
+          <span>{rotation}°</span>
+        </div>
+        <Slider
+          min={-180}
+          max={180}
+          step={1}
+          value={[rotation]}
+          onValueChange={([value]) => setRotation(value)}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {colors.map((color, index) => (
+          <button
+            key={`${color}-${index}`}
+            className="w-7 h-7 rounded border border-gray-200 shadow-sm disabled:opacity-50"
+            style={{ backgroundColor: color }}
+            onClick={() => onApply(color)}
+            disabled={disabled || !canApply}
+            title={canApply ? `Paint the selected wall ${color}` : color}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
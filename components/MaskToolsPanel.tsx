@@ -0,0 +1,175 @@
+'use client';
+
+import { Brush, Eraser, Grid3x3, MousePointer2, PenTool, Pentagon, Pipette, Ruler, Sofa, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+
+export type MaskEditMode = 'none' | 'wand' | 'polygon' | 'draw' | 'brush' | 'erase' | 'occluder' | 'perspective' | 'pick' | 'measure';
+
+export interface BrushSettings {
+  size: number; // diameter in canvas pixels
+  hardness: number; // 0-100
+  snapToEdges: boolean;
+}
+
+interface MaskToolsPanelProps {
+  mode: MaskEditMode;
+  onModeChange: (mode: MaskEditMode) => void;
+  tolerance: number;
+  onToleranceChange: (tolerance: number) => void;
+  brush: BrushSettings;
+  onBrushChange: (brush: BrushSettings) => void;
+  hasSurface: boolean; // whether a surface is active; the tools that edit it need one
+  disabled?: boolean;
+}
+
+export function MaskToolsPanel({
+  mode,
+  onModeChange,
+  tolerance,
+  onToleranceChange,
+  brush,
+  onBrushChange,
+  hasSurface,
+  disabled,
+}: MaskToolsPanelProps) {
+  const tools = [
+    { mode: 'none' as const, icon: MousePointer2, label: 'Select' },
+    { mode: 'wand' as const, icon: Wand2, label: 'Magic Wand', editsSurface: true },
+    { mode: 'polygon' as const, icon: Pentagon, label: 'Edit Polygon', editsSurface: true },
+    { mode: 'draw' as const, icon: PenTool, label: 'Draw Polygon', editsSurface: true },
+    { mode: 'brush' as const, icon: Brush, label: 'Brush', editsSurface: true },
+    { mode: 'erase' as const, icon: Eraser, label: 'Eraser', editsSurface: true },
+    { mode: 'occluder' as const, icon: Sofa, label: 'Mark Foreground Object' },
+    { mode: 'perspective' as const, icon: Grid3x3, label: 'Adjust Perspective', editsSurface: true },
+    { mode: 'pick' as const, icon: Pipette, label: 'Match Paint Color' },
+    { mode: 'measure' as const, icon: Ruler, label: 'Measure / Set Scale' },
+  ];
+
+  return (
+    <div className="bg-white/95 border border-gray-200 rounded-xl shadow-lg p-3 space-y-3 w-56">
+      <TooltipProvider>
+        <div className="flex flex-wrap items-center gap-1">
+          {tools.map((tool) => {
+            const Icon = tool.icon;
+            return (
+              <Tooltip key={tool.mode}>
+                <TooltipTrigger asChild>
+                  <Button
+                    variant={mode === tool.mode ? 'default' : 'ghost'}
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={disabled || (tool.editsSurface && !hasSurface)}
+                    onClick={() => onModeChange(tool.mode)}
+                  >
+                    <Icon className="w-4 h-4" />
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{tool.label}</p>
+                </TooltipContent>
+              </Tooltip>
+            );
+          })}
+        </div>
+      </TooltipProvider>
+
+      {mode === 'wand' && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>Tolerance</span>
+            <span>{tolerance}</span>
+          </div>
+          <Slider
+            min={1}
+            max={100}
+            step={1}
+            value={[tolerance]}
+            onValueChange={([value]) => onToleranceChange(value)}
+            disabled={disabled}
+          />
+          <p className="text-xs text-gray-500">
+            Click to select a wall. Shift-click adds, Alt-click subtracts.
+          </p>
+        </div>
+      )}
+
+      {mode === 'polygon' && (
+        <p className="text-xs text-gray-500">
+          Drag corners to reshape. Double-click an edge to add a corner, or a corner to delete it.
+        </p>
+      )}
+
+      {(mode === 'brush' || mode === 'erase') && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>Size</span>
+            <span>{brush.size}px</span>
+          </div>
+          <Slider
+            min={2}
+            max={150}
+            step={1}
+            value={[brush.size]}
+            onValueChange={([size]) => onBrushChange({ ...brush, size })}
+            disabled={disabled}
+          />
+          <div className="flex items-center justify-between text-xs text-gray-600">
+            <span>Hardness</span>
+            <span>{brush.hardness}%</span>
+          </div>
+          <Slider
+            min={0}
+            max={100}
+            step={1}
+            value={[brush.hardness]}
+            onValueChange={([hardness]) => onBrushChange({ ...brush, hardness })}
+            disabled={disabled}
+          />
+          <div className="flex items-center justify-between">
+            <Label htmlFor="snap-to-edges" className="text-xs text-gray-600">Snap to edges</Label>
+            <Switch
+              id="snap-to-edges"
+              checked={brush.snapToEdges}
+              onCheckedChange={(snapToEdges) => onBrushChange({ ...brush, snapToEdges })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+
+      {mode === 'occluder' && (
+        <p className="text-xs text-gray-500">
+          Outline furniture in front of the wall. Click the first corner or double-click to close.
+        </p>
+      )}
+
+      {mode === 'perspective' && (
+        <p className="text-xs text-gray-500">
+          Drag the corners onto lines that are parallel on the real wall, such as its edges. Patterns follow the adjusted grid.
+        </p>
+      )}
+
+      {mode === 'pick' && (
+        <p className="text-xs text-gray-500">
+          Click the photo to find the nearest catalog paints to that color.
+        </p>
+      )}
+
+      {mode === 'measure' && (
+        <p className="text-xs text-gray-500">
+          Drag along something of known size on a wall, such as a door, then enter its real length to set the scale.
+        </p>
+      )}
+
+      {mode === 'draw' && (
+        <p className="text-xs text-gray-500">
+          Click to place corners. Click the first corner or double-click to close the outline.
+        </p>
+      )}
+    </div>
+  );
+}
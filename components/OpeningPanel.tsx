@@ -0,0 +1,55 @@
+'use client';
+
+import { AppWindow, DoorOpen, Frame } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import type { OpeningType } from '@/lib/opening-detection';
+
+export interface OpeningSummary {
+  id: string;
+  name: string;
+  type: OpeningType;
+  enabled: boolean; // kept free of designs
+}
+
+interface OpeningPanelProps {
+  openings: OpeningSummary[];
+  onToggle: (id: string, enabled: boolean) => void;
+  disabled?: boolean;
+}
+
+const OPENING_ICONS = {
+  window: AppWindow,
+  door: DoorOpen,
+  opening: Frame,
+};
+
+export function OpeningPanel({ openings, onToggle, disabled }: OpeningPanelProps) {
+  return (
+    <div className="bg-white/95 border border-gray-200 rounded-xl shadow-lg p-3 space-y-2 w-60">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+        <DoorOpen className="w-4 h-4 text-blue-600" />
+        <span>Windows and doors</span>
+      </div>
+
+      <div className="space-y-1 max-h-40 overflow-auto">
+        {openings.map((opening) => {
+          const Icon = OPENING_ICONS[opening.type];
+          return (
+            <div key={opening.id} className="flex items-center justify-between px-2 py-1">
+              <div className="flex items-center space-x-2 min-w-0">
+                <Icon className="w-3.5 h-3.5 text-gray-500 flex-shrink-0" />
+                <span className="text-sm text-gray-900 truncate">{opening.name}</span>
+              </div>
+              <Switch
+                checked={opening.enabled}
+                onCheckedChange={(enabled) => onToggle(opening.id, enabled)}
+                disabled={disabled}
+                title={opening.enabled ? 'Kept free of designs' : 'Covered by designs'}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
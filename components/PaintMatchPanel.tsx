@@ -0,0 +1,49 @@
+'use client';
+
+import { PaintBucket, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { PaintMatch } from '@/lib/paint-catalog';
+
+interface PaintMatchPanelProps {
+  color: string; // hex color the paints were matched to
+  matches: PaintMatch[];
+  onClose: () => void;
+}
+
+export function PaintMatchPanel({ color, matches, onClose }: PaintMatchPanelProps) {
+  return (
+    <div className="bg-white/95 border border-gray-200 rounded-xl shadow-lg p-3 space-y-2 w-60">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+          <PaintBucket className="w-4 h-4 text-blue-600" />
+          <span>Nearest paints</span>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose} title="Close">
+          <X className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+
+      <div className="flex items-center space-x-2 px-2">
+        <div className="w-5 h-5 rounded border border-gray-200" style={{ backgroundColor: color }} />
+        <span className="text-xs font-mono text-gray-600">{color}</span>
+      </div>
+
+      <div className="space-y-1">
+        {matches.map(({ paint, deltaE }) => (
+          <div key={`${paint.catalogId}-${paint.code}`} className="flex items-center space-x-2 px-2 py-1">
+            <div className="w-8 h-8 rounded border border-gray-200 flex-shrink-0" style={{ backgroundColor: paint.hex }} />
+            <div className="min-w-0 flex-1">
+              <p className="text-sm text-gray-900 truncate">{paint.name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {paint.brand} {paint.code} · LRV {paint.lrv}
+              </p>
+            </div>
+            <span className="text-xs text-gray-500" title="CIEDE2000 difference">
+              ΔE {deltaE.toFixed(1)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  CALIBRATION_SOURCE_NAMES,
+  formatLength,
+  fromUnit,
+  type LengthUnit,
+  type PhysicalSize,
+  type ScaleCalibration,
+} from '@/lib/scale-calibration';
+
+interface ScalePanelProps {
+  calibration: ScaleCalibration;
+  units: LengthUnit;
+  onUnitsChange: (units: LengthUnit) => void;
+  surface: { name: string; size: PhysicalSize } | null; // active surface
+  measurement: number | null; // length of the drawn reference line, cm
+  onCalibrate: (length: number) => void; // real length of the reference line, cm
+  disabled?: boolean;
+}
+
+export function ScalePanel({ calibration, units, onUnitsChange, surface, measurement, onCalibrate, disabled }: ScalePanelProps) {
+  const [length, setLength] = useState('');
+  const value = parseFloat(length);
+
+  return (
+    <div className="bg-white/95 border border-gray-200 rounded-xl shadow-lg p-3 space-y-2 w-60">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+          <Ruler className="w-4 h-4 text-blue-600" />
+          <span>Scale</span>
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={units}
+          // Radix clears the value when the active item is pressed again; keep the current units
+          onValueChange={(next) => next && onUnitsChange(next as LengthUnit)}
+        >
+          <ToggleGroupItem value="cm" className="text-xs px-2">cm</ToggleGroupItem>
+          <ToggleGroupItem value="in" className="text-xs px-2">in</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Walls {formatLength(calibration.wallHeight, units)} high, from {CALIBRATION_SOURCE_NAMES[calibration.source]}
+      </p>
+      {surface && (
+        <p className="text-xs text-gray-700">
+          {surface.name}: {formatLength(surface.size.width, units)} × {formatLength(surface.size.height, units)}
+        </p>
+      )}
+
+      {measurement !== null && (
+        <div className="space-y-1 border-t border-gray-100 pt-2">
+          <p className="text-xs text-gray-700">Line: {formatLength(measurement, units)}</p>
+          <div className="flex items-center space-x-2">
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              placeholder={`Real length (${units})`}
+              value={length}
+              onChange={(e) => setLength(e.target.value)}
+              className="h-8 text-xs"
+              disabled={disabled}
+            />
+            <Button
+              size="sm"
+              className="h-8"
+              onClick={() => onCalibrate(fromUnit(value, units))}
+              disabled={disabled || !(value > 0)}
+            >
+              Set
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { Layers, Paintbrush, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+export interface SurfaceSummary {
+  id: string;
+  name: string;
+  confidence: number;
+  designName?: string;
+}
+
+interface SurfacePanelProps {
+  surfaces: SurfaceSummary[];
+  activeSurfaceId: string | null;
+  onSurfaceSelect: (surfaceId: string) => void;
+  onApplyDesign: (surfaceId: string) => void;
+  onClearDesign: (surfaceId: string) => void;
+  canApplyDesign: boolean;
+  disabled?: boolean;
+}
+
+export function SurfacePanel({
+  surfaces,
+  activeSurfaceId,
+  onSurfaceSelect,
+  onApplyDesign,
+  onClearDesign,
+  canApplyDesign,
+  disabled,
+}: SurfacePanelProps) {
+  return (
+    <div className="bg-white/95 border border-gray-200 rounded-xl shadow-lg p-3 space-y-2 w-60">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+        <Layers className="w-4 h-4 text-blue-600" />
+        <span>Surfaces</span>
+      </div>
+
+      <div className="space-y-1">
+        {surfaces.map((surface) => (
+          <div
+            key={surface.id}
+            className={cn(
+              'flex items-center justify-between rounded-lg px-2 py-1.5 cursor-pointer transition-colors',
+              surface.id === activeSurfaceId ? 'bg-blue-50 ring-1 ring-blue-200' : 'hover:bg-gray-50'
+            )}
+            onClick={() => !disabled && onSurfaceSelect(surface.id)}
+          >
+            <div className="min-w-0">
+              <p className="text-sm text-gray-900 truncate">{surface.name}</p>
+              <p className="text-xs text-gray-500 truncate">
+                {surface.designName ?? 'No design'} · {(surface.confidence * 100).toFixed(0)}%
+              </p>
+            </div>
+
+            {surface.id === activeSurfaceId && (
+              <div className="flex items-center space-x-1">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Apply selected design"
+                  disabled={disabled || !canApplyDesign}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onApplyDesign(surface.id);
+                  }}
+                >
+                  <Paintbrush className="w-3.5 h-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Remove design"
+                  disabled={disabled || !surface.designName}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onClearDesign(surface.id);
+                  }}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
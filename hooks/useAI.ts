@@ -1,13 +1,11 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { 
-  processWallSegmentation, 
   applyStyleTransfer, 
-  estimateDepth, 
-  extractColorPalette, 
-  detectObjects,
   initializeAIModels,
   getModelStatus
 } from '@/lib/ai-models';
+import { isAnalysisCancelled, runAnalysis } from '@/lib/analysis-pool';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
 
 export interface AIProcessingState {
   isProcessing: boolean;
@@ -41,6 +39,23 @@ export function useAI() {
   });
 
   const [modelStatus, setModelStatus] = useState(getModelStatus());
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Signal shared by every analysis started since the last cancel
+  const getSignal = useCallback(() => {
+    if (!abortRef.current) {
+      abortRef.current = new AbortController();
+    }
+    return abortRef.current.signal;
+  }, []);
+
+  // Worker progress updates
+  const reportProgress = useCallback((progress: number, stage: string) => {
+    setState(prev => ({ ...prev, progress: Math.round(progress), currentOperation: stage }));
+  }, []);
+
+  // Stop analyses still running when the component unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Initialize AI models
   const initializeModels = useCallback(async () => {
@@ -76,9 +91,10 @@ export function useAI() {
 
     try {
       setState(prev => ({ ...prev, progress: 25 }));
-      const result = await processWallSegmentation(imageUrl);
+      const result = await runAnalysis('segmentation', imageUrl, { onProgress: reportProgress, signal: getSignal() });
       
       setResults(prev => ({ ...prev, segmentation: result }));
+      setModelStatus(getModelStatus());
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
@@ -91,12 +107,12 @@ export function useAI() {
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
-        error: error instanceof Error ? error.message : 'Segmentation failed',
+        error: isAnalysisCancelled(error) ? null : error instanceof Error ? error.message : 'Segmentation failed',
         currentOperation: ''
       }));
       throw error;
     }
-  }, []);
+  }, [getSignal, reportProgress]);
 
   // Estimate depth
   const processDepthEstimation = useCallback(async (imageUrl: string) => {
@@ -110,9 +126,10 @@ export function useAI() {
 
     try {
       setState(prev => ({ ...prev, progress: 25 }));
-      const result = await estimateDepth(imageUrl);
+      const result = await runAnalysis('depth', imageUrl, { onProgress: reportProgress, signal: getSignal() });
       
       setResults(prev => ({ ...prev, depthEstimation: result }));
+      setModelStatus(getModelStatus());
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
@@ -125,12 +142,12 @@ export function useAI() {
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
-        error: error instanceof Error ? error.message : 'Depth estimation failed',
+        error: isAnalysisCancelled(error) ? null : error instanceof Error ? error.message : 'Depth estimation failed',
         currentOperation: ''
       }));
       throw error;
     }
-  }, []);
+  }, [getSignal, reportProgress]);
 
   // Extract color palette
   const processColorPalette = useCallback(async (imageUrl: string, colorCount: number = 5) => {
@@ -144,9 +161,14 @@ export function useAI() {
 
     try {
       setState(prev => ({ ...prev, progress: 25 }));
-      const result = await extractColorPalette(imageUrl, colorCount);
+      const result = await runAnalysis('palette', imageUrl, {
+        colorCount,
+        onProgress: reportProgress,
+        signal: getSignal(),
+      });
       
       setResults(prev => ({ ...prev, colorPalette: result }));
+      setModelStatus(getModelStatus());
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
@@ -159,12 +181,12 @@ export function useAI() {
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
-        error: error instanceof Error ? error.message : 'Color palette extraction failed',
+        error: isAnalysisCancelled(error) ? null : error instanceof Error ? error.message : 'Color palette extraction failed',
         currentOperation: ''
       }));
       throw error;
     }
-  }, []);
+  }, [getSignal, reportProgress]);
 
   // Detect objects
   const processObjectDetection = useCallback(async (imageUrl: string) => {
@@ -178,9 +200,10 @@ export function useAI() {
 
     try {
       setState(prev => ({ ...prev, progress: 25 }));
-      const result = await detectObjects(imageUrl);
+      const result = await runAnalysis('objects', imageUrl, { onProgress: reportProgress, signal: getSignal() });
       
       setResults(prev => ({ ...prev, objectDetection: result }));
+      setModelStatus(getModelStatus());
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
@@ -193,18 +216,18 @@ export function useAI() {
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
-        error: error instanceof Error ? error.message : 'Object detection failed',
+        error: isAnalysisCancelled(error) ? null : error instanceof Error ? error.message : 'Object detection failed',
         currentOperation: ''
       }));
       throw error;
     }
-  }, []);
+  }, [getSignal, reportProgress]);
 
   // Apply style transfer
   const processStyleTransfer = useCallback(async (
     originalImageUrl: string, 
     styleImageUrl: string, 
-    maskData?: ImageData
+    maskData?: PixelBuffer
   ) => {
     setState(prev => ({ 
       ...prev, 
@@ -254,16 +277,21 @@ export function useAI() {
         await initializeModels();
       }
 
-      // Run all analyses in parallel
+      // Run every analysis in one worker job, sharing the decoded image and its room layout
       setState(prev => ({ ...prev, currentOperation: 'Running AI analyses...', progress: 10 }));
-      
-      const [segmentation, depth, palette, objects] = await Promise.all([
-        processSegmentation(imageUrl),
-        processDepthEstimation(imageUrl),
-        processColorPalette(imageUrl),
-        processObjectDetection(imageUrl),
-      ]);
+      const { segmentation, objects, depth, palette } = await runAnalysis('room', imageUrl, {
+        onProgress: reportProgress,
+        signal: getSignal(),
+      });
 
+      setResults(prev => ({
+        ...prev,
+        segmentation,
+        depthEstimation: depth,
+        colorPalette: palette,
+        objectDetection: objects,
+      }));
+      setModelStatus(getModelStatus());
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
@@ -281,12 +309,12 @@ export function useAI() {
       setState(prev => ({ 
         ...prev, 
         isProcessing: false, 
-        error: error instanceof Error ? error.message : 'Analysis failed',
+        error: isAnalysisCancelled(error) ? null : error instanceof Error ? error.message : 'Analysis failed',
         currentOperation: ''
       }));
       throw error;
     }
-  }, [modelStatus.initialized, initializeModels, processSegmentation, processDepthEstimation, processColorPalette, processObjectDetection]);
+  }, [modelStatus.initialized, initializeModels, getSignal, reportProgress]);
 
   // Clear results
   const clearResults = useCallback(() => {
@@ -300,6 +328,13 @@ export function useAI() {
     setState(prev => ({ ...prev, error: null }));
   }, []);
 
+  // Cancel every running analysis; their promises reject with an AbortError
+  const cancelProcessing = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setState(prev => ({ ...prev, isProcessing: false, currentOperation: '', progress: 0 }));
+  }, []);
+
   // Clear error
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }));
@@ -322,6 +357,7 @@ export function useAI() {
     processObjectDetection,
     processStyleTransfer,
     analyzeImage,
+    cancelProcessing,
     clearResults,
     clearError,
   };
@@ -3,12 +3,23 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import * as fabric from 'fabric';
 import { processWallSegmentation } from '@/lib/ai-models';
-import { applyDesignPattern, clearDesigns, fitImageToCanvas } from '@/lib/fabric-utils';
+import {
+  applyDesignPattern,
+  clearDesigns,
+  createMaskClipPath,
+  createWallMask,
+  fitImageToCanvas,
+  getImagePixels,
+  getMaskCanvasBounds,
+  type WallObject,
+} from '@/lib/fabric-utils';
+import { refineMaskEdges } from '@/lib/wall-mask';
 
 export function useCanvas(canvasElement: HTMLCanvasElement | null) {
   const [canvas, setCanvas] = useState<fabric.Canvas | null>(null);
   const [isReady, setIsReady] = useState(false);
-  const [wallMask, setWallMask] = useState<any>(null);
+  const [wallMask, setWallMask] = useState<WallObject | null>(null);
+  const baseImageRef = useRef<fabric.Image | null>(null);
   const historyRef = useRef<any[]>([]);
   const historyIndexRef = useRef(-1);
 
@@ -81,22 +92,13 @@ export function useCanvas(canvasElement: HTMLCanvasElement | null) {
       canvas.add(img);
       canvas.renderAll();
 
+      baseImageRef.current = img;
+
       // Process wall segmentation
       const segmentationResult = await processWallSegmentation(imageUrl);
       
-      // Create wall mask
-      const mask = new fabric.Rect({
-        left: segmentationResult.bounds.x,
-        top: segmentationResult.bounds.y,
-        width: segmentationResult.bounds.width,
-        height: segmentationResult.bounds.height,
-        fill: 'rgba(59, 130, 246, 0.2)',
-        stroke: '#3b82f6',
-        strokeWidth: 2,
-        strokeDashArray: [5, 5],
-        selectable: false,
-        evented: false,
-      });
+      // Create wall mask from the segmented pixels
+      const mask = createWallMask(segmentationResult.mask, img);
 
       canvas.add(mask);
       setWallMask(mask);
@@ -109,19 +111,21 @@ export function useCanvas(canvasElement: HTMLCanvasElement | null) {
   }, [canvas, saveState]);
 
   const applyDesign = useCallback(async (design: any) => {
-    if (!canvas || !wallMask) return;
+    const baseImage = baseImageRef.current;
+    if (!canvas || !wallMask?.maskData || !baseImage) return;
 
     try {
       // Clear existing designs
       clearDesigns(canvas);
 
-      // Apply new design
-      const designObject = await applyDesignPattern(canvas, design, {
-        x: wallMask.left,
-        y: wallMask.top,
-        width: wallMask.width,
-        height: wallMask.height,
-      });
+      // Apply new design, clipped to a soft matte of the wall pixels
+      const matte = refineMaskEdges(wallMask.maskData, getImagePixels(baseImage), { scale: baseImage.scaleX });
+      const designObject = await applyDesignPattern(
+        canvas,
+        design,
+        getMaskCanvasBounds(matte, baseImage),
+        createMaskClipPath(matte, baseImage)
+      );
 
       if (designObject) {
         canvas.add(designObject);
@@ -1,6 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { loadPixels } from '@/lib/ai-models';
+import { imageToBase64, validateImage } from '@/lib/image-processing';
+import { toImageData } from '@/lib/pixel-buffer';
+import { DEFAULT_PAINT_FINISH, type PaintFinish } from '@/lib/recolor';
+import type { PhysicalSize } from '@/lib/scale-calibration';
+import { prepareSeamlessTile } from '@/lib/seamless-tile';
 
 export interface Design {
   id: string;
@@ -8,11 +14,17 @@ export interface Design {
   category: 'pvc' | 'wallpaper' | 'paint' | 'texture';
   url: string;
   color?: string;
+  finish?: PaintFinish; // paint sheen
+  tile?: string; // seamless repeat of the pattern (data URL), tiled instead of url
+  tileSize?: PhysicalSize; // real size of one repeat of the tile (or url), cm
   preview: string;
   tags?: string[];
   price?: number;
 }
 
+// Real width assumed for an uploaded swatch photo, cm
+export const DEFAULT_SWATCH_WIDTH = 30;
+
 const mockDesigns: Design[] = [
   // PVC Panels
   {
@@ -20,6 +32,7 @@ const mockDesigns: Design[] = [
     name: 'Oak Wood Grain',
     category: 'pvc',
     url: 'https://images.pexels.com/photos/129731/pexels-photo-129731.jpeg',
+    tileSize: { width: 120, height: 80 },
     preview: 'https://images.pexels.com/photos/129731/pexels-photo-129731.jpeg?w=100&h=100&fit=crop',
     tags: ['wood', 'natural', 'warm'],
     price: 25.99,
@@ -29,6 +42,7 @@ const mockDesigns: Design[] = [
     name: 'Carrara Marble',
     category: 'pvc',
     url: 'https://images.pexels.com/photos/1939485/pexels-photo-1939485.jpeg',
+    tileSize: { width: 120, height: 80 },
     preview: 'https://images.pexels.com/photos/1939485/pexels-photo-1939485.jpeg?w=100&h=100&fit=crop',
     tags: ['marble', 'luxury', 'white'],
     price: 35.99,
@@ -38,6 +52,7 @@ const mockDesigns: Design[] = [
     name: 'Exposed Brick',
     category: 'pvc',
     url: 'https://images.pexels.com/photos/2219024/pexels-photo-2219024.jpeg',
+    tileSize: { width: 90, height: 60 },
     preview: 'https://images.pexels.com/photos/2219024/pexels-photo-2219024.jpeg?w=100&h=100&fit=crop',
     tags: ['brick', 'industrial', 'rustic'],
     price: 28.99,
@@ -49,6 +64,7 @@ const mockDesigns: Design[] = [
     name: 'Modern Geometric',
     category: 'wallpaper',
     url: 'https://images.pexels.com/photos/1034584/pexels-photo-1034584.jpeg',
+    tileSize: { width: 78, height: 52 },
     preview: 'https://images.pexels.com/photos/1034584/pexels-photo-1034584.jpeg?w=100&h=100&fit=crop',
     tags: ['geometric', 'modern', 'pattern'],
     price: 18.99,
@@ -58,6 +74,7 @@ const mockDesigns: Design[] = [
     name: 'Botanical Garden',
     category: 'wallpaper',
     url: 'https://images.pexels.com/photos/1571460/pexels-photo-1571460.jpeg',
+    tileSize: { width: 96, height: 64 },
     preview: 'https://images.pexels.com/photos/1571460/pexels-photo-1571460.jpeg?w=100&h=100&fit=crop',
     tags: ['botanical', 'green', 'nature'],
     price: 22.99,
@@ -67,6 +84,7 @@ const mockDesigns: Design[] = [
     name: 'Ocean Waves',
     category: 'wallpaper',
     url: 'https://images.pexels.com/photos/1323712/pexels-photo-1323712.jpeg',
+    tileSize: { width: 105, height: 70 },
     preview: 'https://images.pexels.com/photos/1323712/pexels-photo-1323712.jpeg?w=100&h=100&fit=crop',
     tags: ['abstract', 'blue', 'waves'],
     price: 24.99,
@@ -78,6 +96,7 @@ const mockDesigns: Design[] = [
     name: 'Deep Navy',
     category: 'paint',
     color: '#1e3a8a',
+    finish: 'eggshell',
     url: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%231e3a8a"/></svg>',
     preview: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%231e3a8a"/></svg>',
     tags: ['blue', 'dark', 'sophisticated'],
@@ -88,6 +107,7 @@ const mockDesigns: Design[] = [
     name: 'Sage Garden',
     category: 'paint',
     color: '#84cc16',
+    finish: 'matte',
     url: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%2384cc16"/></svg>',
     preview: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%2384cc16"/></svg>',
     tags: ['green', 'natural', 'calm'],
@@ -98,6 +118,7 @@ const mockDesigns: Design[] = [
     name: 'Terracotta Sunset',
     category: 'paint',
     color: '#ea580c',
+    finish: 'satin',
     url: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%23ea580c"/></svg>',
     preview: 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="%23ea580c"/></svg>',
     tags: ['orange', 'warm', 'earth'],
@@ -105,6 +126,58 @@ const mockDesigns: Design[] = [
   },
 ];
 
+// A solid paint design for any color, e.g. a harmony swatch
+export function createPaintDesign(
+  color: string,
+  name: string = `Paint ${color}`,
+  finish: PaintFinish = DEFAULT_PAINT_FINISH
+): Design {
+  const swatch = `data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg"><rect width="100" height="100" fill="${encodeURIComponent(color)}"/></svg>`;
+  return {
+    id: `paint-custom-${color.replace('#', '')}`,
+    name,
+    category: 'paint',
+    color,
+    finish,
+    url: swatch,
+    preview: swatch,
+    tags: ['custom'],
+  };
+}
+
+// A pattern design from an uploaded swatch photo, with a seamless tile prepared for repeating it.
+// swatchWidth is the real width (cm) the photo shows, which sizes the tile
+export async function createSwatchDesign(
+  file: File,
+  category: Exclude<Design['category'], 'paint'> = 'wallpaper',
+  swatchWidth = DEFAULT_SWATCH_WIDTH
+): Promise<Design> {
+  const validation = validateImage(file);
+  if (!validation.valid) {
+    throw new Error(validation.error);
+  }
+
+  const url = await imageToBase64(file);
+  const swatch = await loadPixels(url);
+  const { tile, scale } = prepareSeamlessTile(swatch);
+  const cmPerPixel = swatchWidth / (swatch.width * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = tile.width;
+  canvas.height = tile.height;
+  canvas.getContext('2d')!.putImageData(toImageData(tile), 0, 0);
+
+  return {
+    id: `swatch-${Date.now().toString(36)}`,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    category,
+    url,
+    preview: url,
+    tile: canvas.toDataURL('image/png'),
+    tileSize: { width: tile.width * cmPerPixel, height: tile.height * cmPerPixel },
+    tags: ['uploaded'],
+  };
+}
+
 export function useDesigns() {
   const [designs, setDesigns] = useState<Design[]>([]);
   const [loading, setLoading] = useState(true);
@@ -0,0 +1,112 @@
+import { mkdir, mkdtemp, readdir, rm, utimes } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cachedAnalysis, createCacheKey, setAnalysisCacheStore, type AnalysisCacheStore } from '@/lib/analysis-cache';
+import { config } from '@/lib/config';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { createDiskCacheStore } from '@/lib/server-cache';
+
+const PROVIDER = { id: 'heuristic', version: '1' };
+
+function createImage(seed: number): PixelBuffer {
+  const data = Uint8ClampedArray.from({ length: 4 * 4 * 4 }, (_, i) => (i * 37 + seed) % 256);
+  return { data, width: 4, height: 4 };
+}
+
+function createMemoryStore(): AnalysisCacheStore & { entries: Map<string, unknown> } {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    get: async key => entries.get(key),
+    set: async (key, value) => void entries.set(key, value),
+  };
+}
+
+describe('cachedAnalysis', () => {
+  afterEach(() => setAnalysisCacheStore(null));
+
+  it('serves a repeated analysis of the same pixels from the store', async () => {
+    const store = createMemoryStore();
+    setAnalysisCacheStore(store);
+    const compute = vi.fn(async () => ({ colors: ['#c83c28'] }));
+
+    const first = await cachedAnalysis('palette', createImage(1), PROVIDER, { colorCount: 5 }, compute);
+    // Same pixels in a different buffer, as when a photo is reopened
+    const second = await cachedAnalysis('palette', createImage(1), PROVIDER, { colorCount: 5 }, compute);
+
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(second).toEqual(first);
+    expect(store.entries.size).toBe(1);
+  });
+
+  it('recomputes when the pixels, parameters, provider or cache version change', async () => {
+    const image = createImage(1);
+    const key = await createCacheKey('palette', image, PROVIDER, { colorCount: 5 });
+
+    expect(await createCacheKey('palette', createImage(2), PROVIDER, { colorCount: 5 })).not.toBe(key);
+    expect(await createCacheKey('palette', image, PROVIDER, { colorCount: 6 })).not.toBe(key);
+    expect(await createCacheKey('depth', image, PROVIDER, { colorCount: 5 })).not.toBe(key);
+    expect(await createCacheKey('palette', image, { ...PROVIDER, version: '2' }, { colorCount: 5 })).not.toBe(key);
+
+    const version = config.ai.cache.version;
+    Object.assign(config.ai.cache, { version: version + 1 });
+    try {
+      expect(await createCacheKey('palette', createImage(1), PROVIDER, { colorCount: 5 })).not.toBe(key);
+    } finally {
+      Object.assign(config.ai.cache, { version });
+    }
+  });
+
+  it('still returns the result when the store fails', async () => {
+    setAnalysisCacheStore({
+      get: async () => { throw new Error('read failed'); },
+      set: async () => { throw new Error('write failed'); },
+    });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      expect(await cachedAnalysis('edges', createImage(1), PROVIDER, {}, async () => 42)).toBe(42);
+      expect(error).toHaveBeenCalledTimes(2);
+    } finally {
+      error.mockRestore();
+    }
+  });
+});
+
+describe('createDiskCacheStore', () => {
+  let root: string | null = null;
+  afterEach(async () => {
+    if (root) await rm(root, { recursive: true, force: true });
+    root = null;
+  });
+
+  it('keeps typed arrays intact and drops the entries of older cache versions', async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'analysis-cache-'));
+    await mkdir(path.join(root, 'v1'));
+    const store = createDiskCacheStore(root);
+
+    await store.set('mask', { data: new Uint8ClampedArray([1, 2, 3]), width: 3 });
+    expect(await store.get('mask')).toEqual({ data: new Uint8ClampedArray([1, 2, 3]), width: 3 });
+    expect(await store.get('missing')).toBeUndefined();
+    expect(await readdir(root)).toEqual([`v${config.ai.cache.version}`]);
+  });
+
+  it('evicts the oldest entries beyond the limit', async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'analysis-cache-'));
+    const store = createDiskCacheStore(root);
+    const directory = path.join(root, `v${config.ai.cache.version}`);
+
+    for (let i = 0; i < config.ai.cache.maxEntries; i++) {
+      await store.set(`entry-${i}`, i);
+      // Spread the write times so the oldest entry is unambiguous
+      const time = new Date(Date.now() - (config.ai.cache.maxEntries - i) * 1000);
+      await utimes(path.join(directory, `entry-${i}`), time, time);
+    }
+    await store.set('newest', 'value');
+
+    expect(await readdir(directory)).toHaveLength(config.ai.cache.maxEntries);
+    expect(await store.get('entry-0')).toBeUndefined();
+    expect(await store.get('entry-1')).toBe(1);
+    expect(await store.get('newest')).toBe('value');
+  });
+});
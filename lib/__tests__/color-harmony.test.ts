@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { generateColorHarmony, getHue, getSchemeColors } from '@/lib/color-harmony';
+import { hexToRgb, rgbToHsl } from '@/lib/color-science';
+
+const KEY = '#c83c28'; // brick red
+
+function hsl(color: string): [number, number, number] {
+  return rgbToHsl(...hexToRgb(color)!);
+}
+
+// Signed difference between two hues, in -180 to 180 degrees
+function hueOffset(from: string, to: string): number {
+  return ((((getHue(to) - getHue(from)) % 360) + 540) % 360) - 180;
+}
+
+describe('generateColorHarmony', () => {
+  it('places the hue-based schemes at their angles on the color wheel', () => {
+    const harmony = generateColorHarmony(KEY);
+
+    expect(Math.abs(hueOffset(KEY, harmony.complementary))).toBeCloseTo(180, 0);
+    expect(harmony.analogous.map(color => hueOffset(KEY, color))).toEqual([expect.closeTo(30, 0), expect.closeTo(-30, 0)]);
+    expect(harmony.triadic.map(color => hueOffset(KEY, color))).toEqual([expect.closeTo(120, 0), expect.closeTo(-120, 0)]);
+    expect(harmony.splitComplementary.map(color => hueOffset(KEY, color))).toEqual([expect.closeTo(150, 0), expect.closeTo(-150, 0)]);
+    expect(harmony.tetradic.map(color => Math.abs(hueOffset(KEY, color)))).toEqual([
+      expect.closeTo(90, 0),
+      expect.closeTo(180, 0),
+      expect.closeTo(90, 0),
+    ]);
+  });
+
+  it('keeps the exact primaries of a pure color', () => {
+    const harmony = generateColorHarmony('#ff0000');
+    expect(harmony.complementary).toBe('#00ffff');
+    expect(harmony.triadic).toEqual(['#00ff00', '#0000ff']);
+  });
+
+  it('rotates the whole scheme with the key color', () => {
+    const rotated = generateColorHarmony('#ff0000', 120);
+    expect(rotated.complementary).toBe('#ff00ff');
+    expect(rotated.triadic).toEqual(['#0000ff', '#ff0000']);
+    expect(getSchemeColors('#ff0000', 'complementary', 120)).toEqual(['#00ff00', '#ff00ff']);
+  });
+
+  it('builds tints and shades of the key hue, stepping toward white and black', () => {
+    const { tints, shades } = generateColorHarmony(KEY).monochromatic;
+    const lightness = (colors: string[]) => colors.map(color => hsl(color)[2]);
+
+    expect(lightness(tints).every((value, i, all) => value > (i === 0 ? hsl(KEY)[2] : all[i - 1]))).toBe(true);
+    expect(lightness(shades).every((value, i, all) => value < (i === 0 ? hsl(KEY)[2] : all[i - 1]))).toBe(true);
+    for (const color of [...tints, ...shades]) expect(Math.abs(hueOffset(KEY, color))).toBeLessThan(3);
+  });
+
+  it('offers low-saturation warm and cool neutrals leaning slightly toward the key hue', () => {
+    const { warm, cool } = generateColorHarmony(KEY).neutrals;
+    for (const color of [...warm, ...cool]) expect(hsl(color)[1]).toBeLessThan(20);
+
+    // The key hue (about 7°) pulls the warm neutrals below their base hue of 40°
+    for (const color of warm) expect(getHue(color)).toBeGreaterThan(20);
+    for (const color of warm) expect(getHue(color)).toBeLessThan(40);
+    for (const color of cool) expect(Math.abs(getHue(color) - 215)).toBeLessThan(40);
+  });
+
+  it('rejects colors it cannot parse', () => {
+    expect(() => generateColorHarmony('brick')).toThrow('Invalid color');
+  });
+});
+
+describe('getSchemeColors', () => {
+  it('lists the key color first, and monochromatic colors from lightest to darkest', () => {
+    expect(getSchemeColors(KEY, 'triadic')[0]).toBe(KEY);
+    expect(getSchemeColors(KEY, 'tetradic')).toHaveLength(4);
+
+    const monochromatic = getSchemeColors(KEY, 'monochromatic');
+    expect(monochromatic).toHaveLength(7);
+    expect(monochromatic[3]).toBe(KEY);
+    const lightness = monochromatic.map(color => hsl(color)[2]);
+    expect(lightness.every((value, i) => i === 0 || value < lightness[i - 1])).toBe(true);
+  });
+});
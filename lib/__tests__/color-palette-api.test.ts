@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/color-palette/route';
+
+function post(body: Record<string, unknown>) {
+  return POST(new NextRequest('http://localhost/api/color-palette', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+}
+
+describe('POST /api/color-palette', () => {
+  it.each([0, 17, 2.5, '5', null])('rejects colorCount %j', async (colorCount) => {
+    const response = await post({ imageUrl: '/room.jpg', colorCount });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/colorCount/);
+  });
+
+  it.each([null, 5, '#c83c28', ['#c83c28', 'red']])('rejects colors %j', async (colors) => {
+    const response = await post({ colors });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/Colors/);
+  });
+
+  it.each([{}, { colors: [] }, { imageUrl: '' }])('requires an image or colors in %j', async (body) => {
+    const response = await post(body);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/required/);
+  });
+
+  it('rejects an imageUrl that is not a string', async () => {
+    const response = await post({ imageUrl: 42 });
+    expect(response.status).toBe(400);
+  });
+
+  it.each([0, -1, 21, 1.5, '3'])('rejects matchCount %j', async (matchCount) => {
+    const response = await post({ colors: ['#c83c28'], matchCount });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/matchCount/);
+  });
+
+  it.each(['studio-essentials', [42], ['studio'], ['unknown-deck']])('rejects catalogIds %j', async (catalogIds) => {
+    const response = await post({ colors: ['#c83c28'], catalogIds });
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/catalogIds/);
+  });
+
+  it('matches picked colors against the requested decks', async () => {
+    const response = await post({ colors: ['#c83c28'], matchCount: 2, catalogIds: ['studio-essentials'] });
+    expect(response.status).toBe(200);
+    const { matches } = await response.json();
+    expect(matches).toHaveLength(1);
+    expect(matches[0].paints).toHaveLength(2);
+    expect(matches[0].paints[0].paint.catalogId).toBe('studio-essentials');
+  });
+});
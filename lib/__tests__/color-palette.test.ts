@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { extractColorPalette } from '@/lib/ai-models';
+import { extractPalette } from '@/lib/color-palette';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { createRectangleMask } from '@/lib/wall-mask';
+
+const WIDTH = 100;
+const HEIGHT = 100;
+
+// Horizontal bands of solid color, each covering the given number of rows
+function createBands(bands: [number, number, number, number][]): PixelBuffer {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  let row = 0;
+  for (const [r, g, b, rows] of bands) {
+    for (let y = row; y < row + rows; y++) {
+      for (let x = 0; x < WIDTH; x++) data.set([r, g, b, 255], (y * WIDTH + x) * 4);
+    }
+    row += rows;
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+describe('extractPalette', () => {
+  it('finds each color with its share of the image, most common first', () => {
+    const image = createBands([[200, 60, 40, 60], [40, 90, 200, 30], [240, 240, 230, 10]]);
+    const { colors, dominant } = extractPalette(image, 3);
+
+    expect(colors.map(color => color.color)).toEqual(['#c83c28', '#285ac8', '#f0f0e6']);
+    expect(colors.map(color => color.share)).toEqual([0.6, 0.3, 0.1]);
+    expect(dominant?.color).toBe('#c83c28');
+  });
+
+  it('returns fewer colors than asked for when the image has fewer', () => {
+    const { colors } = extractPalette(createBands([[200, 60, 40, 50], [40, 90, 200, 50]]), 5);
+    expect(colors).toHaveLength(2);
+  });
+
+  it('prefers the wall color as dominant', () => {
+    const image = createBands([[200, 60, 40, 60], [40, 90, 200, 40]]);
+    const wallMask = createRectangleMask(WIDTH, HEIGHT, { x: 0, y: 60, width: WIDTH, height: 40 });
+    const { colors, dominant } = extractPalette(image, 2, { wallMask });
+
+    expect(colors[0].color).toBe('#c83c28');
+    expect(dominant?.color).toBe('#285ac8');
+    expect(dominant?.wallShare).toBe(1);
+  });
+
+  it('returns an empty palette for a fully transparent image', async () => {
+    const transparent = { data: new Uint8ClampedArray(WIDTH * HEIGHT * 4), width: WIDTH, height: HEIGHT };
+    expect(extractPalette(transparent, 5)).toEqual({ colors: [], dominant: null });
+
+    const result = await extractColorPalette(transparent, 5);
+    expect(result).toEqual({ colors: [], shares: [], dominantColor: null, colorHarmony: null });
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { estimateDepth } from '@/lib/ai-models';
+import { MAX_DEPTH_SIZE, resampleDepth, sampleDepth } from '@/lib/depth-map';
+import { BACK_WALL, ROOM_HEIGHT, ROOM_WIDTH, createRoom } from './synthetic-room';
+
+describe('estimateDepth', () => {
+  it('places the surfaces of a one-point room by their distance from the horizon', async () => {
+    const { depthMap, minDepth, maxDepth } = await estimateDepth(createRoom());
+    expect([depthMap.width, depthMap.height]).toEqual([MAX_DEPTH_SIZE, 96]);
+    // Depth in camera heights
+    const depthAt = (x: number, y: number) =>
+      minDepth + sampleDepth(depthMap, x, y, ROOM_WIDTH, ROOM_HEIGHT) * (maxDepth - minDepth);
+
+    // The back wall faces the camera, so it has one depth throughout
+    const backWall = depthAt(400, 300);
+    expect(depthAt(BACK_WALL.x + 50, BACK_WALL.y + 50)).toBeCloseTo(backWall, 2);
+    expect(depthAt(BACK_WALL.x + 350, BACK_WALL.y + 270)).toBeCloseTo(backWall, 2);
+
+    // Its floor junction is half as far below the horizon as the image bottom, so twice as deep
+    expect(backWall / depthAt(400, ROOM_HEIGHT - 1)).toBeCloseTo(2, 1);
+
+    // The floor, ceiling and side walls recede towards the back wall
+    const floor = [595, 540, 500, 460].map(y => depthAt(400, y));
+    const leftWall = [20, 100, 190].map(x => depthAt(x, 300));
+    const ceiling = [5, 80, 140].map(y => depthAt(400, y));
+    for (const run of [floor, leftWall, ceiling]) {
+      expect(run.every((value, i) => i === 0 || value > run[i - 1])).toBe(true);
+      expect(run[run.length - 1]).toBeLessThan(backWall);
+    }
+  });
+});
+
+describe('resampleDepth', () => {
+  it('averages a full-resolution map into cells of at most MAX_DEPTH_SIZE per side', () => {
+    const width = 512;
+    const height = 256;
+    // Left half near, right half far
+    const values = Float32Array.from({ length: width * height }, (_, i) => (i % width < width / 2 ? 0.2 : 0.8));
+    const depth = resampleDepth(values, width, height);
+
+    expect([depth.width, depth.height]).toEqual([MAX_DEPTH_SIZE, 64]);
+    expect(depth.data[0]).toBeCloseTo(0.2, 6);
+    expect(depth.data[depth.width - 1]).toBeCloseTo(0.8, 6);
+    expect(sampleDepth(depth, width / 2, height / 2, width, height)).toBeCloseTo(0.5, 6);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { estimateWallLighting, sampleLightField } from '@/lib/lighting';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { createRectangleMask } from '@/lib/wall-mask';
+
+const WIDTH = 160;
+const HEIGHT = 100;
+const FULL = { x: 0, y: 0, width: WIDTH, height: HEIGHT };
+
+// A gray wall whose sRGB level at each pixel is shade(x, y)
+function createWall(shade: (x: number, y: number) => number): PixelBuffer {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const value = shade(x, y);
+      data.set([value, value, value, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+describe('estimateWallLighting', () => {
+  it('points toward a window on the left and finds the brightest spot next to it', () => {
+    const lighting = estimateWallLighting(createWall(x => 230 - x), createRectangleMask(WIDTH, HEIGHT, FULL), FULL);
+
+    expect(lighting.direction.x).toBeCloseTo(-1, 2);
+    expect(Math.abs(lighting.direction.y)).toBeLessThan(0.01);
+    expect(lighting.hotspot.x).toBeLessThan(10);
+    expect(lighting.falloff).toBeGreaterThan(0.5);
+    expect(sampleLightField(lighting.shading, 5, 50)).toBeGreaterThan(1);
+    expect(sampleLightField(lighting.shading, 155, 50)).toBeLessThan(1);
+  });
+
+  it('follows light from a ceiling lamp above the top right', () => {
+    const lighting = estimateWallLighting(
+      createWall((x, y) => 120 + x / 2 - y),
+      createRectangleMask(WIDTH, HEIGHT, FULL),
+      FULL
+    );
+
+    expect(lighting.direction.x).toBeGreaterThan(0.3);
+    expect(lighting.direction.y).toBeLessThan(-0.6);
+    expect(lighting.hotspot.x).toBeGreaterThan(WIDTH / 2);
+    expect(lighting.hotspot.y).toBeLessThan(HEIGHT / 2);
+  });
+
+  it('reports an evenly lit wall as having no direction or falloff', () => {
+    const lighting = estimateWallLighting(createWall(() => 180), createRectangleMask(WIDTH, HEIGHT, FULL), FULL);
+
+    expect(lighting.direction).toEqual({ x: 0, y: 0 });
+    expect(lighting.falloff).toBe(0);
+    expect(sampleLightField(lighting.shading, 80, 50)).toBeCloseTo(1, 6);
+  });
+
+  it('ignores pixels outside the wall mask', () => {
+    // Even wall on the left, a dark cabinet on the right that the mask leaves out
+    const wall = createWall(x => (x < 100 ? 180 : 30));
+    const lighting = estimateWallLighting(wall, createRectangleMask(WIDTH, HEIGHT, { x: 0, y: 0, width: 100, height: HEIGHT }), FULL);
+
+    expect(lighting.falloff).toBe(0);
+    expect(sampleLightField(lighting.shading, 150, 50)).toBeCloseTo(1, 6);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { computeEdgeMap } from '@/lib/ai-models';
+import { detectLines, type DetectedLine } from '@/lib/line-detection';
+import { estimateRoomLayout } from '@/lib/room-layout';
+import { BACK_WALL, createRoom } from './synthetic-room';
+
+// Off-centre back wall: its top-left junction meets the top border at x = 50, not the image corner
+const OFFSET_WALL = { x: 250, y: 150, width: 400, height: 300 };
+
+function near(lines: DetectedLine[], orientation: DetectedLine['orientation'], position: number) {
+  return lines.find(line => {
+    if (line.orientation !== orientation) return false;
+    const at = orientation === 'horizontal' ? (line.start.y + line.end.y) / 2 : (line.start.x + line.end.x) / 2;
+    return Math.abs(at - position) <= 4;
+  });
+}
+
+describe('detectLines', () => {
+  it('finds the ceiling, floor and corner lines of a room', () => {
+    const room = createRoom();
+    const lines = detectLines(computeEdgeMap(room), room.width, room.height);
+    expect(near(lines, 'horizontal', BACK_WALL.y)).toBeDefined();
+    expect(near(lines, 'horizontal', BACK_WALL.y + BACK_WALL.height)).toBeDefined();
+    expect(near(lines, 'vertical', BACK_WALL.x)).toBeDefined();
+    expect(near(lines, 'vertical', BACK_WALL.x + BACK_WALL.width)).toBeDefined();
+    expect(lines.some(line => line.orientation === 'oblique')).toBe(true);
+  });
+});
+
+describe('estimateRoomLayout with detected lines', () => {
+  it('runs the wall junctions along the detected lines instead of to the image corners', () => {
+    const room = createRoom([], { backWall: OFFSET_WALL });
+    const lines = detectLines(computeEdgeMap(room), room.width, room.height);
+
+    const ceiling = estimateRoomLayout(room, lines).find(surface => surface.label === 'ceiling')!;
+    const topLeftRay = ceiling.polygon[ceiling.polygon.length - 1];
+    expect(topLeftRay.y).toBeCloseTo(0, 0);
+    expect(Math.abs(topLeftRay.x - 50)).toBeLessThanOrEqual(8);
+
+    // Without lines the junction falls back to the image corner
+    const unsnapped = estimateRoomLayout(room).find(surface => surface.label === 'ceiling')!;
+    expect(unsnapped.polygon[unsnapped.polygon.length - 1]).toEqual({ x: 0, y: 0 });
+  });
+});
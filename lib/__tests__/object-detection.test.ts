@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeRoomSurfaces } from '@/lib/ai-models';
+import { detectInteriorObjects, type InteriorObject } from '@/lib/object-detection';
+import type { MaskBounds } from '@/lib/wall-mask';
+import { FURNITURE, createRoom, type RoomFeature } from './synthetic-room';
+
+const TOLERANCE = 4;
+
+function detect(features: RoomFeature[]) {
+  const room = createRoom(features);
+  const { edges, walls, openings } = analyzeRoomSurfaces(room);
+  return { openings, objects: detectInteriorObjects(room, edges, walls, openings) };
+}
+
+function expectObject(objects: InteriorObject[], label: InteriorObject['label'], bounds: MaskBounds) {
+  const matches = objects.filter(object => object.label === label);
+  expect(matches).toHaveLength(1);
+  const found = matches[0].bounds;
+  expect(Math.abs(found.x - bounds.x)).toBeLessThanOrEqual(TOLERANCE);
+  expect(Math.abs(found.y - bounds.y)).toBeLessThanOrEqual(TOLERANCE);
+  // Furniture standing in front of the wall is cut off at the floor line
+  expect(Math.abs(found.x + found.width - bounds.x - bounds.width)).toBeLessThanOrEqual(TOLERANCE);
+  expect(found.y + found.height).toBeLessThanOrEqual(bounds.y + bounds.height + TOLERANCE);
+}
+
+describe('detectInteriorObjects', () => {
+  it('classifies the furniture and fixtures of a furnished room', () => {
+    const { objects } = detect(Object.values(FURNITURE));
+    expect(objects.map(object => object.label).sort()).toEqual(['frame', 'outlet', 'sofa', 'tv']);
+    expectObject(objects, 'sofa', FURNITURE.sofa.bounds);
+    expectObject(objects, 'tv', FURNITURE.tv.bounds);
+    expectObject(objects, 'frame', FURNITURE.frame.bounds);
+    expectObject(objects, 'outlet', FURNITURE.outlet.bounds);
+  });
+
+  it('classifies radiators, switches and cabinets', () => {
+    const radiator = { x: 260, y: 380, width: 120, height: 50 };
+    const lightSwitch = { x: 440, y: 300, width: 12, height: 18 };
+    const cabinet = { x: 480, y: 290, width: 100, height: 160 };
+    const { objects } = detect([
+      { kind: 'radiator', bounds: radiator },
+      { kind: 'switch', bounds: lightSwitch },
+      { kind: 'cabinet', bounds: cabinet },
+    ]);
+    expect(objects.map(object => object.label).sort()).toEqual(['cabinet', 'radiator', 'switch']);
+    expectObject(objects, 'radiator', radiator);
+    expectObject(objects, 'switch', lightSwitch);
+    expectObject(objects, 'cabinet', cabinet);
+  });
+
+  it('separates furniture from a contact shadow along the wall border', () => {
+    const sofa = { x: 203, y: 370, width: 170, height: 100 };
+    const { objects } = detect([
+      { kind: 'shadow', bounds: { x: 200, y: 150, width: 3, height: 300 } },
+      { kind: 'sofa', bounds: sofa },
+    ]);
+    expect(objects.map(object => object.label)).toEqual(['sofa']);
+    expect(objects[0].bounds.y).toBeGreaterThanOrEqual(sofa.y - TOLERANCE);
+  });
+
+  it('keeps screens and frames as objects rather than openings', () => {
+    const tv = { x: 420, y: 160, width: 140, height: 80 };
+    const painting = { x: 240, y: 170, width: 120, height: 130 };
+    const { objects, openings } = detect([
+      { kind: 'tv', bounds: tv },
+      { kind: 'frame', bounds: painting },
+      { kind: 'door', bounds: { x: 470, y: 260, width: 80, height: 190 } },
+    ]);
+    expect(openings.map(opening => opening.type)).toEqual(['door']);
+    expectObject(objects, 'tv', tv);
+    expectObject(objects, 'frame', painting);
+  });
+});
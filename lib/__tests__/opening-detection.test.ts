@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeRoomSurfaces } from '@/lib/ai-models';
+import type { MaskBounds } from '@/lib/wall-mask';
+import { FURNITURE, createRoom } from './synthetic-room';
+
+const TOLERANCE = 4;
+
+function expectBounds(actual: MaskBounds, expected: MaskBounds) {
+  expect(Math.abs(actual.x - expected.x)).toBeLessThanOrEqual(TOLERANCE);
+  expect(Math.abs(actual.y - expected.y)).toBeLessThanOrEqual(TOLERANCE);
+  expect(Math.abs(actual.width - expected.width)).toBeLessThanOrEqual(TOLERANCE);
+  expect(Math.abs(actual.height - expected.height)).toBeLessThanOrEqual(TOLERANCE);
+}
+
+describe('detectOpenings', () => {
+  it('finds a framed window as one opening and a door reaching the floor', () => {
+    const window = { x: 260, y: 200, width: 120, height: 140 };
+    const door = { x: 470, y: 250, width: 80, height: 200 };
+    const { openings } = analyzeRoomSurfaces(createRoom([
+      { kind: 'window', bounds: window },
+      { kind: 'door', bounds: door },
+    ]));
+
+    expect(openings.map(opening => opening.type).sort()).toEqual(['door', 'window']);
+    expectBounds(openings.find(opening => opening.type === 'window')!.bounds, window);
+    expectBounds(openings.find(opening => opening.type === 'door')!.bounds, door);
+    expect(openings.every(opening => opening.surfaceId === 'back-wall')).toBe(true);
+  });
+
+  it('does not report wall art, screens or furniture as openings', () => {
+    const { openings } = analyzeRoomSurfaces(createRoom(Object.values(FURNITURE)));
+    expect(openings).toEqual([]);
+  });
+
+  it('does not report a large screen as an opening', () => {
+    const { openings } = analyzeRoomSurfaces(createRoom([{ kind: 'tv', bounds: { x: 400, y: 180, width: 160, height: 90 } }]));
+    expect(openings).toEqual([]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { warpPattern } from '@/lib/pattern-warp';
+import { createPerspectivePlane } from '@/lib/perspective';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+// Black and white checks of the given size in pixels
+function createCheckerboard(size: number, check: number): PixelBuffer {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const value = (Math.floor(x / check) + Math.floor(y / check)) % 2 ? 255 : 0;
+      data.set([value, value, value, 255], (y * size + x) * 4);
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+function valueAt(buffer: PixelBuffer, x: number, y: number): number {
+  return buffer.data[(y * buffer.width + x) * 4];
+}
+
+describe('warpPattern', () => {
+  it('tiles a frontal plane texel for texel', () => {
+    const texture = createCheckerboard(16, 4);
+    const corners = [{ x: 10, y: 20 }, { x: 74, y: 20 }, { x: 74, y: 84 }, { x: 10, y: 84 }];
+    const plane = createPerspectivePlane('back-wall', 'back-wall', corners, 100, 100);
+    const output = warpPattern(texture, plane, { x: 10, y: 20, width: 64, height: 64 }, { tileHeight: 0.25 });
+
+    for (let y = 0; y < 64; y++) {
+      for (let x = 0; x < 64; x++) expect(valueAt(output, x, y)).toBe(valueAt(texture, x % 16, y % 16));
+    }
+  });
+
+  it('averages fine detail on the far end of a receding plane instead of aliasing', () => {
+    const texture = createCheckerboard(64, 1);
+    // The wall's right edge is a tenth the height of its left edge
+    const corners = [{ x: 0, y: 0 }, { x: 200, y: 90 }, { x: 200, y: 110 }, { x: 0, y: 200 }];
+    const plane = createPerspectivePlane('left-wall', 'left-wall', corners, 200, 200);
+    const output = warpPattern(texture, plane, { x: 0, y: 0, width: 200, height: 200 });
+
+    for (let y = 95; y < 105; y++) {
+      for (let x = 180; x < 195; x++) expect(Math.abs(valueAt(output, x, y) - 127.5)).toBeLessThan(20);
+    }
+  });
+
+  it('leaves pixels beyond the plane horizon transparent', () => {
+    const corners = [{ x: 0, y: 40 }, { x: 100, y: 45 }, { x: 100, y: 55 }, { x: 0, y: 60 }];
+    const plane = createPerspectivePlane('left-wall', 'left-wall', corners, 400, 100);
+    const output = warpPattern(createCheckerboard(16, 4), plane, { x: 0, y: 0, width: 400, height: 100 });
+
+    expect(output.data[(50 * 400 + 50) * 4 + 3]).toBe(255);
+    expect(output.data[(50 * 400 + 350) * 4 + 3]).toBe(0);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import type { Point2D } from '@/lib/geometry';
+import type { DetectedLine } from '@/lib/line-detection';
+import {
+  applyHomography,
+  computeHomography,
+  createPerspectivePlane,
+  estimatePerspective,
+  invertHomography,
+} from '@/lib/perspective';
+
+// A wall receding towards a vanishing point left of an 800x600 photo: its top and bottom edges
+// meet at (-500, 300) and its vertical edges stay parallel
+const VANISHING_POINT = { x: -500, y: 300 };
+const WALL: Point2D[] = [{ x: 300, y: 100 }, { x: 700, y: 0 }, { x: 700, y: 600 }, { x: 300, y: 500 }];
+
+function segment(start: Point2D, end: Point2D): DetectedLine {
+  const angle = ((Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI + 180) % 180;
+  const orientation = Math.abs(angle - 90) < 10 ? 'vertical' : angle < 10 || angle > 170 ? 'horizontal' : 'oblique';
+  return { start, end, angle, orientation, strength: 1 };
+}
+
+// Segment from x0 to x1 on the line through the vanishing point and (x0, y0)
+function towardsVanishingPoint(x0: number, y0: number, x1: number): DetectedLine {
+  const slope = (y0 - VANISHING_POINT.y) / (x0 - VANISHING_POINT.x);
+  return segment({ x: x0, y: y0 }, { x: x1, y: y0 + slope * (x1 - x0) });
+}
+
+function expectNear(actual: Point2D, expected: Point2D, tolerance: number) {
+  expect(Math.abs(actual.x - expected.x)).toBeLessThanOrEqual(tolerance);
+  expect(Math.abs(actual.y - expected.y)).toBeLessThanOrEqual(tolerance);
+}
+
+describe('computeHomography', () => {
+  it('maps the four points onto their targets and back through the inverse', () => {
+    const from = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+    const homography = computeHomography(from, WALL);
+    from.forEach((point, index) => expectNear(applyHomography(homography, point), WALL[index], 1e-6));
+
+    const inverse = invertHomography(homography);
+    for (const point of [{ x: 0.25, y: 0.5 }, { x: 0.9, y: 0.1 }, { x: 0.5, y: 0.75 }]) {
+      expectNear(applyHomography(inverse, applyHomography(homography, point)), point, 1e-9);
+    }
+  });
+
+  it('keeps straight lines straight', () => {
+    const homography = computeHomography([{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }], WALL);
+    const [a, b, c] = [0, 0.4, 1].map(u => applyHomography(homography, { x: u, y: 0.3 }));
+    expect(Math.abs((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x))).toBeLessThan(1e-6);
+  });
+});
+
+describe('createPerspectivePlane', () => {
+  it('gives a frontal rectangle its image aspect ratio', () => {
+    const corners = [{ x: 100, y: 100 }, { x: 500, y: 100 }, { x: 500, y: 300 }, { x: 100, y: 300 }];
+    const plane = createPerspectivePlane('back-wall', 'back-wall', corners, 800, 600);
+    expect(plane.aspectRatio).toBeCloseTo(2, 6);
+    expectNear(applyHomography(plane.homography, { x: 0.5, y: 0.5 }), { x: 300, y: 200 }, 1e-6);
+  });
+
+  it('maps the middle of a receding wall towards its far edge', () => {
+    const plane = createPerspectivePlane('right-wall', 'right-wall', WALL, 800, 600);
+    // The wall's left edge is further away (it looks shorter), so the far half is drawn narrower
+    expect(applyHomography(plane.homography, { x: 0.5, y: 0.5 }).x).toBeLessThan(480);
+  });
+});
+
+describe('estimatePerspective', () => {
+  it('finds the vanishing points of a receding wall and fits its plane', () => {
+    const lines = [
+      towardsVanishingPoint(300, 100, 700),
+      towardsVanishingPoint(300, 500, 700),
+      towardsVanishingPoint(350, 250, 650),
+      towardsVanishingPoint(350, 400, 650),
+      segment({ x: 300, y: 100 }, { x: 300, y: 500 }),
+      segment({ x: 500, y: 60 }, { x: 500, y: 540 }),
+      segment({ x: 700, y: 0 }, { x: 700, y: 600 }),
+    ];
+    const wall = { id: 'right-wall', label: 'right-wall' as const, polygon: WALL, confidence: 1 };
+    const estimate = estimatePerspective([wall], lines, 800, 600);
+
+    expect(estimate.vertical.atInfinity).toBe(true);
+    expect(estimate.horizontal[0].atInfinity).toBe(false);
+    expectNear(estimate.horizontal[0], VANISHING_POINT, 2);
+
+    expect(estimate.planes).toHaveLength(1);
+    estimate.planes[0].corners.forEach((corner, index) => expectNear(corner, WALL[index], 2));
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { rgbToHsl, toLinear, type RGB } from '@/lib/color-science';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { PAINT_FINISHES, measureWallLuminance, recolorRegion } from '@/lib/recolor';
+import { createEmptyMask, createRectangleMask } from '@/lib/wall-mask';
+
+const WIDTH = 120;
+const HEIGHT = 80;
+const SAGE: RGB = [140, 160, 120];
+
+// A gray wall whose sRGB level at each pixel is shade(x, y)
+function createWall(shade: (x: number, y: number) => number): PixelBuffer {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const value = shade(x, y);
+      data.set([value, value, value, 255], (y * WIDTH + x) * 4);
+    }
+  }
+  return { data, width: WIDTH, height: HEIGHT };
+}
+
+function pixelAt(buffer: PixelBuffer, x: number, y: number): RGB {
+  const idx = (y * buffer.width + x) * 4;
+  return [buffer.data[idx], buffer.data[idx + 1], buffer.data[idx + 2]];
+}
+
+function luminance([r, g, b]: RGB): number {
+  return 0.2126729 * toLinear(r) + 0.7151522 * toLinear(g) + 0.072175 * toLinear(b);
+}
+
+const FULL = { x: 0, y: 0, width: WIDTH, height: HEIGHT };
+
+describe('recolorRegion', () => {
+  it('paints a wall of its typical luminance exactly the paint color', () => {
+    const output = recolorRegion(createWall(() => 180), createRectangleMask(WIDTH, HEIGHT, FULL), SAGE, FULL);
+    expect(pixelAt(output, 60, 40)).toEqual(SAGE);
+    expect(output.data[3]).toBe(255);
+  });
+
+  it('keeps the shading of the photo and takes the hue of the paint', () => {
+    // Light falling off from left to right, with a darker corner shadow at the bottom right
+    const wall = createWall((x, y) => (x > 100 && y > 60 ? 90 : 220 - x));
+    const output = recolorRegion(wall, createRectangleMask(WIDTH, HEIGHT, FULL), SAGE, FULL);
+
+    const pairs: Array<[number, number, number, number]> = [[10, 40, 100, 40], [30, 10, 110, 70], [50, 50, 90, 20]];
+    for (const [x1, y1, x2, y2] of pairs) {
+      const before = luminance(pixelAt(wall, x1, y1)) / luminance(pixelAt(wall, x2, y2));
+      const after = luminance(pixelAt(output, x1, y1)) / luminance(pixelAt(output, x2, y2));
+      expect(after).toBeCloseTo(before, 1);
+    }
+
+    const paintHue = rgbToHsl(...SAGE)[0];
+    for (const [x, y] of [[5, 5], [60, 40], [110, 70]]) {
+      expect(Math.abs(rgbToHsl(...pixelAt(output, x, y))[0] - paintHue)).toBeLessThan(4);
+    }
+  });
+
+  it('renders the requested rectangle at the requested scale', () => {
+    const wall = createWall(x => 100 + x);
+    const bounds = { x: 20, y: 10, width: 60, height: 40 };
+    const output = recolorRegion(wall, createRectangleMask(WIDTH, HEIGHT, FULL), SAGE, bounds, { scale: 0.5, reference: 0.3 });
+
+    expect([output.width, output.height]).toEqual([30, 20]);
+    // Output pixel (0, 0) samples source pixel (21, 11)
+    const expected = luminance(pixelAt(wall, 21, 11)) / 0.3 * luminance(SAGE);
+    expect(luminance(pixelAt(output, 0, 0))).toBeCloseTo(expected, 2);
+  });
+});
+
+describe('recolorRegion with a paint finish', () => {
+  // Light from a window on the left
+  const wall = createWall(x => 220 - x / 2);
+  const mask = createRectangleMask(WIDTH, HEIGHT, FULL);
+  const paint = (finish: (typeof PAINT_FINISHES)[number]) => recolorRegion(wall, mask, SAGE, FULL, { finish });
+
+  it('adds more sheen the glossier the finish', () => {
+    const near = PAINT_FINISHES.map(finish => luminance(pixelAt(paint(finish), 5, 40)));
+    expect(near.every((value, i) => i === 0 || value > near[i - 1])).toBe(true);
+  });
+
+  it('keeps the highlight near the light and leaves the sheen untinted', () => {
+    const matte = paint('matte');
+    const gloss = paint('gloss');
+    const added = (x: number) => luminance(pixelAt(gloss, x, 40)) - luminance(pixelAt(matte, x, 40));
+
+    expect(added(5)).toBeGreaterThan(added(60));
+    expect(added(60)).toBeGreaterThan(added(115));
+    // White light added to every channel in linear light pulls them closer together
+    const spread = (buffer: PixelBuffer) => {
+      const channels = pixelAt(buffer, 5, 40).map(toLinear);
+      return (Math.max(...channels) - Math.min(...channels)) / Math.max(...channels);
+    };
+    expect(spread(gloss)).toBeLessThan(spread(matte));
+  });
+});
+
+describe('measureWallLuminance', () => {
+  it('takes the median luminance of the covered pixels only', () => {
+    // Left half dark, right half light; the mask covers the right half and a strip of the left
+    const wall = createWall(x => (x < 60 ? 40 : 200));
+    const mask = createRectangleMask(WIDTH, HEIGHT, { x: 50, y: 0, width: 70, height: HEIGHT });
+
+    expect(measureWallLuminance(wall, mask)).toBeCloseTo(toLinear(200), 2);
+    expect(measureWallLuminance(wall, createEmptyMask(WIDTH, HEIGHT))).toBe(0.5);
+  });
+});
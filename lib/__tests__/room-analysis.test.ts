@@ -0,0 +1,27 @@
+import { describe, expect, it, vi } from 'vitest';
+import { analyzeRoom } from '@/lib/ai-models';
+import { detectLines } from '@/lib/line-detection';
+import { FURNITURE, createRoom } from './synthetic-room';
+
+vi.mock('@/lib/line-detection', async (importOriginal) => {
+  const original = await importOriginal<typeof import('@/lib/line-detection')>();
+  return { ...original, detectLines: vi.fn(original.detectLines) };
+});
+
+describe('analyzeRoom', () => {
+  it('runs every analysis on one geometry pass', async () => {
+    const progress: number[] = [];
+    const { segmentation, objects, depth, palette } = await analyzeRoom(
+      createRoom(Object.values(FURNITURE)),
+      5,
+      value => progress.push(value)
+    );
+
+    expect(detectLines).toHaveBeenCalledTimes(1);
+    expect(segmentation.surfaces.map(surface => surface.id)).toContain('back-wall');
+    expect(objects.objects.map(object => object.label).sort()).toEqual(['frame', 'outlet', 'sofa', 'tv']);
+    expect(depth.perspective.planes.length).toBeGreaterThan(0);
+    expect(palette.colors.length).toBeGreaterThan(0);
+    expect(progress.every((value, index) => index === 0 || value >= progress[index - 1])).toBe(true);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { estimateRoomLayout, type LayoutSurface } from '@/lib/room-layout';
+import { BACK_WALL, FURNITURE, createRoom } from './synthetic-room';
+
+const TOLERANCE = 4;
+
+function expectBackWall(surfaces: LayoutSurface[]) {
+  const backWall = surfaces.find(surface => surface.label === 'back-wall')!;
+  const expected = [
+    { x: BACK_WALL.x, y: BACK_WALL.y },
+    { x: BACK_WALL.x + BACK_WALL.width, y: BACK_WALL.y },
+    { x: BACK_WALL.x + BACK_WALL.width, y: BACK_WALL.y + BACK_WALL.height },
+    { x: BACK_WALL.x, y: BACK_WALL.y + BACK_WALL.height },
+  ];
+  backWall.polygon.forEach((point, index) => {
+    expect(Math.abs(point.x - expected[index].x)).toBeLessThanOrEqual(TOLERANCE);
+    expect(Math.abs(point.y - expected[index].y)).toBeLessThanOrEqual(TOLERANCE);
+  });
+}
+
+describe('estimateRoomLayout', () => {
+  it('finds the room box of an empty room', () => {
+    const surfaces = estimateRoomLayout(createRoom());
+    expectBackWall(surfaces);
+    expect(surfaces.map(surface => surface.label).sort()).toEqual(['back-wall', 'ceiling', 'floor', 'left-wall', 'right-wall']);
+  });
+
+  it('keeps the back wall at the room corners when it has a window', () => {
+    const surfaces = estimateRoomLayout(createRoom([{ kind: 'window', bounds: { x: 326, y: 190, width: 128, height: 170 } }]));
+    expectBackWall(surfaces);
+  });
+
+  it('does not snap the back wall to furniture and wall art', () => {
+    const surfaces = estimateRoomLayout(createRoom(Object.values(FURNITURE)));
+    expectBackWall(surfaces);
+  });
+
+  it('lets the back wall reach the image border when no corners are visible', () => {
+    const room = createRoom();
+    // Crop to the back wall's columns so only the ceiling and floor lines remain
+    const width = BACK_WALL.width;
+    const data = new Uint8ClampedArray(width * room.height * 4);
+    for (let y = 0; y < room.height; y++) {
+      data.set(room.data.subarray((y * room.width + BACK_WALL.x) * 4, (y * room.width + BACK_WALL.x + width) * 4), y * width * 4);
+    }
+    const surfaces = estimateRoomLayout({ data, width, height: room.height });
+    const backWall = surfaces.find(surface => surface.label === 'back-wall')!;
+    expect(Math.min(...backWall.polygon.map(point => point.x))).toBe(0);
+    expect(Math.max(...backWall.polygon.map(point => point.x))).toBe(width);
+    expect(surfaces.some(surface => surface.label === 'left-wall')).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import type { DetectedOpening } from '@/lib/opening-detection';
+import { createPerspectivePlane } from '@/lib/perspective';
+import {
+  calibrateFromLine,
+  estimateCalibration,
+  formatLength,
+  getTileHeight,
+  measureLine,
+  measureSurface,
+} from '@/lib/scale-calibration';
+import { createEmptyMask, createRectangleMask } from '@/lib/wall-mask';
+
+const WIDTH = 800;
+const HEIGHT = 600;
+// Back wall 300 px from ceiling to floor
+const WALL_BOUNDS = { x: 200, y: 100, width: 400, height: 300 };
+
+function createDoor(surfaceId: string, bounds: DetectedOpening['bounds']): DetectedOpening {
+  return { id: 'door-1', type: 'door', surfaceId, confidence: 1, bounds, mask: createEmptyMask(bounds.width, bounds.height) };
+}
+
+describe('estimateCalibration', () => {
+  const wallMask = createRectangleMask(WIDTH, HEIGHT, WALL_BOUNDS);
+  const surfaces = [{ id: 'back-wall', label: 'back-wall' as const, mask: wallMask }];
+
+  it('sizes the walls from a door standing on the floor', () => {
+    // The door reaches three quarters of the way up the wall, so the wall is 4/3 of a 203 cm door
+    const door = createDoor('back-wall', { x: 300, y: 175, width: 90, height: 225 });
+    const calibration = estimateCalibration([door], surfaces);
+
+    expect(calibration.source).toBe('door');
+    expect(calibration.wallHeight).toBeCloseTo((203 * 4) / 3, 6);
+    expect(calibration.cmPerPixel).toBeCloseTo(calibration.wallHeight / WALL_BOUNDS.height, 6);
+  });
+
+  it('measures a door cut out of the wall mask the same way', () => {
+    const door = createDoor('back-wall', { x: 300, y: 175, width: 90, height: 225 });
+    const mask = createRectangleMask(WIDTH, HEIGHT, WALL_BOUNDS);
+    for (let y = 175; y < 400; y++) {
+      for (let x = 300; x < 390; x++) mask.data[(y * WIDTH + x) * 4 + 3] = 0;
+    }
+    const calibration = estimateCalibration([door], [{ id: 'back-wall', label: 'back-wall', mask }]);
+    expect(calibration.wallHeight).toBeCloseTo((203 * 4) / 3, 6);
+  });
+
+  it('falls back to a standard ceiling height without a door on a wall', () => {
+    const floor = { id: 'floor', label: 'floor' as const, mask: createRectangleMask(WIDTH, HEIGHT, { x: 0, y: 400, width: WIDTH, height: 200 }) };
+    const door = createDoor('floor', { x: 300, y: 450, width: 90, height: 100 });
+    const calibration = estimateCalibration([door], [...surfaces, floor]);
+
+    expect(calibration.source).toBe('ceiling');
+    expect(calibration.wallHeight).toBe(244);
+    expect(calibration.cmPerPixel).toBeCloseTo(244 / WALL_BOUNDS.height, 6);
+  });
+});
+
+describe('calibrateFromLine', () => {
+  it('scales a frontal wall from a reference line and measures other lines on it', () => {
+    const corners = [{ x: 200, y: 100 }, { x: 600, y: 100 }, { x: 600, y: 400 }, { x: 200, y: 400 }];
+    const plane = createPerspectivePlane('back-wall', 'back-wall', corners, WIDTH, HEIGHT);
+    // 90 cm across 120 px
+    const calibration = calibrateFromLine({ x: 250, y: 300 }, { x: 370, y: 300 }, 90, plane, 300)!;
+
+    expect(calibration.source).toBe('reference');
+    expect(calibration.wallHeight).toBeCloseTo(225, 6);
+    expect(measureLine({ x: 400, y: 150 }, { x: 400, y: 350 }, calibration, plane)).toBeCloseTo(150, 6);
+    expect(measureSurface(calibration, plane, { width: 400, height: 300 })).toEqual({ width: expect.closeTo(300, 6), height: expect.closeTo(225, 6) });
+  });
+
+  it('measures along a receding wall, so its near and far edges are the same height', () => {
+    const corners = [{ x: 300, y: 100 }, { x: 700, y: 0 }, { x: 700, y: 600 }, { x: 300, y: 500 }];
+    const plane = createPerspectivePlane('right-wall', 'right-wall', corners, WIDTH, HEIGHT);
+    const calibration = calibrateFromLine(corners[1], corners[2], 250, plane, 600)!;
+
+    expect(calibration.wallHeight).toBeCloseTo(250, 6);
+    expect(measureLine(corners[0], corners[3], calibration, plane)).toBeCloseTo(250, 6);
+  });
+
+  it('uses the pixel size on walls without a plane, and rejects empty lines', () => {
+    const calibration = calibrateFromLine({ x: 0, y: 0 }, { x: 0, y: 200 }, 100, null, 480)!;
+    expect(calibration.wallHeight).toBeCloseTo(240, 6);
+    expect(measureSurface(calibration, null, { width: 300, height: 480 })).toEqual({ width: 150, height: 240 });
+
+    expect(calibrateFromLine({ x: 5, y: 5 }, { x: 5, y: 5 }, 100, null, 480)).toBeNull();
+    expect(calibrateFromLine({ x: 0, y: 0 }, { x: 0, y: 200 }, 0, null, 480)).toBeNull();
+  });
+});
+
+describe('getTileHeight and formatLength', () => {
+  it('gives a design its share of the wall and formats lengths per unit', () => {
+    const calibration = { source: 'ceiling' as const, wallHeight: 250, cmPerPixel: 1 };
+    expect(getTileHeight({ width: 20, height: 25 }, calibration)).toBeCloseTo(0.1, 9);
+
+    expect(formatLength(203.2, 'in')).toBe('80 in');
+    expect(formatLength(2.54, 'in')).toBe('1.0 in');
+    expect(formatLength(7.25, 'cm')).toBe('7.3 cm');
+    expect(formatLength(244, 'cm')).toBe('244 cm');
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { prepareSeamlessTile } from '@/lib/seamless-tile';
+
+const DARK = 40;
+const LIGHT = 220;
+
+// Vertical stripes, half of each period dark and half light, or a checkerboard when periodY is given
+function createStripes(width: number, height: number, period: number, periodY?: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = periodY !== undefined && y % periodY >= periodY / 2;
+      const value = (x % period < period / 2) !== row ? DARK : LIGHT;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+// Largest difference between the tile and itself shifted by a period, wrapping around the tile's
+// edges: zero when the pattern continues across the seams and through the blended bands
+function seamError(tile: PixelBuffer, periodX: number, periodY = 0): number {
+  let worst = 0;
+  for (let y = 0; y < tile.height; y++) {
+    for (let x = 0; x < tile.width; x++) {
+      const a = tile.data[(y * tile.width + x) * 4];
+      const b = tile.data[(((y + periodY) % tile.height) * tile.width + ((x + periodX) % tile.width)) * 4];
+      worst = Math.max(worst, Math.abs(a - b));
+    }
+  }
+  return worst;
+}
+
+describe('prepareSeamlessTile', () => {
+  it.each([
+    [300, 20], // 15 repeats
+    [200, 20], // 10 repeats
+    [100, 20], // 5 repeats
+    [200, 40], // 5 repeats
+  ])('keeps %i px of %i px stripes continuous across the tile seams', (width, period) => {
+    const { tile } = prepareSeamlessTile(createStripes(width, 60, period));
+
+    expect(tile.width % period).toBe(0);
+    expect(seamError(tile, period)).toBeLessThanOrEqual(4);
+  });
+
+  it('keeps a checkerboard with an odd number of repeats continuous on both axes', () => {
+    const { tile, period } = prepareSeamlessTile(createStripes(150, 90, 30, 30));
+
+    expect(period).toEqual({ x: 30, y: 30 });
+    expect(seamError(tile, 30)).toBeLessThanOrEqual(4);
+    expect(seamError(tile, 0, 30)).toBeLessThanOrEqual(4);
+  });
+
+  it.each([8, 20, 33])('detects %i px stripes and no vertical repeat', (stripePeriod) => {
+    const { period } = prepareSeamlessTile(createStripes(240, 120, stripePeriod));
+    expect(period).toEqual({ x: stripePeriod, y: null });
+  });
+
+  it('finds no repeat in a flat swatch and keeps its full size', () => {
+    const flat = createStripes(120, 80, 1);
+    const { tile, period } = prepareSeamlessTile(flat);
+
+    expect(period).toEqual({ x: null, y: null });
+    expect([tile.width, tile.height]).toEqual([120, 80]);
+  });
+
+  it('finds no repeat in a swatch lit by a gradient', () => {
+    const data = new Uint8ClampedArray(160 * 100 * 4);
+    for (let y = 0; y < 100; y++) {
+      for (let x = 0; x < 160; x++) data.set([80 + x, 60 + x, 120, 255], (y * 160 + x) * 4);
+    }
+    expect(prepareSeamlessTile({ data, width: 160, height: 100 }).period).toEqual({ x: null, y: null });
+  });
+});
@@ -0,0 +1,65 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+// Hosts under mapped.test resolve to the IPv4-mapped IPv6 address in their first label
+vi.mock('dns', async (importOriginal) => {
+  const dns = await importOriginal<typeof import('dns')>();
+  const lookup = (hostname: string, options: object, callback: (...args: unknown[]) => void) => {
+    if (!hostname.endsWith('.mapped.test')) return dns.lookup(hostname, options, callback);
+    const address = hostname.split('.')[0].replace(/-/g, ':').replace(/_/g, '.');
+    callback(null, [{ address, family: 6 }]);
+  };
+  return { ...dns, default: { ...dns, lookup }, lookup };
+});
+
+// The allowlist is read from the environment when the config loads
+async function loadDecoder(remoteHosts: string) {
+  vi.resetModules();
+  vi.stubEnv('IMAGE_REMOTE_HOSTS', remoteHosts);
+  const { decodeImage } = await import('@/lib/server-image');
+  vi.unstubAllEnvs();
+  return decodeImage;
+}
+
+describe('decodeImage with remote URLs', () => {
+  let server: Server;
+  let port = 0;
+  let requests = 0;
+
+  beforeAll(async () => {
+    server = createServer((_request, response) => {
+      requests++;
+      response.end('not an image');
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  it('refuses hosts outside the allowlist', async () => {
+    const decodeImage = await loadDecoder('images.example.com');
+    await expect(decodeImage('https://elsewhere.example.com/room.jpg')).rejects.toThrow('not allowed');
+    await expect(decodeImage('https://example.com/room.jpg')).rejects.toThrow('not allowed');
+  });
+
+  it('refuses allowed hosts that are or resolve to private addresses', async () => {
+    const decodeImage = await loadDecoder('localhost,127.0.0.1,169.254.169.254,::1');
+    await expect(decodeImage(`http://localhost:${port}/room.jpg`)).rejects.toThrow('private address');
+    await expect(decodeImage(`http://127.0.0.1:${port}/room.jpg`)).rejects.toThrow('private address');
+    await expect(decodeImage('http://169.254.169.254/latest/meta-data')).rejects.toThrow('private address');
+    await expect(decodeImage(`http://[::1]:${port}/room.jpg`)).rejects.toThrow('private address');
+    expect(requests).toBe(0);
+  });
+
+  it('refuses IPv4-mapped IPv6 addresses of private hosts in dotted and hex form', async () => {
+    const decodeImage = await loadDecoder('::ffff:7f00:1,::ffff:a00:1,*.mapped.test');
+    await expect(decodeImage(`http://[::ffff:127.0.0.1]:${port}/room.jpg`)).rejects.toThrow('private address');
+    await expect(decodeImage(`http://[::ffff:7f00:1]:${port}/room.jpg`)).rejects.toThrow('private address');
+    await expect(decodeImage('http://[::ffff:10.0.0.1]/room.jpg')).rejects.toThrow('private address');
+    await expect(decodeImage(`http://--ffff-127_0_0_1.mapped.test:${port}/room.jpg`)).rejects.toThrow('private address');
+    await expect(decodeImage(`http://--ffff-7f00-1.mapped.test:${port}/room.jpg`)).rejects.toThrow('private address');
+    expect(requests).toBe(0);
+  });
+});
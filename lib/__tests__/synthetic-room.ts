@@ -0,0 +1,188 @@
+// Synthetic one-point-perspective room photos for the analysis tests: an 800 × 600 room box with
+// flat-shaded surfaces, optional windows, doors, furniture and fixtures, mild noise and a slight blur
+// so edges are anti-aliased like a real photo
+
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import type { MaskBounds } from '@/lib/wall-mask';
+
+export type Color = [number, number, number];
+
+export const ROOM_WIDTH = 800;
+export const ROOM_HEIGHT = 600;
+// Back wall of the room box; the other surfaces run from its corners to the image corners
+export const BACK_WALL: MaskBounds = { x: 200, y: 150, width: 400, height: 300 };
+
+export const WALL_COLOR: Color = [186, 178, 166];
+const SURFACE_COLORS: Record<'ceiling' | 'floor' | 'left' | 'right', Color> = {
+  ceiling: [214, 212, 208],
+  floor: [120, 90, 64],
+  left: [160, 152, 140],
+  right: [148, 140, 128],
+};
+
+export type RoomFeature =
+  | { kind: 'window'; bounds: MaskBounds }
+  | { kind: 'door'; bounds: MaskBounds }
+  | { kind: 'sofa'; bounds: MaskBounds }
+  | { kind: 'cabinet'; bounds: MaskBounds }
+  | { kind: 'tv'; bounds: MaskBounds }
+  | { kind: 'frame'; bounds: MaskBounds }
+  | { kind: 'radiator'; bounds: MaskBounds }
+  | { kind: 'outlet'; bounds: MaskBounds }
+  | { kind: 'switch'; bounds: MaskBounds }
+  | { kind: 'shadow'; bounds: MaskBounds };
+
+// Fixtures of the furnished test room, all on the back wall
+export const FURNITURE = {
+  sofa: { kind: 'sofa', bounds: { x: 300, y: 370, width: 170, height: 100 } },
+  tv: { kind: 'tv', bounds: { x: 500, y: 200, width: 80, height: 45 } },
+  frame: { kind: 'frame', bounds: { x: 298, y: 188, width: 94, height: 74 } },
+  outlet: { kind: 'outlet', bounds: { x: 240, y: 420, width: 12, height: 16 } },
+} satisfies Record<string, RoomFeature>;
+
+// The vanishing point is the back wall's centre, so the junctions run from the back wall's corners
+// away from it (to the image corners for the default back wall)
+export function createRoom(
+  features: RoomFeature[] = [],
+  options: { backWall?: MaskBounds; floor?: Color; seed?: number } = {}
+): PixelBuffer {
+  const width = ROOM_WIDTH;
+  const height = ROOM_HEIGHT;
+  const backWall = options.backWall ?? BACK_WALL;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const cx = backWall.x + backWall.width / 2;
+  const cy = backWall.y + backWall.height / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Back wall where |u|, |v| < 1; past it the diagonals to the image corners split the rest
+      const u = (x + 0.5 - cx) / (backWall.width / 2);
+      const v = (y + 0.5 - cy) / (backWall.height / 2);
+      let color = WALL_COLOR;
+      if (Math.abs(u) >= 1 || Math.abs(v) >= 1) {
+        if (Math.abs(v) >= Math.abs(u)) color = v < 0 ? SURFACE_COLORS.ceiling : options.floor ?? SURFACE_COLORS.floor;
+        else color = u < 0 ? SURFACE_COLORS.left : SURFACE_COLORS.right;
+      }
+      setPixel(data, width, x, y, color);
+    }
+  }
+
+  const buffer = { data, width, height };
+  for (const feature of features) paintFeature(buffer, feature);
+  addNoise(buffer, options.seed ?? 1);
+  return blur(buffer);
+}
+
+function paintFeature(buffer: PixelBuffer, feature: RoomFeature): void {
+  const { x, y, width, height } = feature.bounds;
+  switch (feature.kind) {
+    case 'window':
+      fillRect(buffer, feature.bounds, [70, 60, 50]);
+      // Daylight through the glass
+      fillRect(buffer, inset(feature.bounds, 6), [250, 252, 255]);
+      // Mullion
+      fillRect(buffer, { x: x + Math.floor(width / 2) - 2, y, width: 4, height }, [70, 60, 50]);
+      break;
+    case 'door':
+      fillRect(buffer, feature.bounds, [120, 84, 52]);
+      fillRect(buffer, inset(feature.bounds, 4), [150, 108, 70]);
+      fillRect(buffer, { x: x + width - 14, y: y + Math.floor(height / 2), width: 6, height: 6 }, [200, 180, 90]);
+      break;
+    case 'sofa':
+      fillRect(buffer, feature.bounds, [88, 104, 132]);
+      // Seat cushions, softly shaded
+      fillRect(buffer, { x: x + 8, y: y + Math.floor(height * 0.45), width: width - 16, height: 4 }, [80, 95, 122]);
+      break;
+    case 'cabinet':
+      fillRect(buffer, feature.bounds, [120, 90, 60]);
+      for (let door = 1; door < 3; door++) {
+        fillRect(buffer, { x: x + Math.floor((door * width) / 3) - 1, y, width: 2, height }, [70, 50, 34]);
+      }
+      break;
+    case 'tv':
+      fillRect(buffer, feature.bounds, [20, 20, 24]);
+      break;
+    case 'frame':
+      fillRect(buffer, feature.bounds, [92, 64, 40]);
+      // A colorful picture inside the frame
+      for (let row = 6; row < height - 6; row++) {
+        for (let col = 6; col < width - 6; col++) {
+          const t = col / width;
+          setPixel(buffer.data, buffer.width, x + col, y + row, [60 + 160 * t, 140 - 60 * t, 90 + 100 * (row / height)]);
+        }
+      }
+      break;
+    case 'radiator':
+      fillRect(buffer, feature.bounds, [236, 236, 236]);
+      for (let col = 3; col < width - 3; col += 8) {
+        fillRect(buffer, { x: x + col, y: y + 3, width: 3, height: height - 6 }, [218, 218, 220]);
+      }
+      break;
+    case 'outlet':
+    case 'switch':
+      fillRect(buffer, feature.bounds, [246, 246, 242]);
+      break;
+    case 'shadow':
+      // Contact shadow along a junction, a couple of pixels wide
+      fillRect(buffer, feature.bounds, [40, 36, 32]);
+      break;
+  }
+}
+
+function inset(bounds: MaskBounds, by: number): MaskBounds {
+  return { x: bounds.x + by, y: bounds.y + by, width: bounds.width - 2 * by, height: bounds.height - 2 * by };
+}
+
+function fillRect(buffer: PixelBuffer, bounds: MaskBounds, color: Color): void {
+  for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+    for (let x = bounds.x; x < bounds.x + bounds.width; x++) setPixel(buffer.data, buffer.width, x, y, color);
+  }
+}
+
+function setPixel(data: Uint8ClampedArray, width: number, x: number, y: number, color: Color): void {
+  const idx = (y * width + x) * 4;
+  data[idx] = color[0];
+  data[idx + 1] = color[1];
+  data[idx + 2] = color[2];
+  data[idx + 3] = 255;
+}
+
+// ±2 levels of luminance noise, seeded so tests are repeatable
+function addNoise(buffer: PixelBuffer, seed: number): void {
+  let state = seed >>> 0;
+  for (let i = 0; i < buffer.width * buffer.height; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    const noise = (state >>> 24) % 5 - 2;
+    for (let ch = 0; ch < 3; ch++) buffer.data[i * 4 + ch] += noise;
+  }
+}
+
+// 3 × 3 box blur
+function blur(buffer: PixelBuffer): PixelBuffer {
+  const { width, height, data } = buffer;
+  const output = new Uint8ClampedArray(data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const sum = [0, 0, 0];
+      let count = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const sx = x + dx;
+          const sy = y + dy;
+          if (sx < 0 || sy < 0 || sx >= width || sy >= height) continue;
+          const idx = (sy * width + sx) * 4;
+          sum[0] += data[idx];
+          sum[1] += data[idx + 1];
+          sum[2] += data[idx + 2];
+          count++;
+        }
+      }
+      const idx = (y * width + x) * 4;
+      output[idx] = sum[0] / count;
+      output[idx + 1] = sum[1] / count;
+      output[idx + 2] = sum[2] / count;
+      output[idx + 3] = 255;
+    }
+  }
+  return { data: output, width, height };
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { runAnalysis } from '@/lib/analysis-pool';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { quiltTexture } from '@/lib/texture-synthesis';
+
+const STRIPE_PERIOD = 8;
+
+// Vertical stripes repeating every STRIPE_PERIOD pixels, each column a different shade
+function createStripes(width: number, height: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const shade = (x % STRIPE_PERIOD) * 30;
+      data.set([shade, 255 - shade, 80, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+// Seeded noise, so no two swatch pixels line up by accident
+function createNoise(width: number, height: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  let state = 12345;
+  for (let i = 0; i < data.length; i++) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    data[i] = i % 4 === 3 ? 255 : state >>> 24;
+  }
+  return { data, width, height };
+}
+
+function pixelAt(buffer: PixelBuffer, x: number, y: number): number[] {
+  const idx = (y * buffer.width + x) * 4;
+  return Array.from(buffer.data.subarray(idx, idx + 4));
+}
+
+describe('quiltTexture', () => {
+  it('crops a swatch that already covers the requested size', () => {
+    const swatch = createNoise(40, 30);
+    const texture = quiltTexture(swatch, 25.4, 19.6);
+
+    expect([texture.width, texture.height]).toEqual([25, 20]);
+    expect(pixelAt(texture, 24, 19)).toEqual(pixelAt(swatch, 24, 19));
+  });
+
+  it('fills the whole texture with swatch pixels, the same way for the same seed', () => {
+    const swatch = createNoise(48, 48);
+    const texture = quiltTexture(swatch, 150, 110, { seed: 7 });
+
+    expect([texture.width, texture.height]).toEqual([150, 110]);
+    const swatchPixels = new Set<string>();
+    for (let y = 0; y < swatch.height; y++) {
+      for (let x = 0; x < swatch.width; x++) swatchPixels.add(pixelAt(swatch, x, y).join());
+    }
+    for (let y = 0; y < texture.height; y++) {
+      for (let x = 0; x < texture.width; x++) expect(swatchPixels.has(pixelAt(texture, x, y).join())).toBe(true);
+    }
+
+    expect(quiltTexture(swatch, 150, 110, { seed: 7 }).data).toEqual(texture.data);
+    expect(quiltTexture(swatch, 150, 110, { seed: 8 }).data).not.toEqual(texture.data);
+  });
+
+  it('lines patches up so a periodic swatch continues across the seams', () => {
+    const texture = quiltTexture(createStripes(64, 64), 200, 160);
+
+    let broken = 0;
+    for (let y = 0; y < texture.height; y++) {
+      for (let x = 0; x + STRIPE_PERIOD < texture.width; x++) {
+        if (pixelAt(texture, x, y).join() !== pixelAt(texture, x + STRIPE_PERIOD, y).join()) broken++;
+      }
+    }
+    expect(broken).toBe(0);
+  });
+
+  it('quilts through the analysis pool as a job of its own', async () => {
+    const swatch = createNoise(48, 48);
+    const texture = await runAnalysis('quilt', { ...swatch, data: swatch.data.slice() }, { size: { width: 120, height: 90 } });
+    expect(texture).toEqual(quiltTexture(swatch, 120, 90));
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { createRectangleMask, dilateBinary, erodeBinary, refineMaskEdges } from '@/lib/wall-mask';
+import { BACK_WALL, createRoom } from './synthetic-room';
+
+// A gray guide image, darker left of edgeX and lighter from it on (or flat without an edge)
+function createGuide(width: number, height: number, edgeX: number | null): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = edgeX !== null && x >= edgeX ? 200 : 60;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+}
+
+// Matte coverage along row y, from x0 up to (not including) x1
+function coverageRow(matte: PixelBuffer, y: number, x0: number, x1: number): number[] {
+  return Array.from({ length: x1 - x0 }, (_, i) => matte.data[(y * matte.width + x0 + i) * 4 + 3]);
+}
+
+describe('refineMaskEdges', () => {
+  it('feathers a mask edge across a flat part of the photo', () => {
+    const mask = createRectangleMask(80, 40, { x: 0, y: 0, width: 40, height: 40 });
+    const row = coverageRow(refineMaskEdges(mask, createGuide(80, 40, null), { radius: 4 }), 20, 28, 52);
+
+    expect(row[0]).toBe(255);
+    expect(row[row.length - 1]).toBe(0);
+    expect(row.every((value, i) => i === 0 || value <= row[i - 1])).toBe(true);
+    // A gradual ramp rather than a step: several partially covered pixels on each side of the edge
+    expect(row.slice(0, 12).filter(value => value > 0 && value < 255).length).toBeGreaterThanOrEqual(4);
+    expect(row.slice(12).filter(value => value > 0 && value < 255).length).toBeGreaterThanOrEqual(4);
+  });
+
+  it('keeps a mask edge crisp where it follows an edge in the photo', () => {
+    const mask = createRectangleMask(80, 40, { x: 0, y: 0, width: 40, height: 40 });
+    const row = coverageRow(refineMaskEdges(mask, createGuide(80, 40, 40), { radius: 4 }), 20, 28, 52);
+
+    expect(Math.min(...row.slice(0, 12))).toBeGreaterThan(245);
+    expect(Math.max(...row.slice(12))).toBeLessThan(10);
+  });
+
+  it('fits the matte at display resolution without losing the wall edges', () => {
+    const room = createRoom();
+    // A rough wall mask that overshoots the back wall by a few pixels on every side
+    const mask = createRectangleMask(room.width, room.height, {
+      x: BACK_WALL.x - 3,
+      y: BACK_WALL.y - 3,
+      width: BACK_WALL.width + 6,
+      height: BACK_WALL.height + 6,
+    });
+    const truth = createRectangleMask(room.width, room.height, BACK_WALL);
+    const error = (matte: PixelBuffer) => {
+      let sum = 0;
+      for (let idx = 3; idx < matte.data.length; idx += 4) sum += Math.abs(matte.data[idx] - truth.data[idx]);
+      return sum / 255;
+    };
+    const scaled = refineMaskEdges(mask, room, { scale: 0.5 });
+    expect(error(scaled)).toBeLessThan(error(refineMaskEdges(mask, room)) * 1.1);
+
+    const coverage = (x: number, y: number) => scaled.data[(y * room.width + x) * 4 + 3];
+    expect(coverage(BACK_WALL.x + 200, BACK_WALL.y + 150)).toBe(255);
+    expect(coverage(BACK_WALL.x + 200, BACK_WALL.y - 10)).toBe(0);
+  });
+});
+
+describe('dilateBinary and erodeBinary', () => {
+  it('close a one-pixel gap and remove a thin strip', () => {
+    const width = 20;
+    const height = 10;
+    const binary = new Uint8Array(width * height);
+    for (let y = 2; y < 8; y++) {
+      for (let x = 2; x < 18; x++) if (x !== 9) binary[y * width + x] = 1;
+    }
+    const closed = erodeBinary(dilateBinary(binary, width, height, 1), width, height, 1);
+    expect(closed[5 * width + 9]).toBe(1);
+
+    const strip = new Uint8Array(width * height);
+    for (let x = 0; x < width; x++) strip[4 * width + x] = strip[5 * width + x] = 1;
+    const opened = dilateBinary(erodeBinary(strip, width, height, 1), width, height, 1);
+    expect(opened.some(value => value === 1)).toBe(false);
+  });
+});
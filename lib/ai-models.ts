@@ -1,11 +1,45 @@
 // AI Model utilities for wall segmentation, style transfer, depth estimation, and color palette extraction
 // Production-ready with fallbacks and error handling
 
+import { cachedAnalysis } from '@/lib/analysis-cache';
+import { extractPalette } from '@/lib/color-palette';
+import { generateColorHarmony, type ColorHarmony } from '@/lib/color-harmony';
+import { estimateGeometricDepth, type DepthBuffer } from '@/lib/depth-map';
+import { detectLines, type DetectedLine } from '@/lib/line-detection';
+import {
+  getLoadedModels,
+  getModel,
+  HEURISTIC_PROVIDER_ID,
+  loadModel,
+  MODEL_CAPABILITIES,
+  registerModelProvider,
+  type DepthMap,
+  type LoadedModel,
+  type ModelProvider,
+  type ProgressCallback,
+} from '@/lib/model-providers';
+import { detectInteriorObjects } from '@/lib/object-detection';
+import { detectOpenings, type DetectedOpening } from '@/lib/opening-detection';
+import { estimatePerspective, type PerspectiveEstimate } from '@/lib/perspective';
+import { toImageData, type PixelBuffer } from '@/lib/pixel-buffer';
+import { estimateRoomLayout, WALL_LABELS, type LayoutSurface } from '@/lib/room-layout';
+import { quiltTexture } from '@/lib/texture-synthesis';
+import {
+  combineMasks,
+  createEmptyMask,
+  getMaskBounds,
+  rasterizePolygon,
+} from '@/lib/wall-mask';
+
 // Check if we're on the client side
 const isClient = typeof window !== 'undefined';
 
+export interface SegmentedSurface extends LayoutSurface {
+  mask: PixelBuffer;
+}
+
 export interface SegmentationResult {
-  mask: ImageData;
+  mask: PixelBuffer; // union of all wall surfaces
   confidence: number;
   bounds: {
     x: number;
@@ -20,6 +54,9 @@ export interface SegmentationResult {
     height: number;
     confidence: number;
   }>;
+  surfaces: SegmentedSurface[];
+  lines: DetectedLine[]; // straight boundaries found in the photo
+  openings: DetectedOpening[]; // windows and doors, to be kept free of designs
 }
 
 export interface StyleTransferResult {
@@ -29,51 +66,90 @@ export interface StyleTransferResult {
 }
 
 export interface DepthEstimationResult {
-  depthMap: number[][];
+  depthMap: DepthBuffer; // 0 (near) - 1 (far), downsampled
   minDepth: number;
   maxDepth: number;
-  perspectiveCorrection: {
-    angle: number;
-    transform: number[][];
-  };
+  perspective: PerspectiveEstimate;
 }
 
 export interface ColorPaletteResult {
-  colors: string[]; // hex color strings
-  dominantColor: string;
-  colorHarmony: {
-    complementary: string;
-    analogous: string[];
-    triadic: string[];
-  };
+  colors: string[]; // hex color strings, most common first
+  shares: number[]; // share of the image covered by each color (0-1)
+  dominantColor: string | null; // most common color, counting wall pixels more; null without opaque pixels
+  colorHarmony: ColorHarmony | null; // schemes around the dominant color
+}
+
+export interface DetectedObject {
+  label: string;
+  confidence: number;
+  bbox: [number, number, number, number]; // x, y, width, height in source-image pixels
+  mask?: PixelBuffer; // coverage cropped to bbox
 }
 
 export interface ObjectDetectionResult {
-  objects: Array<{
-    label: string;
-    confidence: number;
-    bbox: [number, number, number, number];
-  }>;
+  objects: DetectedObject[];
 }
 
-// Initialize AI models with fallback
-export async function initializeAIModels(): Promise<boolean> {
-  if (!isClient) {
-    console.warn('AI models can only be initialized on the client side');
-    return false;
-  }
+// An image URL (decoded in the browser) or pixels already decoded, e.g. on the server
+// Every analysis the editor runs on a photo, computed together in one pass
+export interface RoomAnalysisResult {
+  segmentation: SegmentationResult;
+  objects: ObjectDetectionResult;
+  depth: DepthEstimationResult;
+  palette: ColorPaletteResult;
+}
+
+export type ImageSource = string | PixelBuffer;
+
+export interface ModelStatus {
+  initialized: boolean;
+  models: LoadedModel[];
+}
+
+interface RoomGeometry {
+  edges: Uint8ClampedArray;
+  lines: DetectedLine[];
+  layout: LayoutSurface[];
+  perspective: PerspectiveEstimate;
+}
+
+interface RoomSurfaces {
+  surfaces: SegmentedSurface[];
+  walls: SegmentedSurface[];
+  openings: DetectedOpening[];
+}
 
+// Depth and perspective estimation share one geometric analysis of each image
+const roomGeometry = new WeakMap<PixelBuffer, RoomGeometry>();
+// Segmentation and object detection share the surface masks and openings built on it
+const roomSurfaces = new WeakMap<PixelBuffer, RoomSurfaces>();
+
+// Built-in heuristics: always available and the fallback for every other provider
+const heuristicProvider: ModelProvider = {
+  id: HEURISTIC_PROVIDER_ID,
+  name: 'Built-in heuristics',
+  version: '1.0.0',
+  backend: 'heuristic',
+  segment: async (imageData, onProgress) => segmentSurfaces(imageData, onProgress),
+  estimateDepth: async (imageData, onProgress) => estimateDepthMap(imageData, onProgress),
+  extractPalette: async (imageData, colorCount, onProgress) => clusterPalette(imageData, colorCount, onProgress),
+  detectObjects: async (imageData, onProgress) => {
+    onProgress?.(10, 'Finding furniture and fixtures');
+    return { objects: detectRoomObjects(imageData) };
+  },
+};
+
+registerModelProvider(heuristicProvider);
+
+let modelsInitialized = false;
+
+// Load the provider configured for each capability, falling back to the heuristics; getModelStatus() reports the result
+export async function initializeAIModels(): Promise<boolean> {
   try {
-    console.log('Initializing AI models...');
-    
-    // For production, you would load actual ML models here
-    // For now, we'll use a simplified approach that always succeeds
-    // but indicates that we're using fallback methods
-    
-    // Simulate model loading delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    console.log('AI models initialized (using fallback methods)');
+    for (const capability of MODEL_CAPABILITIES) {
+      await loadModel(capability);
+    }
+    modelsInitialized = true;
     return true;
   } catch (error) {
     console.error('Failed to initialize AI models:', error);
@@ -84,7 +160,7 @@ export async function initializeAIModels(): Promise<boolean> {
 // Convert image to canvas for processing
 async function imageToCanvas(imageUrl: string): Promise<HTMLCanvasElement> {
   if (!isClient) {
-    throw new Error('Image processing can only be done on the client side');
+    throw new Error('Image URLs can only be decoded on the client side; pass decoded pixels instead');
   }
 
   return new Promise((resolve, reject) => {
@@ -109,45 +185,80 @@ async function imageToCanvas(imageUrl: string): Promise<HTMLCanvasElement> {
   });
 }
 
-// Wall segmentation using image analysis
-export async function processWallSegmentation(imageUrl: string): Promise<SegmentationResult> {
-  if (!isClient) {
-    throw new Error('Wall segmentation can only be performed on the client side');
+// Resolve an image source to pixels; URLs can only be decoded in the browser
+export async function loadPixels(source: ImageSource): Promise<PixelBuffer> {
+  if (typeof source !== 'string') {
+    return source;
   }
+  
+  const canvas = await imageToCanvas(source);
+  const ctx = canvas.getContext('2d')!;
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
 
+// Wall segmentation with the configured provider, cached per image
+export async function processWallSegmentation(
+  image: ImageSource,
+  onProgress?: ProgressCallback
+): Promise<SegmentationResult> {
   try {
-    const canvas = await imageToCanvas(imageUrl);
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // Use simplified wall detection
-    const wallSegments = await detectWallSegments(imageData, canvas.width, canvas.height);
-    
-    // Create mask from wall segments
-    const mask = createWallMask(wallSegments, canvas.width, canvas.height);
-    
-    // Calculate bounds
-    const bounds = calculateBounds(wallSegments);
-    
-    return {
-      mask,
-      confidence: calculateConfidence(wallSegments),
-      bounds,
-      wallSegments,
-    };
+    const imageData = await loadPixels(image);
+    const model = await getModel('segmentation');
+    return await cachedAnalysis('segmentation', imageData, model, {}, () => model.segment(imageData, onProgress));
   } catch (error) {
     console.error('Wall segmentation error:', error);
     throw new Error('Failed to process wall segmentation');
   }
 }
 
-// Detect wall segments using edge detection and color analysis
-async function detectWallSegments(
-  imageData: ImageData, 
-  width: number,
-  height: number
-): Promise<Array<{x: number, y: number, width: number, height: number, confidence: number}>> {
-  const segments: Array<{x: number, y: number, width: number, height: number, confidence: number}> = [];
+// Heuristic segmentation: room-box layout plus per-surface color masks
+async function segmentSurfaces(imageData: PixelBuffer, onProgress?: ProgressCallback): Promise<SegmentationResult> {
+  const { width, height } = imageData;
+
+  // Straight room boundaries, the labeled surfaces snapped to them and the walls' openings
+  onProgress?.(5, 'Detecting lines and room layout');
+  const { lines, surfaces, walls, openings } = analyzeRoomSurfaces(imageData, onProgress);
+  
+  // Combined pixel mask of all wall surfaces
+  const mask = walls.reduce(
+    (combined, surface) => combineMasks(combined, surface.mask, 'add'),
+    createEmptyMask(width, height)
+  );
+  
+  return {
+    mask,
+    confidence: calculateConfidence(walls),
+    bounds: getMaskBounds(mask),
+    wallSegments: walls.map(surface => ({ ...getMaskBounds(surface.mask), confidence: surface.confidence })),
+    surfaces,
+    lines,
+    openings,
+  };
+}
+
+// Room geometry plus a color mask per surface and the openings in the walls, computed once per pixel buffer
+export function analyzeRoomSurfaces(imageData: PixelBuffer, onProgress?: ProgressCallback): RoomGeometry & RoomSurfaces {
+  const geometry = analyzeRoomGeometry(imageData);
+  const cached = roomSurfaces.get(imageData);
+  if (cached) return { ...geometry, ...cached };
+
+  const { edges, layout } = geometry;
+  const surfaces: SegmentedSurface[] = layout.map((surface, index) => {
+    onProgress?.(25 + (60 * index) / layout.length, 'Building surface masks');
+    return { ...surface, mask: createSurfaceMask(imageData, surface) };
+  });
+  const walls = surfaces.filter(surface => WALL_LABELS.includes(surface.label));
+
+  onProgress?.(85, 'Finding windows and doors');
+  const analysis = { surfaces, walls, openings: detectOpenings(imageData, edges, walls) };
+
+  roomSurfaces.set(imageData, analysis);
+  return { ...geometry, ...analysis };
+}
+
+// Sobel edge magnitude map (0-255 per pixel) of an image
+export function computeEdgeMap(imageData: PixelBuffer): Uint8ClampedArray {
+  const { width, height } = imageData;
   
   // Convert to grayscale for edge detection
   const grayData = new Uint8ClampedArray(width * height);
@@ -156,38 +267,7 @@ async function detectWallSegments(
     grayData[i / 4] = gray;
   }
   
-  // Simple edge detection using Sobel operator
-  const edges = detectEdges(grayData, width, height);
-  
-  // Find rectangular regions (potential walls)
-  const rectangles = findRectangles(edges, width, height);
-  
-  // Filter and validate wall candidates
-  for (const rect of rectangles) {
-    const confidence = validateWallCandidate(imageData.data, rect, width, height);
-    if (confidence > 0.3) {
-      segments.push({
-        x: rect.x,
-        y: rect.y,
-        width: rect.width,
-        height: rect.height,
-        confidence,
-      });
-    }
-  }
-  
-  // If no segments found, create a default one
-  if (segments.length === 0) {
-    segments.push({
-      x: width * 0.1,
-      y: height * 0.2,
-      width: width * 0.8,
-      height: height * 0.6,
-      confidence: 0.5,
-    });
-  }
-  
-  return segments;
+  return detectEdges(grayData, width, height);
 }
 
 // Edge detection using Sobel operator
@@ -215,147 +295,68 @@ function detectEdges(grayData: Uint8ClampedArray, width: number, height: number)
   return edges;
 }
 
-// Find rectangular regions in edge map
-function findRectangles(edges: Uint8ClampedArray, width: number, height: number): Array<{x: number, y: number, width: number, height: number}> {
-  const rectangles: Array<{x: number, y: number, width: number, height: number}> = [];
-  
-  // Simple rectangle detection using contour analysis
-  // This is a simplified version - in production, use more sophisticated algorithms
-  
-  for (let y = 0; y < height; y += 50) {
-    for (let x = 0; x < width; x += 50) {
-      const rect = findRectangleAtPoint(edges, x, y, width, height);
-      if (rect && rect.width > 100 && rect.height > 100) {
-        rectangles.push(rect);
-      }
-    }
-  }
-  
-  return rectangles;
-}
-
-// Find rectangle starting at a point
-function findRectangleAtPoint(edges: Uint8ClampedArray, startX: number, startY: number, width: number, height: number): {x: number, y: number, width: number, height: number} | null {
-  // Simplified rectangle detection
-  let maxWidth = 0;
-  let maxHeight = 0;
-  
-  // Find width
-  for (let x = startX; x < Math.min(startX + 200, width); x++) {
-    if (edges[startY * width + x] > 100) {
-      maxWidth = x - startX;
-      break;
-    }
-  }
-  
-  // Find height
-  for (let y = startY; y < Math.min(startY + 200, height); y++) {
-    if (edges[y * width + startX] > 100) {
-      maxHeight = y - startY;
-      break;
-    }
-  }
-  
-  if (maxWidth > 50 && maxHeight > 50) {
-    return {
-      x: startX,
-      y: startY,
-      width: maxWidth,
-      height: maxHeight,
-    };
-  }
-  
-  return null;
-}
-
-// Validate if a region is likely a wall
-function validateWallCandidate(
-  imageData: Uint8ClampedArray, 
-  rect: {x: number, y: number, width: number, height: number}, 
-  width: number, 
-  height: number
-): number {
-  let wallPixels = 0;
-  let totalPixels = 0;
-  
-  for (let y = rect.y; y < Math.min(rect.y + rect.height, height); y++) {
-    for (let x = rect.x; x < Math.min(rect.x + rect.width, width); x++) {
-      const idx = (y * width + x) * 4;
-      const r = imageData[idx];
-      const g = imageData[idx + 1];
-      const b = imageData[idx + 2];
-      
-      // Wall detection heuristics
-      const brightness = (r + g + b) / 3;
-      const saturation = Math.max(r, g, b) - Math.min(r, g, b);
-      
-      // Walls are typically:
-      // 1. Not too bright or too dark
-      // 2. Low saturation (neutral colors)
-      // 3. Similar colors in the region
-      if (brightness > 50 && brightness < 200 && saturation < 50) {
-        wallPixels++;
-      }
-      
-      totalPixels++;
+// Create a surface mask from its polygon, keeping only pixels that match the surface's dominant color
+function createSurfaceMask(imageData: PixelBuffer, surface: LayoutSurface): PixelBuffer {
+  const { width, height, data } = imageData;
+  const region = rasterizePolygon(surface.polygon, width, height);
+  
+  // Median color of the region (sampled) as the surface reference
+  const reds: number[] = [];
+  const greens: number[] = [];
+  const blues: number[] = [];
+  const step = Math.max(1, Math.floor((width * height) / 20000));
+  for (let idx = 0; idx < width * height; idx += step) {
+    const p = idx * 4;
+    if (region.data[p + 3] === 0) continue;
+    reds.push(data[p]);
+    greens.push(data[p + 1]);
+    blues.push(data[p + 2]);
+  }
+  if (reds.length === 0) return region;
+  
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  const reference: [number, number, number] = [median(reds), median(greens), median(blues)];
+  const referenceLuminance = Math.max(1, (reference[0] + reference[1] + reference[2]) / 3);
+  
+  const mask = createEmptyMask(width, height);
+  let regionPixels = 0;
+  let keptPixels = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    if (region.data[p + 3] === 0) continue;
+    regionPixels++;
+    
+    if (isSurfacePixel(data[p], data[p + 1], data[p + 2], reference, referenceLuminance)) {
+      mask.data[p] = mask.data[p + 1] = mask.data[p + 2] = mask.data[p + 3] = 255;
+      keptPixels++;
     }
   }
   
-  return totalPixels > 0 ? wallPixels / totalPixels : 0;
-}
-
-// Create wall mask from segments
-function createWallMask(
-  segments: Array<{x: number, y: number, width: number, height: number, confidence: number}>, 
-  width: number, 
-  height: number
-): ImageData {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d')!;
-  
-  // Clear canvas
-  ctx.fillStyle = 'rgba(0, 0, 0, 0)';
-  ctx.fillRect(0, 0, width, height);
-  
-  // Draw wall segments
-  ctx.fillStyle = 'rgba(255, 255, 255, 255)';
-  for (const segment of segments) {
-    ctx.fillRect(segment.x, segment.y, segment.width, segment.height);
-  }
-  
-  return ctx.getImageData(0, 0, width, height);
+  // Heavily patterned surfaces (wallpaper, tiles) don't have a single color: keep the whole polygon
+  return keptPixels < regionPixels * 0.2 ? region : mask;
 }
 
-// Calculate bounds from wall segments
-function calculateBounds(segments: Array<{x: number, y: number, width: number, height: number, confidence: number}>): {x: number, y: number, width: number, height: number} {
-  if (segments.length === 0) {
-    return { x: 0, y: 0, width: 0, height: 0 };
-  }
-  
-  let minX = segments[0].x;
-  let minY = segments[0].y;
-  let maxX = segments[0].x + segments[0].width;
-  let maxY = segments[0].y + segments[0].height;
-  
-  for (const segment of segments) {
-    minX = Math.min(minX, segment.x);
-    minY = Math.min(minY, segment.y);
-    maxX = Math.max(maxX, segment.x + segment.width);
-    maxY = Math.max(maxY, segment.y + segment.height);
-  }
-  
-  return {
-    x: minX,
-    y: minY,
-    width: maxX - minX,
-    height: maxY - minY,
-  };
+// Check whether a pixel matches a surface's reference color, tolerating shading
+function isSurfacePixel(
+  r: number,
+  g: number,
+  b: number,
+  reference: [number, number, number],
+  referenceLuminance: number
+): boolean {
+  const luminance = (r + g + b) / 3;
+  const ratio = luminance / referenceLuminance;
+  if (ratio < 0.45 || ratio > 1.6) return false;
+  
+  // Compare chromaticity so light falloff does not split the surface
+  const sum = Math.max(1, r + g + b);
+  const refSum = Math.max(1, reference[0] + reference[1] + reference[2]);
+  const dr = r / sum - reference[0] / refSum;
+  const dg = g / sum - reference[1] / refSum;
+  return Math.sqrt(dr * dr + dg * dg) < 0.05;
 }
 
 // Calculate confidence score
-function calculateConfidence(segments: Array<{x: number, y: number, width: number, height: number, confidence: number}>): number {
+function calculateConfidence(segments: Array<{confidence: number}>): number {
   if (segments.length === 0) return 0;
   
   const totalConfidence = segments.reduce((sum, seg) => sum + seg.confidence, 0);
@@ -364,9 +365,9 @@ function calculateConfidence(segments: Array<{x: number, y: number, width: numbe
 
 // Style transfer using simplified approach
 export async function applyStyleTransfer(
-  originalImageUrl: string,
-  styleImageUrl: string,
-  maskData?: ImageData
+  originalImage: ImageSource,
+  styleImage: ImageSource,
+  maskData?: PixelBuffer
 ): Promise<StyleTransferResult> {
   if (!isClient) {
     throw new Error('Style transfer can only be performed on the client side');
@@ -375,39 +376,14 @@ export async function applyStyleTransfer(
   const startTime = Date.now();
   
   try {
-    // Simplified style transfer - just blend the images
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
+    const original = await loadPixels(originalImage);
+    const style = await loadPixels(styleImage);
+    const blended = blendStyle(original, style, maskData);
     
-    // Load original image
-    const originalImg = new Image();
-    originalImg.crossOrigin = 'anonymous';
-    await new Promise((resolve, reject) => {
-      originalImg.onload = resolve;
-      originalImg.onerror = reject;
-      originalImg.src = originalImageUrl;
-    });
-    
-    canvas.width = originalImg.width;
-    canvas.height = originalImg.height;
-    
-    // Draw original image
-    ctx.drawImage(originalImg, 0, 0);
-    
-    // Apply simple blending effect
-    ctx.globalCompositeOperation = 'multiply';
-    ctx.globalAlpha = 0.3;
-    
-    // Load and draw style image
-    const styleImg = new Image();
-    styleImg.crossOrigin = 'anonymous';
-    await new Promise((resolve, reject) => {
-      styleImg.onload = resolve;
-      styleImg.onerror = reject;
-      styleImg.src = styleImageUrl;
-    });
-    
-    ctx.drawImage(styleImg, 0, 0, canvas.width, canvas.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = blended.width;
+    canvas.height = blended.height;
+    canvas.getContext('2d')!.putImageData(toImageData(blended), 0, 0);
     
     const resultUrl = canvas.toDataURL('image/jpeg', 0.9);
     
@@ -422,288 +398,182 @@ export async function applyStyleTransfer(
   }
 }
 
-// Depth estimation for perspective correction
-export async function estimateDepth(imageUrl: string): Promise<DepthEstimationResult> {
-  if (!isClient) {
-    throw new Error('Depth estimation can only be performed on the client side');
-  }
-
-  try {
-    const canvas = await imageToCanvas(imageUrl);
-    const width = canvas.width;
-    const height = canvas.height;
-    
-    // Create simple depth map based on image position
-    const depthMap = Array(height).fill(null).map(() => Array(width).fill(0.5));
-    
-    // Calculate perspective correction
-    const perspectiveCorrection = calculatePerspectiveCorrection(depthMap);
-    
-    return {
-      depthMap,
-      minDepth: 0.1,
-      maxDepth: 1.0,
-      perspectiveCorrection,
-    };
-  } catch (error) {
-    console.error('Depth estimation error:', error);
-    throw new Error('Failed to estimate depth');
-  }
-}
-
-// Calculate perspective correction transform
-function calculatePerspectiveCorrection(depthMap: number[][]): {angle: number, transform: number[][]} {
-  const height = depthMap.length;
-  const width = depthMap[0].length;
-  
-  // Calculate average depth for each row
-  const rowDepths = depthMap.map(row => row.reduce((sum, depth) => sum + depth, 0) / row.length);
-  
-  // Estimate tilt angle based on depth gradient
-  let angle = 0;
-  if (rowDepths.length > 1) {
-    const depthGradient = (rowDepths[rowDepths.length - 1] - rowDepths[0]) / rowDepths.length;
-    angle = Math.atan(depthGradient) * (180 / Math.PI);
+// Simplified style transfer: multiply the style image over the original at 30%, limited to the mask
+// when one is given. The style is quilted out to the original's size rather than stretched, so small
+// material swatches keep their scale
+export function blendStyle(original: PixelBuffer, style: PixelBuffer, mask?: PixelBuffer): PixelBuffer {
+  const { width, height } = original;
+  const result: PixelBuffer = { data: new Uint8ClampedArray(original.data), width, height };
+  const texture = quiltTexture(style, width, height);
+  const strength = 0.3;
+  
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const idx = (y * width + x) * 4;
+      const coverage = mask ? mask.data[idx + 3] / 255 : 1;
+      if (coverage === 0) continue;
+      
+      const alpha = strength * coverage * (texture.data[idx + 3] / 255);
+      for (let c = 0; c < 3; c++) {
+        const base = original.data[idx + c];
+        result.data[idx + c] = base * (1 - alpha) + ((base * texture.data[idx + c]) / 255) * alpha;
+      }
+    }
   }
   
-  // Create transformation matrix
-  const transform = [
-    [1, 0, 0],
-    [0, 1, 0],
-    [0, 0, 1],
-  ];
-  
-  return { angle, transform };
+  return result;
 }
 
-// Color palette extraction using clustering
-export async function extractColorPalette(imageUrl: string, colorCount: number = 5): Promise<ColorPaletteResult> {
-  if (!isClient) {
-    throw new Error('Color palette extraction can only be performed on the client side');
-  }
-
+// Depth estimation with the configured provider, plus the room's perspective planes, cached per image
+export async function estimateDepth(image: ImageSource, onProgress?: ProgressCallback): Promise<DepthEstimationResult> {
   try {
-    const canvas = await imageToCanvas(imageUrl);
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // Extract colors using k-means clustering
-    const colors = await extractColors(imageData.data, colorCount);
-    
-    // Find dominant color
-    const dominantColor = findDominantColor(colors);
-    
-    // Generate color harmony
-    const colorHarmony = generateColorHarmony(dominantColor);
-    
-    return {
-      colors: colors.map(color => rgbToHex(color)),
-      dominantColor: rgbToHex(dominantColor),
-      colorHarmony,
-    };
+    const imageData = await loadPixels(image);
+    const model = await getModel('depth');
+    return await cachedAnalysis('depth', imageData, model, {}, async () => {
+      const depth = await model.estimateDepth(imageData, onProgress);
+      return {
+        ...depth,
+        perspective: estimateRoomPerspective(imageData, onProgress),
+      };
+    });
   } catch (error) {
-    console.error('Color palette extraction error:', error);
-    throw new Error('Failed to extract color palette');
+    console.error('Depth estimation error:', error);
+    throw new Error('Failed to estimate depth');
   }
 }
 
-// Extract colors using k-means clustering
-async function extractColors(imageData: Uint8ClampedArray, colorCount: number): Promise<Array<[number, number, number]>> {
-  const colors: Array<[number, number, number]> = [];
-  
-  // Sample pixels (every 10th pixel for performance)
-  for (let i = 0; i < imageData.length; i += 40) {
-    const r = imageData[i];
-    const g = imageData[i + 1];
-    const b = imageData[i + 2];
-    colors.push([r, g, b]);
-  }
-  
-  // Simple k-means clustering
-  const centroids = kMeansClustering(colors, colorCount);
-  
-  return centroids;
-}
+// Heuristic depth map from the room geometry: surfaces placed by the horizon and vanishing points,
+// with depth in camera heights
+function estimateDepthMap(imageData: PixelBuffer, onProgress?: ProgressCallback): DepthMap {
+  onProgress?.(10, 'Finding vanishing points');
+  const { edges, layout, perspective } = analyzeRoomGeometry(imageData);
 
-// K-means clustering implementation
-function kMeansClustering(data: Array<[number, number, number]>, k: number): Array<[number, number, number]> {
-  // Initialize centroids randomly
-  const centroids: Array<[number, number, number]> = [];
-  for (let i = 0; i < k; i++) {
-    const randomIndex = Math.floor(Math.random() * data.length);
-    centroids.push([...data[randomIndex]]);
-  }
-  
-  // Iterate until convergence
-  for (let iteration = 0; iteration < 10; iteration++) {
-    // Assign points to nearest centroid
-    const clusters: Array<Array<[number, number, number]>> = Array(k).fill(null).map(() => []);
-    
-    for (const point of data) {
-      let minDistance = Infinity;
-      let nearestCentroid = 0;
-      
-      for (let i = 0; i < k; i++) {
-        const distance = euclideanDistance(point, centroids[i]);
-        if (distance < minDistance) {
-          minDistance = distance;
-          nearestCentroid = i;
-        }
-      }
-      
-      clusters[nearestCentroid].push(point);
-    }
-    
-    // Update centroids
-    for (let i = 0; i < k; i++) {
-      if (clusters[i].length > 0) {
-        const sum = clusters[i].reduce(
-          (acc, point) => [acc[0] + point[0], acc[1] + point[1], acc[2] + point[2]],
-          [0, 0, 0]
-        );
-        centroids[i] = [
-          Math.round(sum[0] / clusters[i].length),
-          Math.round(sum[1] / clusters[i].length),
-          Math.round(sum[2] / clusters[i].length),
-        ];
-      }
-    }
-  }
-  
-  return centroids;
+  onProgress?.(50, 'Estimating depth from room geometry');
+  const { depth, minDepth, maxDepth } = estimateGeometricDepth(layout, perspective, edges, imageData.width, imageData.height);
+  return { depthMap: depth, minDepth, maxDepth };
 }
 
-// Calculate Euclidean distance between two colors
-function euclideanDistance(color1: [number, number, number], color2: [number, number, number]): number {
-  return Math.sqrt(
-    Math.pow(color1[0] - color2[0], 2) +
-    Math.pow(color1[1] - color2[1], 2) +
-    Math.pow(color1[2] - color2[2], 2)
-  );
+// Vanishing points of the room's line families and a perspective plane per wall
+function estimateRoomPerspective(imageData: PixelBuffer, onProgress?: ProgressCallback): PerspectiveEstimate {
+  onProgress?.(80, 'Fitting wall planes');
+  return analyzeRoomGeometry(imageData).perspective;
 }
 
-// Find dominant color
-function findDominantColor(colors: Array<[number, number, number]>): [number, number, number] {
-  // Return the first color as dominant (in production, use more sophisticated analysis)
-  return colors[0];
-}
+// Edges, lines, room layout and perspective of an image, computed once per pixel buffer
+function analyzeRoomGeometry(imageData: PixelBuffer): RoomGeometry {
+  const cached = roomGeometry.get(imageData);
+  if (cached) return cached;
 
-// Generate color harmony
-function generateColorHarmony(dominantColor: [number, number, number]): {
-  complementary: string;
-  analogous: string[];
-  triadic: string[];
-} {
-  const [r, g, b] = dominantColor;
-  
-  // Convert to HSL for color theory calculations
-  const hsl = rgbToHsl(r, g, b);
-  
-  // Complementary color (180° opposite)
-  const complementaryHsl = [hsl[0] + 180, hsl[1], hsl[2]];
-  const complementary = hslToRgb(complementaryHsl[0], complementaryHsl[1], complementaryHsl[2]);
-  
-  // Analogous colors (±30°)
-  const analogous1 = hslToRgb(hsl[0] + 30, hsl[1], hsl[2]);
-  const analogous2 = hslToRgb(hsl[0] - 30, hsl[1], hsl[2]);
-  
-  // Triadic colors (±120°)
-  const triadic1 = hslToRgb(hsl[0] + 120, hsl[1], hsl[2]);
-  const triadic2 = hslToRgb(hsl[0] + 240, hsl[1], hsl[2]);
-  
-  return {
-    complementary: rgbToHex(complementary),
-    analogous: [rgbToHex(analogous1), rgbToHex(analogous2)],
-    triadic: [rgbToHex(triadic1), rgbToHex(triadic2)],
-  };
-}
+  const { width, height } = imageData;
+  const edges = computeEdgeMap(imageData);
+  const lines = detectLines(edges, width, height);
+  const layout = estimateRoomLayout(imageData, lines);
+  const walls = layout.filter(surface => WALL_LABELS.includes(surface.label));
+  const geometry = { edges, lines, layout, perspective: estimatePerspective(walls, lines, width, height) };
 
-// Utility functions for color conversion
-function rgbToHex(color: [number, number, number]): string {
-  const [r, g, b] = color;
-  return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
+  roomGeometry.set(imageData, geometry);
+  return geometry;
 }
 
-function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
-  r /= 255;
-  g /= 255;
-  b /= 255;
-  
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  let h = 0;
-  let s = 0;
-  const l = (max + min) / 2;
-  
-  if (max !== min) {
-    const d = max - min;
-    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-    
-    switch (max) {
-      case r: h = (g - b) / d + (g < b ? 6 : 0); break;
-      case g: h = (b - r) / d + 2; break;
-      case b: h = (r - g) / d + 4; break;
-    }
-    h /= 6;
+// Color palette extraction with the configured provider, cached per image and color count
+export async function extractColorPalette(
+  image: ImageSource,
+  colorCount: number = 5,
+  onProgress?: ProgressCallback
+): Promise<ColorPaletteResult> {
+  try {
+    const imageData = await loadPixels(image);
+    const model = await getModel('palette');
+    return await cachedAnalysis('palette', imageData, model, { colorCount }, () =>
+      model.extractPalette(imageData, colorCount, onProgress)
+    );
+  } catch (error) {
+    console.error('Color palette extraction error:', error);
+    throw new Error('Failed to extract color palette');
   }
-  
-  return [h * 360, s * 100, l * 100];
 }
 
-function hslToRgb(h: number, s: number, l: number): [number, number, number] {
-  h /= 360;
-  s /= 100;
-  l /= 100;
+// Heuristic palette: seeded k-means++ in CIELAB, with the dominant color chosen by population
+// and wall pixels given priority, plus color-wheel harmonies
+async function clusterPalette(
+  imageData: PixelBuffer,
+  colorCount: number,
+  onProgress?: ProgressCallback
+): Promise<ColorPaletteResult> {
+  onProgress?.(10, 'Finding walls');
+  const { width, height } = imageData;
+  const wallMask = analyzeRoomGeometry(imageData).layout
+    .filter(surface => WALL_LABELS.includes(surface.label))
+    .reduce(
+      (combined, surface) => combineMasks(combined, rasterizePolygon(surface.polygon, width, height), 'add'),
+      createEmptyMask(width, height)
+    );
+
+  onProgress?.(40, 'Clustering colors');
+  const { colors, dominant } = extractPalette(imageData, colorCount, { wallMask });
+  if (!dominant) {
+    return { colors: [], shares: [], dominantColor: null, colorHarmony: null };
+  }
+
+  // Generate color harmony
+  onProgress?.(90, 'Generating color harmonies');
+  const colorHarmony = generateColorHarmony(dominant.color);
   
-  const hue2rgb = (p: number, q: number, t: number) => {
-    if (t < 0) t += 1;
-    if (t > 1) t -= 1;
-    if (t < 1/6) return p + (q - p) * 6 * t;
-    if (t < 1/2) return q;
-    if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
-    return p;
+  return {
+    colors: colors.map(color => color.color),
+    shares: colors.map(color => color.share),
+    dominantColor: dominant.color,
+    colorHarmony,
   };
-  
-  let r, g, b;
-  
-  if (s === 0) {
-    r = g = b = l;
-  } else {
-    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
-    const p = 2 * l - q;
-    r = hue2rgb(p, q, h + 1/3);
-    g = hue2rgb(p, q, h);
-    b = hue2rgb(p, q, h - 1/3);
-  }
-  
-  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
 }
 
-// Object detection for scene understanding
-export async function detectObjects(imageUrl: string): Promise<ObjectDetectionResult> {
-  if (!isClient) {
-    throw new Error('Object detection can only be performed on the client side');
-  }
-
+// Object detection with the configured provider, cached per image
+export async function detectObjects(image: ImageSource, onProgress?: ProgressCallback): Promise<ObjectDetectionResult> {
   try {
-    // Simplified object detection - return empty for now
-    return {
-      objects: [],
-    };
+    const imageData = await loadPixels(image);
+    const model = await getModel('objectDetection');
+    return await cachedAnalysis('objects', imageData, model, {}, () => model.detectObjects(imageData, onProgress));
   } catch (error) {
     console.error('Object detection error:', error);
     throw new Error('Failed to detect objects');
   }
 }
 
-// Get model status
-export function getModelStatus(): { initialized: boolean; models: string[] } {
-  if (!isClient) {
-    return { initialized: false, models: [] };
-  }
-  
+// Segmentation, objects, depth and palette of one image. Run on the same decoded pixels, they share
+// the edges, lines and room layout instead of rebuilding them per task
+export async function analyzeRoom(
+  image: ImageSource,
+  colorCount: number = 5,
+  onProgress?: ProgressCallback
+): Promise<RoomAnalysisResult> {
+  const imageData = await loadPixels(image);
+  // Each task reports 0-100; map it onto its part of the whole
+  const stage = (start: number, end: number): ProgressCallback | undefined =>
+    onProgress && ((progress, label) => onProgress(start + ((end - start) * progress) / 100, label));
+
+  const segmentation = await processWallSegmentation(imageData, stage(0, 60));
+  const objects = await detectObjects(imageData, stage(60, 75));
+  const depth = await estimateDepth(imageData, stage(75, 90));
+  const palette = await extractColorPalette(imageData, colorCount, stage(90, 100));
+  return { segmentation, objects, depth, palette };
+}
+
+// Furniture and fixtures on and in front of the walls, other than windows and doors
+function detectRoomObjects(imageData: PixelBuffer): DetectedObject[] {
+  const { edges, walls, openings } = analyzeRoomSurfaces(imageData);
+
+  return detectInteriorObjects(imageData, edges, walls, openings).map(object => ({
+    label: object.label,
+    confidence: object.confidence,
+    bbox: [object.bounds.x, object.bounds.y, object.bounds.width, object.bounds.height],
+    mask: object.mask,
+  }));
+}
+
+// Report which provider serves each capability, with version and capabilities
+export function getModelStatus(): ModelStatus {
   return {
-    initialized: true,
-    models: ['fallback-segmentation', 'fallback-color-extraction'],
+    initialized: modelsInitialized,
+    models: getLoadedModels(),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,160 @@
+// Content-addressed cache for analysis results
+// Entries are keyed by a SHA-256 of the decoded pixels, the task and its parameters, the provider's
+// id and version and config.ai.cache.version, so a changed algorithm never serves stale results.
+// Browsers (and workers) store them in IndexedDB; the API routes register a disk store.
+
+import { config } from '@/lib/config';
+import type { ModelProvider } from '@/lib/model-providers';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+export interface AnalysisCacheStore {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown): Promise<void>;
+}
+
+const DB_NAME = 'analysis-cache';
+const STORE_NAME = 'results';
+
+let customStore: AnalysisCacheStore | null = null;
+let indexedDbStore: AnalysisCacheStore | null = null;
+// Digest of each pixel buffer, so the tasks of one combined analysis hash the image once
+const pixelDigests = new WeakMap<PixelBuffer['data'], Promise<string>>();
+
+// Replace the default store (IndexedDB where available, otherwise none); null disables caching
+export function setAnalysisCacheStore(store: AnalysisCacheStore | null): void {
+  customStore = store;
+}
+
+// Return the cached result of an analysis, or compute and store it. Cache failures are logged and
+// never fail the analysis itself.
+export async function cachedAnalysis<T>(
+  task: string,
+  imageData: PixelBuffer,
+  provider: Pick<ModelProvider, 'id' | 'version'>,
+  params: Record<string, unknown>,
+  compute: () => Promise<T>
+): Promise<T> {
+  const store = config.ai.cache.enabled ? getStore() : null;
+  if (!store) return compute();
+
+  let key: string | null = null;
+  try {
+    key = await createCacheKey(task, imageData, provider, params);
+    const cached = await store.get(key);
+    if (cached !== undefined) return cached as T;
+  } catch (error) {
+    console.error('Analysis cache read error:', error);
+  }
+
+  const result = await compute();
+  if (key) {
+    // Awaited: the worker transfers the result's buffers as soon as it is returned
+    try {
+      await store.set(key, result);
+    } catch (error) {
+      console.error('Analysis cache write error:', error);
+    }
+  }
+  return result;
+}
+
+// Hex digest identifying an analysis of an image
+export async function createCacheKey(
+  task: string,
+  imageData: PixelBuffer,
+  provider: Pick<ModelProvider, 'id' | 'version'>,
+  params: Record<string, unknown>
+): Promise<string> {
+  let digest = pixelDigests.get(imageData.data);
+  if (!digest) {
+    digest = sha256(imageData.data);
+    digest.catch(() => pixelDigests.delete(imageData.data));
+    pixelDigests.set(imageData.data, digest);
+  }
+  const pixels = await digest;
+  const id = [
+    task,
+    `${provider.id}@${provider.version}`,
+    `v${config.ai.cache.version}`,
+    JSON.stringify(params),
+    `${imageData.width}x${imageData.height}`,
+    pixels,
+  ].join('|');
+  return sha256(new TextEncoder().encode(id));
+}
+
+async function sha256(bytes: Uint8Array | Uint8ClampedArray): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function getStore(): AnalysisCacheStore | null {
+  if (customStore) return customStore;
+  if (typeof indexedDB === 'undefined' || typeof crypto === 'undefined' || !crypto.subtle) return null;
+  indexedDbStore ??= createIndexedDbStore();
+  return indexedDbStore;
+}
+
+// IndexedDB store; the database version follows config.ai.cache.version and an upgrade drops
+// every entry of the previous algorithms
+function createIndexedDbStore(): AnalysisCacheStore {
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, config.ai.cache.version);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(STORE_NAME)) db.deleteObjectStore(STORE_NAME);
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' }).createIndex('createdAt', 'createdAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => (database = null));
+    return database;
+  };
+
+  return {
+    async get(key) {
+      const db = await open();
+      const entry = await requestResult<{ value: unknown } | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+      );
+      return entry?.value;
+    },
+
+    async set(key, value) {
+      const db = await open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+      });
+      const store = transaction.objectStore(STORE_NAME);
+      store.put({ key, value, createdAt: Date.now() });
+
+      // Evict the oldest entries beyond the limit
+      const count = await requestResult<number>(store.count());
+      let excess = count - config.ai.cache.maxEntries;
+      if (excess > 0) {
+        const cursors = store.index('createdAt').openCursor();
+        cursors.onsuccess = () => {
+          const cursor = cursors.result;
+          if (!cursor || excess-- <= 0) return;
+          cursor.delete();
+          cursor.continue();
+        };
+      }
+
+      await done;
+    },
+  };
+}
+
+function requestResult<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -0,0 +1,278 @@
+// Worker pool that runs image analysis and texture quilting off the main thread
+// Jobs report progress, can be cancelled with an AbortSignal, and fall back to the main thread
+// where workers are unavailable or the configured provider is a custom module registered there
+
+import type {
+  ColorPaletteResult,
+  DepthEstimationResult,
+  ImageSource,
+  ObjectDetectionResult,
+  RoomAnalysisResult,
+  SegmentationResult,
+} from '@/lib/ai-models';
+import { config } from '@/lib/config';
+import {
+  isWorkerProvider,
+  recordWorkerModels,
+  type LoadedModel,
+  type ModelCapability,
+  type ProgressCallback,
+} from '@/lib/model-providers';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+export interface AnalysisResults {
+  segmentation: SegmentationResult;
+  palette: ColorPaletteResult;
+  depth: DepthEstimationResult;
+  objects: ObjectDetectionResult;
+  edges: Uint8ClampedArray;
+  room: RoomAnalysisResult;
+  quilt: PixelBuffer;
+}
+
+export type AnalysisTask = keyof AnalysisResults;
+
+export interface AnalysisRequest {
+  id: number;
+  task: AnalysisTask;
+  image: ImageSource;
+  colorCount?: number;
+  size?: { width: number; height: number }; // of a quilted texture
+}
+
+export type AnalysisResponse =
+  | { id: number; type: 'progress'; progress: number; stage: string }
+  | { id: number; type: 'result'; result: AnalysisResults[AnalysisTask]; models: LoadedModel[] }
+  | { id: number; type: 'error'; message: string };
+
+export interface AnalysisOptions {
+  colorCount?: number;
+  size?: { width: number; height: number };
+  onProgress?: ProgressCallback;
+  signal?: AbortSignal;
+}
+
+interface AnalysisJob {
+  request: AnalysisRequest;
+  options: AnalysisOptions;
+  resolve: (result: AnalysisResults[AnalysisTask]) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: AnalysisJob | null;
+}
+
+const MAX_WORKERS = 4;
+
+// Capabilities each task is served by; edge maps and quilting need no model
+const TASK_CAPABILITIES: Record<AnalysisTask, ModelCapability[]> = {
+  segmentation: ['segmentation'],
+  palette: ['palette'],
+  depth: ['depth'],
+  objects: ['objectDetection'],
+  edges: [],
+  room: ['segmentation', 'objectDetection', 'depth', 'palette'],
+  quilt: [],
+};
+
+const workers: PoolWorker[] = [];
+const queue: AnalysisJob[] = [];
+let nextJobId = 1;
+
+// Run an analysis task in the pool. Pixel buffers are transferred to the worker and
+// cannot be used by the caller afterwards; pass a copy to keep them.
+export function runAnalysis<T extends AnalysisTask>(
+  task: T,
+  image: ImageSource,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResults[T]> {
+  if (options.signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+  if (typeof Worker === 'undefined' || !runsInWorker(task)) {
+    return runOnMainThread(task, image, options);
+  }
+
+  return new Promise((resolve, reject) => {
+    const job: AnalysisJob = {
+      request: { id: nextJobId++, task, image, colorCount: options.colorCount, size: options.size },
+      options,
+      // The worker answers a request with the result of the task it names
+      resolve: result => resolve(result as AnalysisResults[T]),
+      reject,
+    };
+    options.signal?.addEventListener('abort', () => cancelJob(job), { once: true });
+    queue.push(job);
+    dispatch();
+  });
+}
+
+// Whether an analysis promise rejected because it was cancelled
+export function isAnalysisCancelled(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function createAbortError(): Error {
+  const error = new Error('Analysis cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+// Workers only have the built-in providers, so tasks configured for a custom module stay here
+function runsInWorker(task: AnalysisTask): boolean {
+  return TASK_CAPABILITIES[task].every(capability => isWorkerProvider(config.ai.providers[capability]));
+}
+
+function poolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+}
+
+// Hand queued jobs to idle workers, starting new ones up to the pool size
+function dispatch(): void {
+  while (queue.length > 0) {
+    let slot = workers.find(candidate => !candidate.job);
+    if (!slot) {
+      if (workers.length >= poolSize()) return;
+      slot = spawnWorker();
+    }
+    startJob(slot, queue.shift()!);
+  }
+}
+
+function spawnWorker(): PoolWorker {
+  const slot: PoolWorker = {
+    worker: new Worker(new URL('./analysis.worker.ts', import.meta.url)),
+    job: null,
+  };
+
+  slot.worker.onmessage = (event: MessageEvent<AnalysisResponse>) => handleMessage(slot, event.data);
+  slot.worker.onerror = (event) => {
+    event.preventDefault();
+    const job = slot.job;
+    retireWorker(slot);
+    job?.reject(new Error(event.message || 'Analysis worker crashed'));
+    dispatch();
+  };
+
+  workers.push(slot);
+  return slot;
+}
+
+async function startJob(slot: PoolWorker, job: AnalysisJob): Promise<void> {
+  slot.job = job;
+  let { image } = job.request;
+
+  try {
+    if (typeof image === 'string') {
+      if (typeof OffscreenCanvas === 'undefined') {
+        // The worker can't decode without OffscreenCanvas, so decode here and transfer the pixels
+        const { loadPixels } = await import('@/lib/ai-models');
+        image = await loadPixels(image);
+      } else {
+        // Relative URLs would otherwise resolve against the worker script
+        image = new URL(image, window.location.href).href;
+      }
+    }
+  } catch (error) {
+    if (slot.job !== job) return;
+    slot.job = null;
+    job.reject(error instanceof Error ? error : new Error('Failed to load image'));
+    dispatch();
+    return;
+  }
+
+  // Cancelled while decoding
+  if (slot.job !== job) return;
+
+  if (typeof image === 'string') {
+    slot.worker.postMessage({ ...job.request, image });
+  } else {
+    const pixels = { data: image.data, width: image.width, height: image.height };
+    slot.worker.postMessage({ ...job.request, image: pixels }, [pixels.data.buffer]);
+  }
+}
+
+function handleMessage(slot: PoolWorker, message: AnalysisResponse): void {
+  const job = slot.job;
+  if (!job || job.request.id !== message.id) return;
+
+  if (message.type === 'progress') {
+    job.options.onProgress?.(message.progress, message.stage);
+    return;
+  }
+
+  slot.job = null;
+  if (message.type === 'result') {
+    recordWorkerModels(message.models);
+    job.resolve(message.result);
+  } else {
+    job.reject(new Error(message.message));
+  }
+  dispatch();
+}
+
+// Drop a queued job, or stop the worker running it (analysis loops can't be interrupted)
+function cancelJob(job: AnalysisJob): void {
+  const queued = queue.indexOf(job);
+  if (queued >= 0) {
+    queue.splice(queued, 1);
+  } else {
+    const slot = workers.find(candidate => candidate.job === job);
+    if (!slot) return; // already finished
+    retireWorker(slot);
+  }
+
+  job.reject(createAbortError());
+  dispatch();
+}
+
+function retireWorker(slot: PoolWorker): void {
+  slot.worker.terminate();
+  slot.job = null;
+  workers.splice(workers.indexOf(slot), 1);
+}
+
+// Same tasks on the main thread, for environments without workers
+async function runOnMainThread<T extends AnalysisTask>(
+  task: T,
+  image: ImageSource,
+  options: AnalysisOptions
+): Promise<AnalysisResults[T]> {
+  const models = await import('@/lib/ai-models');
+  const { onProgress, colorCount, size } = options;
+
+  let result: AnalysisResults[AnalysisTask];
+  switch (task) {
+    case 'segmentation':
+      result = await models.processWallSegmentation(image, onProgress);
+      break;
+    case 'palette':
+      result = await models.extractColorPalette(image, colorCount, onProgress);
+      break;
+    case 'depth':
+      result = await models.estimateDepth(image, onProgress);
+      break;
+    case 'objects':
+      result = await models.detectObjects(image, onProgress);
+      break;
+    case 'room':
+      result = await models.analyzeRoom(image, colorCount, onProgress);
+      break;
+    case 'quilt': {
+      const { quiltTexture } = await import('@/lib/texture-synthesis');
+      const swatch = await models.loadPixels(image);
+      result = quiltTexture(swatch, size?.width ?? swatch.width, size?.height ?? swatch.height);
+      break;
+    }
+    default:
+      result = models.computeEdgeMap(await models.loadPixels(image));
+  }
+
+  if (options.signal?.aborted) {
+    throw createAbortError();
+  }
+  return result as AnalysisResults[T];
+}
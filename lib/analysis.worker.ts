@@ -0,0 +1,107 @@
+// Analysis worker: decodes images and runs the AI pipeline and texture quilting off the main thread
+// Driven by lib/analysis-pool.ts; results are sent back with their pixel buffers transferred and the
+// models that served them, since this worker's provider registry is separate from the main thread's
+
+import {
+  analyzeRoom,
+  computeEdgeMap,
+  detectObjects,
+  estimateDepth,
+  extractColorPalette,
+  processWallSegmentation,
+} from '@/lib/ai-models';
+import type { AnalysisRequest, AnalysisResponse, AnalysisResults, AnalysisTask } from '@/lib/analysis-pool';
+import { getLoadedModels, type ProgressCallback } from '@/lib/model-providers';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { quiltTexture } from '@/lib/texture-synthesis';
+
+// The DOM typings describe a window; this is the subset of the worker scope we use
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<AnalysisRequest>) => void) | null;
+  postMessage(message: AnalysisResponse, transfer?: Transferable[]): void;
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  const onProgress: ProgressCallback = (progress, stage) => {
+    scope.postMessage({ id: request.id, type: 'progress', progress, stage });
+  };
+
+  try {
+    let pixels: PixelBuffer;
+    if (typeof request.image === 'string') {
+      onProgress(0, 'Decoding image');
+      pixels = await decodeImage(request.image);
+    } else {
+      pixels = request.image;
+    }
+
+    const result = await runTask(request, pixels, onProgress);
+    scope.postMessage(
+      { id: request.id, type: 'result', result, models: getLoadedModels() },
+      collectTransferables(result)
+    );
+  } catch (error) {
+    console.error('Analysis worker error:', error);
+    scope.postMessage({
+      id: request.id,
+      type: 'error',
+      message: error instanceof Error ? error.message : 'Analysis failed',
+    });
+  }
+};
+
+function runTask(
+  request: AnalysisRequest,
+  pixels: PixelBuffer,
+  onProgress: ProgressCallback
+): Promise<AnalysisResults[AnalysisTask]> {
+  switch (request.task) {
+    case 'segmentation':
+      return processWallSegmentation(pixels, onProgress);
+    case 'palette':
+      return extractColorPalette(pixels, request.colorCount, onProgress);
+    case 'depth':
+      return estimateDepth(pixels, onProgress);
+    case 'objects':
+      return detectObjects(pixels, onProgress);
+    case 'edges':
+      return Promise.resolve(computeEdgeMap(pixels));
+    case 'room':
+      return analyzeRoom(pixels, request.colorCount, onProgress);
+    case 'quilt': {
+      const { width, height } = request.size ?? pixels;
+      return Promise.resolve(quiltTexture(pixels, width, height));
+    }
+  }
+}
+
+// Decode an image URL without touching the DOM
+async function decodeImage(url: string): Promise<PixelBuffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load image (${response.status})`);
+  }
+
+  const bitmap = await createImageBitmap(await response.blob());
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Pixel buffers inside a result, so they can be moved instead of copied
+function collectTransferables(value: unknown, found: Set<ArrayBuffer> = new Set()): ArrayBuffer[] {
+  if (ArrayBuffer.isView(value)) {
+    found.add(value.buffer as ArrayBuffer);
+  } else if (Array.isArray(value)) {
+    // Skip plain number arrays such as bounding boxes
+    if (value.length > 0 && typeof value[0] === 'object' && !Array.isArray(value[0])) {
+      value.forEach(item => collectTransferables(item, found));
+    }
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectTransferables(item, found));
+  }
+  return Array.from(found);
+}
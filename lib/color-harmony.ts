@@ -0,0 +1,122 @@
+// Color harmony schemes on the HSL color wheel
+// Every scheme is built around a key color; rotating the scheme moves the key color's hue and the
+// rest of the scheme with it
+
+import { hexToRgb, hslToRgb, rgbToHex, rgbToHsl } from '@/lib/color-science';
+
+export type HarmonyScheme =
+  | 'complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'splitComplementary'
+  | 'tetradic'
+  | 'monochromatic'
+  | 'neutrals';
+
+export interface ColorHarmony {
+  complementary: string;
+  analogous: string[];
+  triadic: string[];
+  splitComplementary: string[];
+  tetradic: string[];
+  monochromatic: {
+    tints: string[]; // lighter, toward white
+    shades: string[]; // darker, toward black
+  };
+  neutrals: {
+    warm: string[];
+    cool: string[];
+  };
+}
+
+export const HARMONY_SCHEME_NAMES: Record<HarmonyScheme, string> = {
+  complementary: 'Complementary',
+  analogous: 'Analogous',
+  triadic: 'Triadic',
+  splitComplementary: 'Split complementary',
+  tetradic: 'Tetradic',
+  monochromatic: 'Monochromatic',
+  neutrals: 'Warm & cool neutrals',
+};
+
+// Hue offsets (degrees) of each hue-based scheme's colors from the key color
+const HUE_OFFSETS = {
+  complementary: [180],
+  analogous: [30, -30],
+  triadic: [120, 240],
+  splitComplementary: [150, 210],
+  tetradic: [90, 180, 270],
+};
+// Lightness steps (share of the way to white or black) of tints and shades
+const TONE_STEPS = [0.25, 0.5, 0.75];
+// Neutral hues: creams and greiges, and blue-greys; pulled slightly toward the key color's hue
+const WARM_NEUTRAL_HUE = 40;
+const COOL_NEUTRAL_HUE = 215;
+const NEUTRAL_HUE_PULL = 0.15;
+const NEUTRAL_SATURATION = { warm: 14, cool: 9 };
+const NEUTRAL_LIGHTNESS = [92, 80, 62, 35];
+
+// All schemes around a color (hex), with the key color's hue rotated by `rotation` degrees
+export function generateColorHarmony(color: string, rotation: number = 0): ColorHarmony {
+  const [h, s, l] = toHsl(color);
+  const hue = h + rotation;
+  const offsets = (scheme: keyof typeof HUE_OFFSETS) => HUE_OFFSETS[scheme].map(offset => fromHsl(hue + offset, s, l));
+
+  return {
+    complementary: offsets('complementary')[0],
+    analogous: offsets('analogous'),
+    triadic: offsets('triadic'),
+    splitComplementary: offsets('splitComplementary'),
+    tetradic: offsets('tetradic'),
+    monochromatic: {
+      tints: TONE_STEPS.map(step => fromHsl(hue, s, l + (100 - l) * step)),
+      shades: TONE_STEPS.map(step => fromHsl(hue, s, l * (1 - step))),
+    },
+    neutrals: {
+      warm: NEUTRAL_LIGHTNESS.map(lightness => fromHsl(pullHue(WARM_NEUTRAL_HUE, hue), NEUTRAL_SATURATION.warm, lightness)),
+      cool: NEUTRAL_LIGHTNESS.map(lightness => fromHsl(pullHue(COOL_NEUTRAL_HUE, hue), NEUTRAL_SATURATION.cool, lightness)),
+    },
+  };
+}
+
+// The colors of one scheme, key color first
+export function getSchemeColors(color: string, scheme: HarmonyScheme, rotation: number = 0): string[] {
+  const [h, s, l] = toHsl(color);
+  const key = fromHsl(h + rotation, s, l);
+  const harmony = generateColorHarmony(color, rotation);
+
+  switch (scheme) {
+    case 'complementary':
+      return [key, harmony.complementary];
+    case 'monochromatic':
+      return [...harmony.monochromatic.tints.slice().reverse(), key, ...harmony.monochromatic.shades];
+    case 'neutrals':
+      return [key, ...harmony.neutrals.warm, ...harmony.neutrals.cool];
+    default:
+      return [key, ...harmony[scheme]];
+  }
+}
+
+// Hue (degrees, 0-360) of a hex color
+export function getHue(color: string): number {
+  return toHsl(color)[0];
+}
+
+function toHsl(color: string): [number, number, number] {
+  const rgb = hexToRgb(color);
+  if (!rgb) {
+    throw new Error(`Invalid color "${color}"`);
+  }
+  return rgbToHsl(...rgb);
+}
+
+function fromHsl(h: number, s: number, l: number): string {
+  const hue = ((h % 360) + 360) % 360;
+  return rgbToHex(hslToRgb(hue, Math.min(100, Math.max(0, s)), Math.min(100, Math.max(0, l))));
+}
+
+// Move a hue part of the way toward another along the shorter arc
+function pullHue(from: number, toward: number, amount: number = NEUTRAL_HUE_PULL): number {
+  const delta = ((((toward - from) % 360) + 540) % 360) - 180;
+  return from + delta * amount;
+}
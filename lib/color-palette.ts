@@ -0,0 +1,218 @@
+// Perceptual palette extraction: seeded k-means++ in CIELAB over a weighted color histogram
+// Pixels are binned (5 bits per channel) so clustering runs on a few thousand weighted colors with
+// ΔE*ab distances, and the fixed seed makes the same image always give the same palette
+
+import { deltaE76, labToRgb, rgbToHex, rgbToLab, type Lab, type RGB } from '@/lib/color-science';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+export interface PaletteColor {
+  color: string; // hex
+  rgb: RGB;
+  lab: Lab;
+  share: number; // share of the image's pixels, 0-1
+  wallShare: number; // share of the wall pixels, 0-1; 0 without a wall mask
+}
+
+export interface PaletteOptions {
+  wallMask?: PixelBuffer; // same size as the image, coverage in alpha
+  seed?: number;
+}
+
+export interface ExtractedPalette {
+  colors: PaletteColor[]; // most common first
+  dominant: PaletteColor | null; // null when the image has no opaque pixels
+}
+
+const BIN_BITS = 5;
+// Pixels sampled on a regular grid above this count
+const MAX_SAMPLES = 250000;
+const MAX_ITERATIONS = 20;
+// Largest centroid move (ΔE) that still counts as converged
+const CONVERGENCE = 0.5;
+// A wall pixel counts this many times when choosing the dominant color
+const WALL_PRIORITY = 3;
+const DEFAULT_SEED = 0x9e3779b9;
+
+// Cluster an image's colors; fewer than colorCount colors come back when the image has fewer distinct ones,
+// and none when it is fully transparent
+export function extractPalette(imageData: PixelBuffer, colorCount: number, options: PaletteOptions = {}): ExtractedPalette {
+  const histogram = buildHistogram(imageData, options.wallMask);
+  if (histogram.total === 0) {
+    return { colors: [], dominant: null };
+  }
+  const centroids = seedCentroids(histogram, colorCount, createRandom(options.seed ?? DEFAULT_SEED));
+  const assignments = new Int32Array(histogram.weights.length);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    assignClusters(histogram, centroids, assignments);
+
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    for (let i = 0; i < assignments.length; i++) {
+      const sum = sums[assignments[i]];
+      const weight = histogram.weights[i];
+      sum[0] += histogram.colors[i][0] * weight;
+      sum[1] += histogram.colors[i][1] * weight;
+      sum[2] += histogram.colors[i][2] * weight;
+      sum[3] += weight;
+    }
+
+    let shift = 0;
+    sums.forEach((sum, index) => {
+      if (sum[3] === 0) return;
+      const updated: Lab = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+      shift = Math.max(shift, deltaE76(updated, centroids[index]));
+      centroids[index] = updated;
+    });
+    if (shift < CONVERGENCE) break;
+  }
+  assignClusters(histogram, centroids, assignments);
+
+  // Population of each cluster, overall and on the walls
+  const population = new Float64Array(centroids.length);
+  const wallPopulation = new Float64Array(centroids.length);
+  for (let i = 0; i < assignments.length; i++) {
+    population[assignments[i]] += histogram.weights[i];
+    wallPopulation[assignments[i]] += histogram.wallWeights[i];
+  }
+
+  const clusters = centroids
+    .map((lab, index) => {
+      const rgb = labToRgb(lab);
+      return {
+        color: rgbToHex(rgb),
+        rgb,
+        lab: lab.map(value => Math.round(value * 100) / 100) as Lab,
+        share: histogram.total ? population[index] / histogram.total : 0,
+        wallShare: histogram.wallTotal ? wallPopulation[index] / histogram.wallTotal : 0,
+        score: population[index] + (WALL_PRIORITY - 1) * wallPopulation[index],
+      };
+    })
+    .filter(cluster => cluster.share > 0)
+    .sort((a, b) => b.share - a.share);
+
+  const dominant = clusters.reduce((best, cluster) => (cluster.score > best.score ? cluster : best), clusters[0]);
+  const colors = clusters.map(({ score, ...color }) => ({
+    ...color,
+    share: Math.round(color.share * 1000) / 1000,
+    wallShare: Math.round(color.wallShare * 1000) / 1000,
+  }));
+  return { colors, dominant: colors[clusters.indexOf(dominant)] };
+}
+
+interface ColorHistogram {
+  colors: Lab[]; // mean color of each occupied bin
+  weights: Float64Array; // sampled pixels per bin
+  wallWeights: Float64Array; // sampled wall pixels per bin
+  total: number;
+  wallTotal: number;
+}
+
+// Bin the sampled opaque pixels by their top bits per channel
+function buildHistogram(imageData: PixelBuffer, wallMask?: PixelBuffer): ColorHistogram {
+  const { data, width, height } = imageData;
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / MAX_SAMPLES)));
+  const shift = 8 - BIN_BITS;
+  const bins = new Map<number, { r: number; g: number; b: number; count: number; wall: number }>();
+  let total = 0;
+  let wallTotal = 0;
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const idx = (y * width + x) * 4;
+      if (data[idx + 3] < 128) continue;
+
+      const key = ((data[idx] >> shift) << (2 * BIN_BITS)) | ((data[idx + 1] >> shift) << BIN_BITS) | (data[idx + 2] >> shift);
+      let bin = bins.get(key);
+      if (!bin) {
+        bin = { r: 0, g: 0, b: 0, count: 0, wall: 0 };
+        bins.set(key, bin);
+      }
+      bin.r += data[idx];
+      bin.g += data[idx + 1];
+      bin.b += data[idx + 2];
+      bin.count++;
+      total++;
+      if (wallMask && wallMask.data[idx + 3] > 0) {
+        bin.wall++;
+        wallTotal++;
+      }
+    }
+  }
+
+  const entries = Array.from(bins.values());
+  return {
+    colors: entries.map(bin => rgbToLab([bin.r / bin.count, bin.g / bin.count, bin.b / bin.count])),
+    weights: Float64Array.from(entries, bin => bin.count),
+    wallWeights: Float64Array.from(entries, bin => bin.wall),
+    total,
+    wallTotal,
+  };
+}
+
+// k-means++: each further centroid is drawn with probability proportional to weight times squared
+// distance to the nearest centroid so far
+function seedCentroids(histogram: ColorHistogram, k: number, random: () => number): Lab[] {
+  const { colors, weights } = histogram;
+  if (colors.length === 0) return [[0, 0, 0]];
+
+  const centroids: Lab[] = [colors[pickWeighted(weights, random)]];
+  const nearest = new Float64Array(colors.length).fill(Infinity);
+  const chances = new Float64Array(colors.length);
+
+  while (centroids.length < k) {
+    const latest = centroids[centroids.length - 1];
+    for (let i = 0; i < colors.length; i++) {
+      nearest[i] = Math.min(nearest[i], deltaE76(colors[i], latest) ** 2);
+      chances[i] = nearest[i] * weights[i];
+    }
+    const next = pickWeighted(chances, random);
+    if (next < 0) break; // every color already is a centroid
+    centroids.push(colors[next]);
+  }
+
+  return centroids;
+}
+
+function assignClusters(histogram: ColorHistogram, centroids: Lab[], assignments: Int32Array): void {
+  histogram.colors.forEach((color, i) => {
+    let best = 0;
+    let bestDistance = Infinity;
+    centroids.forEach((centroid, index) => {
+      const distance = deltaE76(color, centroid);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = index;
+      }
+    });
+    assignments[i] = best;
+  });
+}
+
+// Index drawn with probability proportional to its weight, -1 when all weights are zero
+function pickWeighted(weights: Float64Array, random: () => number): number {
+  let total = 0;
+  for (let i = 0; i < weights.length; i++) total += weights[i];
+  if (total <= 0) return -1;
+
+  let target = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    target -= weights[i];
+    if (target < 0 && weights[i] > 0) return i;
+  }
+  for (let i = weights.length - 1; i >= 0; i--) {
+    if (weights[i] > 0) return i;
+  }
+  return -1;
+}
+
+// Mulberry32: small seeded PRNG, uniform in [0, 1)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,201 @@
+// Color space conversions and perceptual color differences
+// sRGB (D65) <-> CIE XYZ <-> CIELAB; ΔE*ab is Euclidean distance in CIELAB, CIEDE2000 corrects it
+// for the eye's uneven sensitivity to lightness, chroma and hue
+
+export type RGB = [number, number, number]; // 0-255
+export type Lab = [number, number, number]; // L 0-100, a and b roughly -128-127
+
+// D65 reference white
+const WHITE_X = 0.95047;
+const WHITE_Y = 1;
+const WHITE_Z = 1.08883;
+const EPSILON = 216 / 24389;
+const KAPPA = 24389 / 27;
+
+export function rgbToLab([r, g, b]: RGB): Lab {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / WHITE_X);
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / WHITE_Y);
+  const fz = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / WHITE_Z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+// Out-of-gamut colors are clipped to the sRGB cube
+export function labToRgb([l, a, b]: Lab): RGB {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const x = labFInverse(fx) * WHITE_X;
+  const y = labFInverse(fy) * WHITE_Y;
+  const z = labFInverse(fz) * WHITE_Z;
+
+  return [
+    fromLinear(3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    fromLinear(-0.969266 * x + 1.8760108 * y + 0.041556 * z),
+    fromLinear(0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  ];
+}
+
+// CIE76 color difference; about 2.3 is a just noticeable difference
+export function deltaE76(first: Lab, second: Lab): number {
+  return Math.sqrt(
+    (first[0] - second[0]) ** 2 +
+    (first[1] - second[1]) ** 2 +
+    (first[2] - second[2]) ** 2
+  );
+}
+
+// CIEDE2000 color difference (Sharma, Wu and Dalal's formulation); about 1 is a just noticeable difference
+export function deltaE2000([l1, a1, b1]: Lab, [l2, a2, b2]: Lab): number {
+  const meanC = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const g = 0.5 * (1 - Math.sqrt(meanC ** 7 / (meanC ** 7 + 25 ** 7)));
+  const a1p = a1 * (1 + g);
+  const a2p = a2 * (1 + g);
+  const c1p = Math.hypot(a1p, b1);
+  const c2p = Math.hypot(a2p, b2);
+  const h1p = hueAngle(b1, a1p);
+  const h2p = hueAngle(b2, a2p);
+
+  const deltaL = l2 - l1;
+  const deltaC = c2p - c1p;
+  let deltaH = 0;
+  if (c1p * c2p !== 0) {
+    deltaH = h2p - h1p;
+    if (deltaH > 180) deltaH -= 360;
+    else if (deltaH < -180) deltaH += 360;
+  }
+  const deltaHp = 2 * Math.sqrt(c1p * c2p) * Math.sin(toRadians(deltaH / 2));
+
+  const meanL = (l1 + l2) / 2;
+  const meanCp = (c1p + c2p) / 2;
+  let meanH = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    meanH = Math.abs(h1p - h2p) <= 180 ? meanH / 2 : meanH < 360 ? (meanH + 360) / 2 : (meanH - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(toRadians(meanH - 30))
+    + 0.24 * Math.cos(toRadians(2 * meanH))
+    + 0.32 * Math.cos(toRadians(3 * meanH + 6))
+    - 0.2 * Math.cos(toRadians(4 * meanH - 63));
+  const sl = 1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2);
+  const sc = 1 + 0.045 * meanCp;
+  const sh = 1 + 0.015 * meanCp * t;
+  const rotation = -2 * Math.sqrt(meanCp ** 7 / (meanCp ** 7 + 25 ** 7))
+    * Math.sin(toRadians(60 * Math.exp(-(((meanH - 275) / 25) ** 2))));
+
+  return Math.sqrt(
+    (deltaL / sl) ** 2 +
+    (deltaC / sc) ** 2 +
+    (deltaHp / sh) ** 2 +
+    rotation * (deltaC / sc) * (deltaHp / sh)
+  );
+}
+
+export function rgbToHex([r, g, b]: RGB): string {
+  return `#${((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1)}`;
+}
+
+// HSL with hue in degrees and saturation and lightness in percent
+export function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+  
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  let h = 0;
+  let s = 0;
+  const l = (max + min) / 2;
+  
+  if (max !== min) {
+    const d = max - min;
+    s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+    
+    switch (max) {
+      case r: h = (g - b) / d + (g < b ? 6 : 0); break;
+      case g: h = (b - r) / d + 2; break;
+      case b: h = (r - g) / d + 4; break;
+    }
+    h /= 6;
+  }
+  
+  return [h * 360, s * 100, l * 100];
+}
+
+export function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  h /= 360;
+  s /= 100;
+  l /= 100;
+  
+  const hue2rgb = (p: number, q: number, t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1/6) return p + (q - p) * 6 * t;
+    if (t < 1/2) return q;
+    if (t < 2/3) return p + (q - p) * (2/3 - t) * 6;
+    return p;
+  };
+  
+  let r, g, b;
+  
+  if (s === 0) {
+    r = g = b = l;
+  } else {
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    r = hue2rgb(p, q, h + 1/3);
+    g = hue2rgb(p, q, h);
+    b = hue2rgb(p, q, h - 1/3);
+  }
+  
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+}
+
+// Parse #rgb or #rrggbb; null when malformed
+export function hexToRgb(hex: string): RGB | null {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].replace(/./g, digit => digit + digit) : match[1];
+  const value = parseInt(digits, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+// Relative luminance (CIE Y) as a 0-100 light reflectance value
+export function rgbToLrv([r, g, b]: RGB): number {
+  return 100 * (0.2126729 * toLinear(r) + 0.7151522 * toLinear(g) + 0.072175 * toLinear(b));
+}
+
+// sRGB channel (0-255) to linear light (0-1)
+export function toLinear(channel: number): number {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+// Linear light (0-1, clipped) to an sRGB channel (0-255)
+export function fromLinear(value: number): number {
+  const clipped = Math.min(1, Math.max(0, value));
+  const encoded = clipped <= 0.0031308 ? clipped * 12.92 : 1.055 * clipped ** (1 / 2.4) - 0.055;
+  return Math.round(encoded * 255);
+}
+
+function hueAngle(b: number, a: number): number {
+  if (a === 0 && b === 0) return 0;
+  const angle = (Math.atan2(b, a) * 180) / Math.PI;
+  return angle >= 0 ? angle : angle + 360;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function labF(t: number): number {
+  return t > EPSILON ? Math.cbrt(t) : (KAPPA * t + 16) / 116;
+}
+
+function labFInverse(t: number): number {
+  return t ** 3 > EPSILON ? t ** 3 : (116 * t - 16) / KAPPA;
+}
@@ -18,6 +18,12 @@ export const config = {
       : ['jpg', 'jpeg', 'png', 'webp'],
     maxWidth: 4096,
     maxHeight: 4096,
+    // Hosts the API routes may fetch image URLs from (server only); '*.example.com' also matches subdomains.
+    // Private, loopback and link-local addresses are refused whatever the host
+    remoteHosts: process.env.IMAGE_REMOTE_HOSTS
+      ? process.env.IMAGE_REMOTE_HOSTS.split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+      : [],
+    fetchTimeout: 10000, // 10 seconds
   },
 
   // AI settings
@@ -26,6 +32,21 @@ export const config = {
     fallbackEnabled: true,
     confidenceThreshold: 0.3,
     processingTimeout: 30000, // 30 seconds
+    modelsPath: process.env.NEXT_PUBLIC_MODELS_PATH || '/models',
+    // Provider per capability: 'heuristic', 'onnx' or the id of a registered custom provider
+    providers: {
+      segmentation: process.env.NEXT_PUBLIC_SEGMENTATION_PROVIDER || 'heuristic',
+      depth: process.env.NEXT_PUBLIC_DEPTH_PROVIDER || 'heuristic',
+      palette: process.env.NEXT_PUBLIC_PALETTE_PROVIDER || 'heuristic',
+      objectDetection: process.env.NEXT_PUBLIC_OBJECT_DETECTION_PROVIDER || 'heuristic',
+    },
+    // Analysis results cached by image hash: IndexedDB in the browser, files for the API routes
+    cache: {
+      enabled: process.env.NEXT_PUBLIC_ENABLE_ANALYSIS_CACHE !== 'false',
+      version: 7, // bump whenever the built-in algorithms change their output
+      maxEntries: 50,
+      directory: '.cache/analysis',
+    },
   },
 
   // Feature flags
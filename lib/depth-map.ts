@@ -0,0 +1,281 @@
+// Depth maps: compact float grids (0 = near, 1 = far) and a monocular estimate from room geometry
+// Assumes a level camera: floor and ceiling depth follow from their distance to the horizon, each wall
+// from where it meets them, and the horizon from the vanishing points or the floor's texture gradient
+
+import { pointInPolygon, type Point2D } from '@/lib/geometry';
+import type { PerspectiveEstimate } from '@/lib/perspective';
+import { WALL_LABELS, type LayoutSurface } from '@/lib/room-layout';
+import { rasterizePolygon } from '@/lib/wall-mask';
+
+// Row-major depth samples covering the whole image, usually at a lower resolution
+export interface DepthBuffer {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export interface GeometricDepth {
+  depth: DepthBuffer;
+  minDepth: number; // in camera heights, the real depth of 0 in the map
+  maxDepth: number; // in camera heights, the real depth of 1 in the map
+}
+
+// Longest side of a depth map
+export const MAX_DEPTH_SIZE = 128;
+// Depth (in camera heights) assumed for anything at or beyond the horizon
+const HORIZON_DEPTH = 30;
+// Ceiling height above the camera, in camera heights, when no wall shows both junctions
+const DEFAULT_CEILING_HEIGHT = 1.5;
+// Row bands used to measure the floor's texture density
+const TEXTURE_BANDS = 32;
+const TEXTURE_EDGE_THRESHOLD = 40;
+
+// Depth at a source-image position, interpolated bilinearly
+export function sampleDepth(depth: DepthBuffer, x: number, y: number, sourceWidth: number, sourceHeight: number): number {
+  const gx = Math.min(depth.width - 1, Math.max(0, (x / sourceWidth) * depth.width - 0.5));
+  const gy = Math.min(depth.height - 1, Math.max(0, (y / sourceHeight) * depth.height - 0.5));
+  const x0 = Math.floor(gx);
+  const y0 = Math.floor(gy);
+  const x1 = Math.min(depth.width - 1, x0 + 1);
+  const y1 = Math.min(depth.height - 1, y0 + 1);
+  const fx = gx - x0;
+  const fy = gy - y0;
+
+  const top = depth.data[y0 * depth.width + x0] * (1 - fx) + depth.data[y0 * depth.width + x1] * fx;
+  const bottom = depth.data[y1 * depth.width + x0] * (1 - fx) + depth.data[y1 * depth.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+// Shrink a full-resolution depth map to at most MAX_DEPTH_SIZE per side by area averaging
+export function resampleDepth(values: ArrayLike<number>, width: number, height: number): DepthBuffer {
+  const { width: dw, height: dh } = depthMapSize(width, height);
+  const sums = new Float32Array(dw * dh);
+  const counts = new Uint32Array(dw * dh);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(dh - 1, Math.floor((y * dh) / height)) * dw;
+    for (let x = 0; x < width; x++) {
+      const cell = row + Math.min(dw - 1, Math.floor((x * dw) / width));
+      sums[cell] += values[y * width + x];
+      counts[cell]++;
+    }
+  }
+
+  for (let i = 0; i < sums.length; i++) {
+    sums[i] = counts[i] ? sums[i] / counts[i] : 0;
+  }
+  return { data: sums, width: dw, height: dh };
+}
+
+// Estimate depth from the room layout: surfaces are planes, placed by the horizon and focal length
+export function estimateGeometricDepth(
+  surfaces: LayoutSurface[],
+  perspective: PerspectiveEstimate,
+  edges: Uint8ClampedArray,
+  width: number,
+  height: number
+): GeometricDepth {
+  const { width: gw, height: gh } = depthMapSize(width, height);
+  const cellWidth = width / gw;
+  const cellHeight = height / gh;
+  const focal = perspective.focalLength;
+  const horizon = estimateHorizon(perspective, edges, width, height, surfaces.find(s => s.label === 'floor'));
+
+  // Which surface each cell centre lies on
+  const labels = new Int16Array(gw * gh).fill(-1);
+  for (let row = 0; row < gh; row++) {
+    for (let col = 0; col < gw; col++) {
+      const x = (col + 0.5) * cellWidth;
+      const y = (row + 0.5) * cellHeight;
+      labels[row * gw + col] = surfaces.findIndex(surface => pointInPolygon(x, y, surface.polygon));
+    }
+  }
+
+  // Inverse depth of the floor (1 camera height below) and the ceiling at an image row
+  const floorInverse = (y: number) => (y - horizon) / focal;
+  const junctions = surfaces.map((surface, index) => findJunctions(labels, surfaces, index, gw, gh, cellWidth, cellHeight));
+  const ceilingHeight = estimateCeilingHeight(junctions, horizon);
+  const ceilingInverse = (y: number) => (horizon - y) / (focal * ceilingHeight);
+
+  // Walls are vertical planes, so their inverse depth is affine in x; fit it to the junction depths
+  const wallFits = surfaces.map((surface, index) => {
+    if (!WALL_LABELS.includes(surface.label)) return null;
+    const samples = [
+      ...junctions[index].floor.map(point => ({ x: point.x, y: floorInverse(point.y) })),
+      ...junctions[index].ceiling.map(point => ({ x: point.x, y: ceilingInverse(point.y) })),
+    ].filter(sample => sample.y > 0);
+    if (samples.length === 0) {
+      // Reaches the bottom of the image: the floor junction is at least that low
+      const bottom = Math.max(...surface.polygon.map(point => point.y));
+      return { slope: 0, intercept: floorInverse(bottom) };
+    }
+    return fitLine(samples);
+  });
+
+  const minInverse = 1 / HORIZON_DEPTH;
+  const depths = new Float32Array(gw * gh);
+  for (let row = 0; row < gh; row++) {
+    const y = (row + 0.5) * cellHeight;
+    for (let col = 0; col < gw; col++) {
+      const x = (col + 0.5) * cellWidth;
+      const label = labels[row * gw + col];
+      const fit = label >= 0 ? wallFits[label] : null;
+
+      let inverse: number;
+      if (fit) {
+        inverse = fit.slope * x + fit.intercept;
+      } else if (label >= 0 && surfaces[label].label === 'ceiling') {
+        inverse = ceilingInverse(y);
+      } else if (label >= 0 && surfaces[label].label === 'floor') {
+        inverse = floorInverse(y);
+      } else {
+        inverse = y > horizon ? floorInverse(y) : ceilingInverse(y);
+      }
+      depths[row * gw + col] = 1 / Math.max(minInverse, inverse);
+    }
+  }
+
+  // Normalize to 0 (near) - 1 (far)
+  let minDepth = Infinity;
+  let maxDepth = -Infinity;
+  for (let i = 0; i < depths.length; i++) {
+    minDepth = Math.min(minDepth, depths[i]);
+    maxDepth = Math.max(maxDepth, depths[i]);
+  }
+  const range = maxDepth - minDepth || 1;
+  for (let i = 0; i < depths.length; i++) {
+    depths[i] = (depths[i] - minDepth) / range;
+  }
+
+  return {
+    depth: { data: depths, width: gw, height: gh },
+    minDepth: Math.round(minDepth * 100) / 100,
+    maxDepth: Math.round(maxDepth * 100) / 100,
+  };
+}
+
+function depthMapSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(1, MAX_DEPTH_SIZE / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+// Image row of the horizon: the height of the horizontal vanishing points, else where the floor's
+// texture would become infinitely dense, else the image centre
+function estimateHorizon(
+  perspective: PerspectiveEstimate,
+  edges: Uint8ClampedArray,
+  width: number,
+  height: number,
+  floor?: LayoutSurface
+): number {
+  const finite = perspective.horizontal.filter(point => !point.atInfinity);
+  if (finite.length > 0) {
+    const support = finite.reduce((sum, point) => sum + Math.max(1, point.support), 0);
+    return finite.reduce((sum, point) => sum + point.y * Math.max(1, point.support), 0) / support;
+  }
+
+  return horizonFromTexture(edges, width, height, floor) ?? height / 2;
+}
+
+// On a uniformly textured floor the density of edges per pixel grows with depth squared, and depth
+// with 1 / (y - horizon), so 1 / sqrt(density) is linear in y and reaches zero at the horizon
+function horizonFromTexture(edges: Uint8ClampedArray, width: number, height: number, floor?: LayoutSurface): number | null {
+  const top = floor ? Math.max(0, Math.min(...floor.polygon.map(point => point.y))) : height / 2;
+  const bandHeight = Math.max(1, Math.floor((height - top) / TEXTURE_BANDS));
+  if (height - top < bandHeight * 4) return null;
+
+  const region = floor ? rasterizePolygon(floor.polygon, width, height) : null;
+  const samples: Point2D[] = [];
+  for (let start = Math.floor(top); start + bandHeight <= height; start += bandHeight) {
+    let count = 0;
+    let total = 0;
+    for (let y = start; y < start + bandHeight; y++) {
+      for (let x = 0; x < width; x++) {
+        if (region && region.data[(y * width + x) * 4 + 3] === 0) continue;
+        total++;
+        if (edges[y * width + x] >= TEXTURE_EDGE_THRESHOLD) count++;
+      }
+    }
+    if (count > 0 && total > 0) {
+      samples.push({ x: start + bandHeight / 2, y: 1 / Math.sqrt(count / total) });
+    }
+  }
+  if (samples.length < 4) return null;
+
+  const { slope, intercept } = fitLine(samples);
+  if (slope <= 0) return null; // texture doesn't get sparser towards the camera
+  const horizon = -intercept / slope;
+  return horizon >= -height && horizon < height ? horizon : null;
+}
+
+// Points (source pixels) where a surface meets the floor below it and the ceiling above it
+function findJunctions(
+  labels: Int16Array,
+  surfaces: LayoutSurface[],
+  index: number,
+  gw: number,
+  gh: number,
+  cellWidth: number,
+  cellHeight: number
+): { floor: Point2D[]; ceiling: Point2D[] } {
+  const floor: Point2D[] = [];
+  const ceiling: Point2D[] = [];
+  const labelAt = (row: number, col: number) => {
+    const value = labels[row * gw + col];
+    return value >= 0 ? surfaces[value].label : null;
+  };
+
+  for (let col = 0; col < gw; col++) {
+    let first = -1;
+    let last = -1;
+    for (let row = 0; row < gh; row++) {
+      if (labels[row * gw + col] !== index) continue;
+      if (first < 0) first = row;
+      last = row;
+    }
+    if (first < 0) continue;
+
+    const x = (col + 0.5) * cellWidth;
+    if (last < gh - 1 && labelAt(last + 1, col) === 'floor') floor.push({ x, y: (last + 1) * cellHeight });
+    if (first > 0 && labelAt(first - 1, col) === 'ceiling') ceiling.push({ x, y: first * cellHeight });
+  }
+
+  return { floor, ceiling };
+}
+
+// Ceiling height relative to the camera's from wall columns that show both junctions:
+// the same wall depth gives (horizon - ceiling y) / (floor y - horizon) = ceiling height
+function estimateCeilingHeight(
+  junctions: Array<{ floor: Point2D[]; ceiling: Point2D[] }>,
+  horizon: number
+): number {
+  const ratios: number[] = [];
+  for (const { floor, ceiling } of junctions) {
+    for (const bottom of floor) {
+      const top = ceiling.find(point => Math.abs(point.x - bottom.x) < 1e-6);
+      if (top && bottom.y > horizon && top.y < horizon) {
+        ratios.push((horizon - top.y) / (bottom.y - horizon));
+      }
+    }
+  }
+  if (ratios.length === 0) return DEFAULT_CEILING_HEIGHT;
+
+  ratios.sort((a, b) => a - b);
+  return ratios[Math.floor(ratios.length / 2)];
+}
+
+// Least-squares line y = slope * x + intercept; flat when the samples don't spread along x
+function fitLine(samples: Point2D[]): { slope: number; intercept: number } {
+  const n = samples.length;
+  const mx = samples.reduce((sum, s) => sum + s.x, 0) / n;
+  const my = samples.reduce((sum, s) => sum + s.y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (const s of samples) {
+    sxx += (s.x - mx) * (s.x - mx);
+    sxy += (s.x - mx) * (s.y - my);
+  }
+  if (sxx < 1e-6) return { slope: 0, intercept: my };
+  const slope = sxy / sxx;
+  return { slope, intercept: my - slope * mx };
+}
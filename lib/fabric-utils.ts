@@ -1,39 +1,235 @@
-import fabric from 'fabric';
+import * as fabric from 'fabric';
+import { runAnalysis } from '@/lib/analysis-pool';
+import { hexToRgb } from '@/lib/color-science';
+import type { Point2D } from '@/lib/geometry';
+import { getPlaneTextureSize, warpPattern } from '@/lib/pattern-warp';
+import type { PerspectivePlane } from '@/lib/perspective';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { DEFAULT_PAINT_FINISH, recolorRegion } from '@/lib/recolor';
+import { getTileHeight, type ScaleCalibration } from '@/lib/scale-calibration';
+import { getMaskBounds, maskToCanvas, updateMaskCanvas, type MaskBounds, type MaskRegion } from '@/lib/wall-mask';
 
 export interface WallObject extends fabric.Object {
   isWall?: boolean;
   originalImage?: string;
-  maskData?: ImageData;
+  maskData?: PixelBuffer;
 }
 
 export interface DesignObject extends fabric.Object {
   isDesign?: boolean;
   designType?: 'pvc' | 'wallpaper' | 'paint' | 'texture';
   designId?: string;
+  surfaceId?: string;
 }
 
-// Create a wall mask overlay
-export function createWallMask(bounds: any): fabric.Rect {
-  return new fabric.Rect({
-    left: bounds.x,
-    top: bounds.y,
-    width: bounds.width,
-    height: bounds.height,
-    fill: 'rgba(59, 130, 246, 0.3)',
-    stroke: '#3b82f6',
-    strokeWidth: 2,
-    strokeDashArray: [5, 5],
+export interface OccluderObject extends fabric.Object {
+  isOccluder?: boolean;
+  occluderId?: string;
+}
+
+// Display tint (RGBA, alpha 0-1) of wall mask overlays
+const MASK_OVERLAY_TINT: [number, number, number, number] = [59, 130, 246, 0.3];
+
+// Perspective patterns are rendered at this multiple of their displayed size (the export resolution),
+// but never above the photo's own
+const PATTERN_RENDER_SCALE = 2;
+
+// Quilted textures are grown to a multiple of this size (so small changes to a wall reuse them),
+// at most the maximum per side; the renderers repeat them beyond that
+const SYNTHESIS_SIZE_STEP = 64;
+const MAX_SYNTHESIS_SIZE = 2048;
+// Quilted textures kept, least recently created dropped first
+const MAX_SYNTHESIZED_TEXTURES = 8;
+
+const texturePixels = new Map<string, Promise<ImageData>>();
+const synthesizedTextures = new Map<string, Promise<PixelBuffer>>();
+
+// Map a rectangle in source-image pixels to canvas coordinates
+export function imageBoundsToCanvas(bounds: MaskBounds, image: fabric.Image): MaskBounds {
+  const scaleX = image.scaleX || 1;
+  const scaleY = image.scaleY || 1;
+
+  return {
+    x: (image.left || 0) + bounds.x * scaleX,
+    y: (image.top || 0) + bounds.y * scaleY,
+    width: bounds.width * scaleX,
+    height: bounds.height * scaleY,
+  };
+}
+
+// Map a canvas point to source-image pixel coordinates
+export function canvasPointToImage(point: { x: number; y: number }, image: fabric.Image): { x: number; y: number } {
+  return {
+    x: (point.x - (image.left || 0)) / (image.scaleX || 1),
+    y: (point.y - (image.top || 0)) / (image.scaleY || 1),
+  };
+}
+
+// Read the full-resolution pixels of a fabric image
+export function getImagePixels(image: fabric.Image): ImageData {
+  const element = image.getElement();
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width || 0;
+  canvas.height = image.height || 0;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(element, 0, 0, canvas.width, canvas.height);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Create a wall mask overlay that follows the mask pixels
+export function createWallMask(mask: PixelBuffer, image: fabric.Image): fabric.Image & WallObject {
+  const overlay = new fabric.Image(maskToCanvas(mask, MASK_OVERLAY_TINT), {
+    left: image.left,
+    top: image.top,
+    scaleX: image.scaleX,
+    scaleY: image.scaleY,
     selectable: false,
     evented: false,
     opacity: 0.7,
+  }) as fabric.Image & WallObject;
+
+  overlay.isWall = true;
+  overlay.maskData = mask;
+
+  return overlay;
+}
+
+// Show an in-progress mask edit on an overlay without rebuilding it
+export function refreshWallMask(overlay: fabric.Image, mask: PixelBuffer, rect: MaskBounds): void {
+  updateMaskCanvas(overlay.getElement() as HTMLCanvasElement, mask, rect, MASK_OVERLAY_TINT);
+  overlay.set('dirty', true);
+}
+
+// Cut a foreground object out of the photo so it can be composited above designs
+export function createOccluderLayer(
+  pixels: PixelBuffer,
+  region: Pick<MaskRegion, 'bounds' | 'mask'>,
+  image: fabric.Image,
+  occluderId: string
+): fabric.Image & OccluderObject {
+  const { x, y, width, height } = region.bounds;
+  const element = document.createElement('canvas');
+  element.width = width;
+  element.height = height;
+  const ctx = element.getContext('2d')!;
+  const cutout = ctx.createImageData(width, height);
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const sx = x + col;
+      const sy = y + row;
+      if (sx < 0 || sy < 0 || sx >= pixels.width || sy >= pixels.height) continue;
+      const src = (sy * pixels.width + sx) * 4;
+      const dst = (row * width + col) * 4;
+      cutout.data[dst] = pixels.data[src];
+      cutout.data[dst + 1] = pixels.data[src + 1];
+      cutout.data[dst + 2] = pixels.data[src + 2];
+      cutout.data[dst + 3] = region.mask.data[dst + 3];
+    }
+  }
+  ctx.putImageData(cutout, 0, 0);
+
+  const origin = imageBoundsToCanvas(region.bounds, image);
+  const layer = new fabric.Image(element, {
+    left: origin.x,
+    top: origin.y,
+    scaleX: image.scaleX,
+    scaleY: image.scaleY,
+    selectable: false,
+    evented: false,
+  }) as fabric.Image & OccluderObject;
+
+  layer.isOccluder = true;
+  layer.occluderId = occluderId;
+
+  return layer;
+}
+
+// Keep foreground cutouts above every design
+export function bringOccludersToFront(canvas: fabric.Canvas): void {
+  canvas.getObjects().forEach(obj => {
+    if ((obj as OccluderObject).isOccluder) {
+      canvas.bringObjectToFront(obj);
+    }
+  });
+}
+
+// Create an absolutely positioned clip path from a wall mask
+export function createMaskClipPath(mask: PixelBuffer, image: fabric.Image): fabric.Image {
+  return new fabric.Image(maskToCanvas(mask), {
+    left: image.left,
+    top: image.top,
+    scaleX: image.scaleX,
+    scaleY: image.scaleY,
+    absolutePositioned: true,
+  });
+}
+
+// Canvas-space bounds of the covered part of a mask
+export function getMaskCanvasBounds(mask: PixelBuffer, image: fabric.Image): MaskBounds {
+  return imageBoundsToCanvas(getMaskBounds(mask), image);
+}
+
+// Map source-image pixel points to canvas coordinates
+export function imagePointsToCanvas(points: Point2D[], image: fabric.Image): Point2D[] {
+  return points.map(point => ({
+    x: (image.left || 0) + point.x * (image.scaleX || 1),
+    y: (image.top || 0) + point.y * (image.scaleY || 1),
+  }));
+}
+
+// Map canvas points to source-image pixel coordinates
+export function canvasPointsToImage(points: Point2D[], image: fabric.Image): Point2D[] {
+  return points.map(point => canvasPointToImage(point, image));
+}
+
+// Create a polygon with a draggable handle on every vertex (points in canvas coordinates)
+export function createEditablePolygon(points: Point2D[]): fabric.Polygon {
+  const polygon = new fabric.Polygon(points, {
+    fill: 'rgba(59, 130, 246, 0.15)',
+    stroke: '#3b82f6',
+    strokeWidth: 2,
+    objectCaching: false,
+    hasBorders: false,
+    lockMovementX: true,
+    lockMovementY: true,
+    cornerStyle: 'circle',
+    cornerColor: '#ffffff',
+    cornerStrokeColor: '#3b82f6',
+    transparentCorners: false,
+    cornerSize: 10,
+  });
+  polygon.controls = fabric.controlsUtils.createPolyControls(polygon);
+
+  return polygon;
+}
+
+// Current vertices of a polygon in canvas coordinates
+export function getPolygonCanvasPoints(polygon: fabric.Polygon): Point2D[] {
+  const matrix = polygon.calcTransformMatrix();
+  return polygon.points.map(point =>
+    fabric.util.transformPoint(
+      new fabric.Point(point.x - polygon.pathOffset.x, point.y - polygon.pathOffset.y),
+      matrix
+    )
+  );
+}
+
+// Create an absolutely positioned clip path from a polygon in canvas coordinates
+export function createPolygonClipPath(points: Point2D[]): fabric.Polygon {
+  return new fabric.Polygon(points, {
+    absolutePositioned: true,
   });
 }
 
-// Apply design pattern to canvas object
+// Apply design pattern to canvas object. With the photo's scale (canvas pixels per cm), a design
+// with a physical tile size is drawn at that size instead of one texel per canvas pixel
 export async function applyDesignPattern(
   canvas: fabric.Canvas,
   design: any,
-  targetBounds: any
+  targetBounds: any,
+  clipPath?: fabric.Object,
+  pixelsPerCm?: number
 ): Promise<fabric.Object | null> {
   try {
     if (design.category === 'paint') {
@@ -45,6 +241,7 @@ export async function applyDesignPattern(
         height: targetBounds.height,
         fill: design.color,
         opacity: 0.8,
+        clipPath,
         selectable: true,
         evented: true,
       });
@@ -55,12 +252,22 @@ export async function applyDesignPattern(
       
       return colorRect;
     } else {
-      // Pattern/texture application
-      const patternImg = await fabric.Image.fromURL(design.url);
-      
+      // Pattern/texture application: the design's seamless tile when it has one, otherwise the swatch
+      // quilted to the surface's size, so it shows no seams
+      const swatch = await loadTexturePixels(design.tile ?? design.url);
+      const scale = design.tileSize && pixelsPerCm ? (design.tileSize.height * pixelsPerCm) / swatch.height : 1;
+      const texture = design.tile
+        ? swatch
+        : await loadSynthesizedTexture(design, targetBounds.width / scale, targetBounds.height / scale);
+      const element = document.createElement('canvas');
+      element.width = texture.width;
+      element.height = texture.height;
+      element.getContext('2d')!.putImageData(new ImageData(texture.data, texture.width, texture.height), 0, 0);
+
       const pattern = new fabric.Pattern({
-        source: patternImg.getElement(),
+        source: element,
         repeat: 'repeat',
+        patternTransform: [scale, 0, 0, scale, 0, 0],
       });
 
       const patternRect = new fabric.Rect({
@@ -70,6 +277,7 @@ export async function applyDesignPattern(
         height: targetBounds.height,
         fill: pattern,
         opacity: 0.9,
+        clipPath,
         selectable: true,
         evented: true,
       });
@@ -86,11 +294,137 @@ export async function applyDesignPattern(
   }
 }
 
-// Remove all design objects from canvas
-export function clearDesigns(canvas: fabric.Canvas): void {
+// Apply a pattern design warped onto a wall's perspective plane. Bounds are the image-pixel
+// rectangle to cover, the clip path cuts it to the wall. With the photo's scale, a design with a
+// physical tile size repeats at that size along the wall
+export async function applyPerspectivePattern(
+  design: any,
+  plane: Pick<PerspectivePlane, 'corners' | 'homography' | 'aspectRatio'>,
+  bounds: MaskBounds,
+  image: fabric.Image,
+  clipPath?: fabric.Object,
+  calibration?: ScaleCalibration | null
+): Promise<fabric.Object | null> {
+  try {
+    // Repeat the design's seamless tile, or quilt the swatch out to the texels the whole plane spans
+    // and tile that once across it
+    const swatch = await loadTexturePixels(design.tile ?? design.url);
+    const tileHeight = design.tileSize && calibration ? getTileHeight(design.tileSize, calibration) : undefined;
+    const size = getPlaneTextureSize(swatch, plane, { tileHeight });
+    const texture = design.tile ? swatch : await loadSynthesizedTexture(design, size.width, size.height);
+    const scale = Math.min(1, PATTERN_RENDER_SCALE * (image.scaleX || 1));
+    const warped = warpPattern(texture, plane, bounds, { scale, tileHeight: texture.height / size.height });
+
+    const element = document.createElement('canvas');
+    element.width = warped.width;
+    element.height = warped.height;
+    element.getContext('2d')!.putImageData(new ImageData(warped.data, warped.width, warped.height), 0, 0);
+
+    const origin = imageBoundsToCanvas(bounds, image);
+    const patternImage = new fabric.Image(element, {
+      left: origin.x,
+      top: origin.y,
+      scaleX: origin.width / warped.width,
+      scaleY: origin.height / warped.height,
+      opacity: 0.9,
+      clipPath,
+      selectable: true,
+      evented: true,
+    });
+
+    (patternImage as DesignObject).isDesign = true;
+    (patternImage as DesignObject).designType = design.category;
+    (patternImage as DesignObject).designId = design.id;
+
+    return patternImage;
+  } catch (error) {
+    console.error('Error applying perspective pattern:', error);
+    return null;
+  }
+}
+
+// Paint a surface by recoloring the photo: the paint color keeps the wall's own light and shadows.
+// `mask` is the surface matte in source-image pixels; null when the design has no valid color
+export function applyPaintRecolor(
+  design: any,
+  source: PixelBuffer,
+  mask: PixelBuffer,
+  bounds: MaskBounds,
+  image: fabric.Image,
+  clipPath?: fabric.Object
+): fabric.Image | null {
+  const color = typeof design.color === 'string' ? hexToRgb(design.color) : null;
+  if (!color) return null;
+
+  const scale = Math.min(1, PATTERN_RENDER_SCALE * (image.scaleX || 1));
+  const painted = recolorRegion(source, mask, color, bounds, { scale, finish: design.finish ?? DEFAULT_PAINT_FINISH });
+
+  const element = document.createElement('canvas');
+  element.width = painted.width;
+  element.height = painted.height;
+  element.getContext('2d')!.putImageData(new ImageData(painted.data, painted.width, painted.height), 0, 0);
+
+  const origin = imageBoundsToCanvas(bounds, image);
+  const paintImage = new fabric.Image(element, {
+    left: origin.x,
+    top: origin.y,
+    scaleX: origin.width / painted.width,
+    scaleY: origin.height / painted.height,
+    opacity: 1,
+    clipPath,
+    selectable: true,
+    evented: true,
+  });
+
+  (paintImage as DesignObject).isDesign = true;
+  (paintImage as DesignObject).designType = 'paint';
+  (paintImage as DesignObject).designId = design.id;
+
+  return paintImage;
+}
+
+// Pixels of a texture image, loaded once per URL
+function loadTexturePixels(url: string): Promise<ImageData> {
+  let loading = texturePixels.get(url);
+  if (!loading) {
+    loading = fabric.Image.fromURL(url, { crossOrigin: 'anonymous' }).then(getImagePixels);
+    loading.catch(() => texturePixels.delete(url));
+    texturePixels.set(url, loading);
+  }
+  return loading;
+}
+
+// A design's swatch quilted to at least width × height texels (or scaled down to fit the maximum)
+// in an analysis worker, cached per design and size
+function loadSynthesizedTexture(design: any, width: number, height: number): Promise<PixelBuffer> {
+  const fit = Math.min(1, MAX_SYNTHESIS_SIZE / Math.max(width, height));
+  const w = Math.max(SYNTHESIS_SIZE_STEP, Math.ceil((width * fit) / SYNTHESIS_SIZE_STEP) * SYNTHESIS_SIZE_STEP);
+  const h = Math.max(SYNTHESIS_SIZE_STEP, Math.ceil((height * fit) / SYNTHESIS_SIZE_STEP) * SYNTHESIS_SIZE_STEP);
+  const key = `${design.id}:${w}x${h}`;
+
+  let loading = synthesizedTextures.get(key);
+  if (!loading) {
+    loading = loadTexturePixels(design.url).then(swatch =>
+      // The worker takes ownership of the buffer it is sent, and the swatch stays cached here
+      runAnalysis('quilt', { data: swatch.data.slice(), width: swatch.width, height: swatch.height }, {
+        size: { width: w, height: h },
+      })
+    );
+    loading.catch(() => synthesizedTextures.delete(key));
+    synthesizedTextures.set(key, loading);
+    if (synthesizedTextures.size > MAX_SYNTHESIZED_TEXTURES) {
+      synthesizedTextures.delete(synthesizedTextures.keys().next().value!);
+    }
+  }
+  return loading;
+}
+
+// Remove design objects from canvas, optionally only those on one surface
+export function clearDesigns(canvas: fabric.Canvas, surfaceId?: string): void {
   const objects = canvas.getObjects();
   objects.forEach(obj => {
-    if ((obj as DesignObject).isDesign) {
+    const design = obj as DesignObject;
+    if (design.isDesign && (!surfaceId || design.surfaceId === surfaceId)) {
       canvas.remove(obj);
     }
   });
@@ -0,0 +1,137 @@
+// 2D geometry helpers shared by segmentation and the polygon editor
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+// Even-odd point-in-polygon test
+export function pointInPolygon(x: number, y: number, polygon: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Closest point on segment ab to p
+export function closestPointOnSegment(p: Point2D, a: Point2D, b: Point2D): Point2D {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return { x: a.x, y: a.y };
+
+  const t = Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+export function distance(a: Point2D, b: Point2D): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// Index of the polygon vertex within radius of p, or -1
+export function findVertexNear(polygon: Point2D[], p: Point2D, radius: number): number {
+  let best = -1;
+  let bestDistance = radius;
+  polygon.forEach((vertex, index) => {
+    const d = distance(vertex, p);
+    if (d <= bestDistance) {
+      best = index;
+      bestDistance = d;
+    }
+  });
+  return best;
+}
+
+// Insert a vertex on the polygon edge closest to p
+export function insertVertex(polygon: Point2D[], p: Point2D): Point2D[] {
+  let bestEdge = 0;
+  let bestPoint = polygon[0];
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const candidate = closestPointOnSegment(p, a, b);
+    const d = distance(candidate, p);
+    if (d < bestDistance) {
+      bestDistance = d;
+      bestEdge = i;
+      bestPoint = candidate;
+    }
+  }
+
+  return [...polygon.slice(0, bestEdge + 1), bestPoint, ...polygon.slice(bestEdge + 1)];
+}
+
+// Remove a vertex, keeping at least a triangle
+export function removeVertex(polygon: Point2D[], index: number): Point2D[] {
+  if (polygon.length <= 3) return polygon;
+  return polygon.filter((_, i) => i !== index);
+}
+
+// Convex hull (monotone chain), counter-clockwise in screen coordinates
+export function convexHull(points: Point2D[]): Point2D[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  if (sorted.length < 3) return sorted;
+
+  const cross = (o: Point2D, a: Point2D, b: Point2D) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+  const lower: Point2D[] = [];
+  for (const p of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: Point2D[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const p = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+}
+
+// Drop vertices that deviate less than tolerance from the line through their neighbours
+export function simplifyPolygon(polygon: Point2D[], tolerance: number): Point2D[] {
+  let result = polygon;
+  let changed = true;
+  while (changed && result.length > 4) {
+    changed = false;
+    for (let i = 0; i < result.length && result.length > 4; i++) {
+      const prev = result[(i - 1 + result.length) % result.length];
+      const next = result[(i + 1) % result.length];
+      if (distance(closestPointOnSegment(result[i], prev, next), result[i]) < tolerance) {
+        result = result.filter((_, j) => j !== i);
+        changed = true;
+      }
+    }
+  }
+  return result;
+}
+
+// An infinite line through a point with a (not necessarily unit) direction
+export interface Line2D {
+  point: Point2D;
+  direction: Point2D;
+}
+
+// Perpendicular distance from p to an infinite line
+export function distanceToLine(p: Point2D, line: Line2D): number {
+  const { point, direction } = line;
+  const length = Math.hypot(direction.x, direction.y);
+  if (length === 0) return distance(p, point);
+  return Math.abs((p.x - point.x) * direction.y - (p.y - point.y) * direction.x) / length;
+}
+
+// Intersection of two infinite lines, or null if they are parallel
+export function intersectLines(a: Line2D, b: Line2D): Point2D | null {
+  const denominator = a.direction.x * b.direction.y - a.direction.y * b.direction.x;
+  if (Math.abs(denominator) < 1e-9) return null;
+
+  const t = ((b.point.x - a.point.x) * b.direction.y - (b.point.y - a.point.y) * b.direction.x) / denominator;
+  return { x: a.point.x + t * a.direction.x, y: a.point.y + t * a.direction.y };
+}
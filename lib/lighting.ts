@@ -0,0 +1,126 @@
+// Light estimation on a wall: where its light comes from, read off the photo's low-frequency shading
+// The wall's luminance is averaged onto a coarse grid; a least-squares plane through it gives the
+// direction the light falls off from, and the brightest cells give the spot nearest the light
+
+import { toLinear } from '@/lib/color-science';
+import type { Point2D } from '@/lib/geometry';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import type { MaskBounds } from '@/lib/wall-mask';
+
+export interface WallLighting {
+  direction: Point2D; // unit vector in image space pointing toward the light; zero when evenly lit
+  hotspot: Point2D; // source-image pixel of the brightest part of the wall
+  falloff: number; // relative luminance change across the wall along the direction (0 = even)
+  shading: LightField; // low-frequency luminance relative to the wall's median
+}
+
+// Coarse luminance grid over a wall's bounds, sampled bilinearly
+export interface LightField {
+  data: Float32Array;
+  width: number;
+  height: number;
+  bounds: MaskBounds;
+  cell: number; // source-image pixels per cell side
+}
+
+// Cells along the longer side of the light field
+const FIELD_SIZE = 48;
+// Share of the wall's cells averaged into the hotspot
+const HOTSPOT_SHARE = 0.05;
+const MIN_COVERAGE = 128;
+
+const LINEAR = Float32Array.from({ length: 256 }, (_, channel) => toLinear(channel));
+
+export function estimateWallLighting(source: PixelBuffer, mask: PixelBuffer, bounds: MaskBounds): WallLighting {
+  const cell = Math.max(1, Math.max(bounds.width, bounds.height) / FIELD_SIZE);
+  const gw = Math.max(1, Math.ceil(bounds.width / cell));
+  const gh = Math.max(1, Math.ceil(bounds.height / cell));
+  const sums = new Float32Array(gw * gh);
+  const counts = new Uint32Array(gw * gh);
+
+  // Mean linear luminance of the wall pixels in each cell
+  const step = Math.max(1, Math.floor(cell / 4));
+  for (let y = bounds.y; y < bounds.y + bounds.height; y += step) {
+    const row = Math.min(gh - 1, Math.floor((y - bounds.y) / cell)) * gw;
+    for (let x = bounds.x; x < bounds.x + bounds.width; x += step) {
+      const idx = (y * source.width + x) * 4;
+      if (mask.data[idx + 3] < MIN_COVERAGE) continue;
+      const index = row + Math.min(gw - 1, Math.floor((x - bounds.x) / cell));
+      sums[index] += 0.2126729 * LINEAR[source.data[idx]] + 0.7151522 * LINEAR[source.data[idx + 1]] + 0.072175 * LINEAR[source.data[idx + 2]];
+      counts[index]++;
+    }
+  }
+
+  const cells: Array<{ x: number; y: number; value: number }> = [];
+  for (let i = 0; i < sums.length; i++) {
+    if (counts[i] === 0) continue;
+    sums[i] /= counts[i];
+    cells.push({ x: bounds.x + ((i % gw) + 0.5) * cell, y: bounds.y + (Math.floor(i / gw) + 0.5) * cell, value: sums[i] });
+  }
+  const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  if (cells.length === 0) {
+    return { direction: { x: 0, y: 0 }, hotspot: center, falloff: 0, shading: { data: new Float32Array(gw * gh).fill(1), width: gw, height: gh, bounds, cell } };
+  }
+
+  // Normalize to the median, filling cells off the wall with it
+  const median = cells.map(c => c.value).sort((a, b) => a - b)[Math.floor(cells.length / 2)] || 1;
+  for (let i = 0; i < sums.length; i++) {
+    sums[i] = counts[i] ? sums[i] / median : 1;
+  }
+
+  // Plane fit value = a + b (x - mx) + c (y - my): the gradient points toward the light
+  const mx = cells.reduce((sum, c) => sum + c.x, 0) / cells.length;
+  const my = cells.reduce((sum, c) => sum + c.y, 0) / cells.length;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  let sxv = 0;
+  let syv = 0;
+  for (const c of cells) {
+    const dx = c.x - mx;
+    const dy = c.y - my;
+    const value = c.value / median;
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+    sxv += dx * value;
+    syv += dy * value;
+  }
+  const det = sxx * syy - sxy * sxy;
+  const gradient = Math.abs(det) > 1e-9
+    ? { x: (sxv * syy - syv * sxy) / det, y: (syv * sxx - sxv * sxy) / det }
+    : { x: 0, y: 0 };
+  const magnitude = Math.hypot(gradient.x, gradient.y);
+  // Rounded, so the rounding noise of an evenly lit wall's fit gives no direction
+  const falloff = Math.round(magnitude * Math.hypot(bounds.width, bounds.height) * 1000) / 1000;
+
+  // Brightest cells
+  const brightest = cells.slice().sort((a, b) => b.value - a.value).slice(0, Math.max(1, Math.round(cells.length * HOTSPOT_SHARE)));
+  const hotspot = {
+    x: brightest.reduce((sum, c) => sum + c.x, 0) / brightest.length,
+    y: brightest.reduce((sum, c) => sum + c.y, 0) / brightest.length,
+  };
+
+  return {
+    direction: falloff > 0 ? { x: gradient.x / magnitude, y: gradient.y / magnitude } : { x: 0, y: 0 },
+    hotspot,
+    falloff,
+    shading: { data: sums, width: gw, height: gh, bounds, cell },
+  };
+}
+
+// Low-frequency shading (1 = the wall's median) at a source-image position
+export function sampleLightField(field: LightField, x: number, y: number): number {
+  const gx = Math.min(field.width - 1, Math.max(0, (x - field.bounds.x) / field.cell - 0.5));
+  const gy = Math.min(field.height - 1, Math.max(0, (y - field.bounds.y) / field.cell - 0.5));
+  const x0 = Math.floor(gx);
+  const y0 = Math.floor(gy);
+  const x1 = Math.min(field.width - 1, x0 + 1);
+  const y1 = Math.min(field.height - 1, y0 + 1);
+  const fx = gx - x0;
+  const fy = gy - y0;
+
+  const top = field.data[y0 * field.width + x0] * (1 - fx) + field.data[y0 * field.width + x1] * fx;
+  const bottom = field.data[y1 * field.width + x0] * (1 - fx) + field.data[y1 * field.width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
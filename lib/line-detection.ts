@@ -0,0 +1,294 @@
+// Straight line detection: a Hough transform over a Sobel edge map
+// Finds the dominant room boundaries (wall-ceiling junctions, skirting lines, vertical corners) as segments
+
+import { distanceToLine, type Point2D } from '@/lib/geometry';
+
+export type LineOrientation = 'horizontal' | 'vertical' | 'oblique';
+
+export interface DetectedLine {
+  start: Point2D;
+  end: Point2D;
+  angle: number; // direction in degrees, 0 = horizontal, 90 = vertical (0-180)
+  orientation: LineOrientation;
+  strength: number; // 0-1, share of the segment covered by edge pixels
+}
+
+export interface LineDetectionOptions {
+  edgeThreshold?: number; // minimum Sobel magnitude (0-255) of an edge pixel
+  minLength?: number; // minimum segment length as a fraction of the image diagonal
+  maxLines?: number;
+}
+
+// Edge maps are max-pooled down to this longest side before voting
+const MAX_HOUGH_SIZE = 512;
+const THETA_STEPS = 180;
+// Degrees from horizontal or vertical that still count as axis-aligned
+const AXIS_TOLERANCE = 10;
+// Peaks closer than this (in theta steps and rho bins) to a stronger one are the same line
+const PEAK_THETA_RADIUS = 3;
+const PEAK_RHO_RADIUS = 4;
+const MAX_PEAK_CANDIDATES = 200;
+// Segments within this angle (degrees) and distance (pooled pixels) of a stronger one are dropped
+const DUPLICATE_ANGLE = 5;
+const DUPLICATE_DISTANCE = 3;
+
+// Find the dominant straight lines in a Sobel edge map (as returned by computeEdgeMap)
+export function detectLines(
+  edges: Uint8ClampedArray,
+  width: number,
+  height: number,
+  options: LineDetectionOptions = {}
+): DetectedLine[] {
+  const { edgeThreshold = 60, minLength = 0.12, maxLines = 24 } = options;
+
+  const scale = Math.max(1, Math.ceil(Math.max(width, height) / MAX_HOUGH_SIZE));
+  const binary = poolEdges(edges, width, height, scale, edgeThreshold);
+  const sw = Math.ceil(width / scale);
+  const sh = Math.ceil(height / scale);
+  const diagonal = Math.hypot(sw, sh);
+  const minPixels = Math.max(10, minLength * diagonal);
+
+  // Vote: rho = x cos(theta) + y sin(theta), theta in [0, 180)
+  const rhoOffset = Math.ceil(diagonal);
+  const rhoBins = 2 * rhoOffset + 1;
+  const cos = new Float32Array(THETA_STEPS);
+  const sin = new Float32Array(THETA_STEPS);
+  for (let t = 0; t < THETA_STEPS; t++) {
+    cos[t] = Math.cos((t * Math.PI) / THETA_STEPS);
+    sin[t] = Math.sin((t * Math.PI) / THETA_STEPS);
+  }
+
+  const votes = new Int32Array(THETA_STEPS * rhoBins);
+  for (let y = 0; y < sh; y++) {
+    for (let x = 0; x < sw; x++) {
+      if (!binary[y * sw + x]) continue;
+      for (let t = 0; t < THETA_STEPS; t++) {
+        votes[t * rhoBins + Math.round(x * cos[t] + y * sin[t]) + rhoOffset]++;
+      }
+    }
+  }
+
+  const peaks = findPeaks(votes, rhoBins, minPixels);
+  const lines: DetectedLine[] = [];
+  for (const peak of peaks) {
+    const segment = extractSegment(binary, sw, sh, cos[peak.theta], sin[peak.theta], peak.rho - rhoOffset, minPixels);
+    if (!segment) continue;
+
+    const { start, end } = refineSegment(
+      edges, width, height, edgeThreshold,
+      toSourcePoint(segment.start, scale, width, height),
+      toSourcePoint(segment.end, scale, width, height),
+      scale + 1
+    );
+    const angle = ((Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI + 180) % 180;
+    if (lines.some(line => isDuplicate(line, start, end, angle, DUPLICATE_DISTANCE * scale))) continue;
+
+    lines.push({
+      start,
+      end,
+      angle: Math.round(angle * 10) / 10,
+      orientation: classifyAngle(angle),
+      strength: Math.round(segment.coverage * 100) / 100,
+    });
+  }
+
+  return lines
+    .sort((a, b) => lineLength(b) * b.strength - lineLength(a) * a.strength)
+    .slice(0, maxLines);
+}
+
+export function lineLength(line: DetectedLine): number {
+  return Math.hypot(line.end.x - line.start.x, line.end.y - line.start.y);
+}
+
+// Whether a segment runs along an already detected line
+function isDuplicate(line: DetectedLine, start: Point2D, end: Point2D, angle: number, tolerance: number): boolean {
+  const delta = Math.abs(line.angle - angle);
+  if (Math.min(delta, 180 - delta) > DUPLICATE_ANGLE) return false;
+
+  const support = { point: line.start, direction: { x: line.end.x - line.start.x, y: line.end.y - line.start.y } };
+  const mid = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+  return distanceToLine(mid, support) <= tolerance;
+}
+
+function classifyAngle(angle: number): LineOrientation {
+  if (angle <= AXIS_TOLERANCE || angle >= 180 - AXIS_TOLERANCE) return 'horizontal';
+  if (Math.abs(angle - 90) <= AXIS_TOLERANCE) return 'vertical';
+  return 'oblique';
+}
+
+// Threshold the edge map and max-pool it by an integer factor
+function poolEdges(edges: Uint8ClampedArray, width: number, height: number, scale: number, threshold: number): Uint8Array {
+  const sw = Math.ceil(width / scale);
+  const sh = Math.ceil(height / scale);
+  const binary = new Uint8Array(sw * sh);
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / scale) * sw;
+    for (let x = 0; x < width; x++) {
+      if (edges[y * width + x] >= threshold) {
+        binary[row + Math.floor(x / scale)] = 1;
+      }
+    }
+  }
+
+  return binary;
+}
+
+// Local maxima of the accumulator, strongest first, with nearby duplicates suppressed
+function findPeaks(votes: Int32Array, rhoBins: number, minVotes: number): Array<{ theta: number; rho: number; votes: number }> {
+  const candidates: Array<{ theta: number; rho: number; votes: number }> = [];
+  for (let t = 0; t < THETA_STEPS; t++) {
+    for (let r = 1; r < rhoBins - 1; r++) {
+      const value = votes[t * rhoBins + r];
+      if (value < minVotes) continue;
+      if (value < votes[t * rhoBins + r - 1] || value < votes[t * rhoBins + r + 1]) continue;
+      if (t > 0 && value < votes[(t - 1) * rhoBins + r]) continue;
+      if (t < THETA_STEPS - 1 && value < votes[(t + 1) * rhoBins + r]) continue;
+      candidates.push({ theta: t, rho: r, votes: value });
+    }
+  }
+  candidates.sort((a, b) => b.votes - a.votes);
+
+  const peaks: typeof candidates = [];
+  for (const candidate of candidates.slice(0, MAX_PEAK_CANDIDATES)) {
+    const duplicate = peaks.some(peak => {
+      // theta wraps at 180 degrees, where rho changes sign
+      const dt = Math.abs(peak.theta - candidate.theta);
+      if (dt <= PEAK_THETA_RADIUS) return Math.abs(peak.rho - candidate.rho) <= PEAK_RHO_RADIUS;
+      if (THETA_STEPS - dt <= PEAK_THETA_RADIUS) {
+        return Math.abs(rhoBins - 1 - peak.rho - candidate.rho) <= PEAK_RHO_RADIUS;
+      }
+      return false;
+    });
+    if (!duplicate) peaks.push(candidate);
+  }
+
+  return peaks;
+}
+
+// Walk along a Hough line and return its longest run of edge pixels (bridging small gaps)
+function extractSegment(
+  binary: Uint8Array,
+  width: number,
+  height: number,
+  cos: number,
+  sin: number,
+  rho: number,
+  minPixels: number
+): { start: Point2D; end: Point2D; coverage: number } | null {
+  const origin = { x: rho * cos, y: rho * sin };
+  const direction = { x: -sin, y: cos };
+  const reach = Math.ceil(Math.hypot(width, height));
+  const maxGap = Math.max(3, Math.round(reach * 0.02));
+
+  const isEdge = (x: number, y: number) => {
+    // Accept a pixel either side of the line so slightly thick or jagged edges still count
+    for (let offset = -1; offset <= 1; offset++) {
+      const px = Math.round(x + offset * cos);
+      const py = Math.round(y + offset * sin);
+      if (px >= 0 && py >= 0 && px < width && py < height && binary[py * width + px]) return true;
+    }
+    return false;
+  };
+
+  let best: { from: number; to: number; hits: number } | null = null;
+  let run: { from: number; to: number; hits: number } | null = null;
+  let gap = 0;
+
+  for (let t = -reach; t <= reach; t++) {
+    const x = origin.x + t * direction.x;
+    const y = origin.y + t * direction.y;
+    if (x < 0 || y < 0 || x > width - 1 || y > height - 1) continue;
+
+    if (isEdge(x, y)) {
+      if (run) {
+        run.to = t;
+        run.hits++;
+      } else {
+        run = { from: t, to: t, hits: 1 };
+      }
+      gap = 0;
+    } else if (run && ++gap > maxGap) {
+      if (!best || run.to - run.from > best.to - best.from) best = run;
+      run = null;
+    }
+  }
+  if (run && (!best || run.to - run.from > best.to - best.from)) best = run;
+
+  if (!best || best.to - best.from < minPixels) return null;
+
+  return {
+    start: { x: origin.x + best.from * direction.x, y: origin.y + best.from * direction.y },
+    end: { x: origin.x + best.to * direction.x, y: origin.y + best.to * direction.y },
+    coverage: best.hits / (best.to - best.from + 1),
+  };
+}
+
+// Fit a segment found on the pooled grid to the full-resolution edge pixels around it
+// (magnitude-weighted least squares), which recovers sub-degree angles
+function refineSegment(
+  edges: Uint8ClampedArray,
+  width: number,
+  height: number,
+  threshold: number,
+  start: Point2D,
+  end: Point2D,
+  band: number
+): { start: Point2D; end: Point2D } {
+  const length = Math.hypot(end.x - start.x, end.y - start.y);
+  if (length < 1) return { start, end };
+  const ux = (end.x - start.x) / length;
+  const uy = (end.y - start.y) / length;
+
+  let weight = 0;
+  let sx = 0;
+  let sy = 0;
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (let t = 0; t <= length; t++) {
+    for (let offset = -band; offset <= band; offset++) {
+      const x = Math.round(start.x + t * ux - offset * uy);
+      const y = Math.round(start.y + t * uy + offset * ux);
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      const magnitude = edges[y * width + x];
+      if (magnitude < threshold) continue;
+      weight += magnitude;
+      sx += magnitude * x;
+      sy += magnitude * y;
+      sxx += magnitude * x * x;
+      syy += magnitude * y * y;
+      sxy += magnitude * x * y;
+    }
+  }
+  if (weight === 0) return { start, end };
+
+  // Principal axis of the weighted edge pixels
+  const mx = sx / weight;
+  const my = sy / weight;
+  const cxx = sxx / weight - mx * mx;
+  const cyy = syy / weight - my * my;
+  const cxy = sxy / weight - mx * my;
+  const theta = 0.5 * Math.atan2(2 * cxy, cxx - cyy);
+  const dx = Math.cos(theta);
+  const dy = Math.sin(theta);
+
+  // Keep the original extent, projected onto the fitted line
+  const project = (p: Point2D): Point2D => {
+    const t = (p.x - mx) * dx + (p.y - my) * dy;
+    return {
+      x: Math.round(Math.min(width, Math.max(0, mx + t * dx)) * 10) / 10,
+      y: Math.round(Math.min(height, Math.max(0, my + t * dy)) * 10) / 10,
+    };
+  };
+  return { start: project(start), end: project(end) };
+}
+
+// Map a point on the pooled grid back to source-image pixels
+function toSourcePoint(point: Point2D, scale: number, width: number, height: number): Point2D {
+  return {
+    x: Math.round(Math.min(width, Math.max(0, (point.x + 0.5) * scale)) * 10) / 10,
+    y: Math.round(Math.min(height, Math.max(0, (point.y + 0.5) * scale)) * 10) / 10,
+  };
+}
@@ -0,0 +1,187 @@
+// Model provider registry: each AI capability is served by a swappable provider
+// Providers are the built-in heuristics, ONNX models from config.ai.modelsPath, or custom modules
+// registered at startup with registerModelProvider()
+// Analysis workers have their own registry with only the built-in providers, so capabilities served by
+// custom modules run on the main thread and the workers report what served theirs
+
+import { config } from '@/lib/config';
+import type {
+  ColorPaletteResult,
+  DepthEstimationResult,
+  ObjectDetectionResult,
+  SegmentationResult,
+} from '@/lib/ai-models';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+export type ModelCapability = 'segmentation' | 'depth' | 'palette' | 'objectDetection';
+
+export type ModelBackend = 'heuristic' | 'onnx' | 'custom';
+
+export const MODEL_CAPABILITIES: ModelCapability[] = ['segmentation', 'depth', 'palette', 'objectDetection'];
+
+export const HEURISTIC_PROVIDER_ID = 'heuristic';
+export const ONNX_PROVIDER_ID = 'onnx';
+
+export type DepthMap = Omit<DepthEstimationResult, 'perspective'>;
+
+// Reports progress (0-100) and the current stage of a long-running analysis
+export type ProgressCallback = (progress: number, stage: string) => void;
+
+export interface SegmentationModel {
+  segment(imageData: PixelBuffer, onProgress?: ProgressCallback): Promise<SegmentationResult>;
+}
+
+export interface DepthModel {
+  estimateDepth(imageData: PixelBuffer, onProgress?: ProgressCallback): Promise<DepthMap>;
+}
+
+export interface PaletteModel {
+  extractPalette(imageData: PixelBuffer, colorCount: number, onProgress?: ProgressCallback): Promise<ColorPaletteResult>;
+}
+
+export interface ObjectDetectionModel {
+  detectObjects(imageData: PixelBuffer, onProgress?: ProgressCallback): Promise<ObjectDetectionResult>;
+}
+
+interface CapabilityModels {
+  segmentation: SegmentationModel;
+  depth: DepthModel;
+  palette: PaletteModel;
+  objectDetection: ObjectDetectionModel;
+}
+
+// A provider implements any subset of the capability interfaces
+export interface ModelProvider extends Partial<SegmentationModel & DepthModel & PaletteModel & ObjectDetectionModel> {
+  id: string;
+  name: string;
+  version: string;
+  backend: ModelBackend;
+  load?(): Promise<void>;
+}
+
+export interface LoadedModel {
+  capability: ModelCapability;
+  providerId: string;
+  name: string;
+  version: string;
+  backend: ModelBackend;
+  capabilities: ModelCapability[];
+  fallback: boolean; // true when the configured provider failed and the heuristics stepped in
+}
+
+const CAPABILITY_METHODS: { [C in ModelCapability]: keyof CapabilityModels[C] } = {
+  segmentation: 'segment',
+  depth: 'estimateDepth',
+  palette: 'extractPalette',
+  objectDetection: 'detectObjects',
+};
+
+const providers = new Map<string, ModelProvider>();
+const loadedProviders = new Map<string, Promise<void>>();
+const activeModels = new Map<ModelCapability, { provider: ModelProvider; fallback: boolean }>();
+const workerModels = new Map<ModelCapability, LoadedModel>();
+
+// Make a provider selectable through config.ai.providers
+export function registerModelProvider(provider: ModelProvider): void {
+  providers.set(provider.id, provider);
+  loadedProviders.delete(provider.id);
+  for (const [capability, active] of Array.from(activeModels.entries())) {
+    if (active.provider.id === provider.id) activeModels.delete(capability);
+  }
+}
+
+export function getRegisteredProviders(): ModelProvider[] {
+  return Array.from(providers.values());
+}
+
+// Providers an analysis worker can load by itself; custom modules exist only where they were registered
+export function isWorkerProvider(providerId: string): boolean {
+  return providerId === HEURISTIC_PROVIDER_ID || providerId === ONNX_PROVIDER_ID;
+}
+
+// Record what served each capability in an analysis worker
+export function recordWorkerModels(models: LoadedModel[]): void {
+  models.forEach(model => workerModels.set(model.capability, model));
+}
+
+// Capabilities a provider actually implements
+export function getProviderCapabilities(provider: ModelProvider): ModelCapability[] {
+  return MODEL_CAPABILITIES.filter(capability => typeof provider[CAPABILITY_METHODS[capability]] === 'function');
+}
+
+// Load the configured provider for a capability, falling back to the heuristics if it fails
+export async function loadModel<C extends ModelCapability>(
+  capability: C,
+  providerId: string = config.ai.providers[capability]
+): Promise<CapabilityModels[C] & ModelProvider> {
+  try {
+    const provider = await resolveProvider(providerId);
+    if (!getProviderCapabilities(provider).includes(capability)) {
+      throw new Error(`Model provider "${providerId}" does not support ${capability}`);
+    }
+    await ensureLoaded(provider);
+    activeModels.set(capability, { provider, fallback: false });
+    return provider as CapabilityModels[C] & ModelProvider;
+  } catch (error) {
+    console.error(`Failed to load ${capability} provider "${providerId}":`, error);
+    const heuristic = providers.get(HEURISTIC_PROVIDER_ID);
+    if (!config.ai.fallbackEnabled || !heuristic || providerId === HEURISTIC_PROVIDER_ID) {
+      throw error;
+    }
+    activeModels.set(capability, { provider: heuristic, fallback: true });
+    return heuristic as CapabilityModels[C] & ModelProvider;
+  }
+}
+
+// The active provider for a capability, loading it on first use
+export async function getModel<C extends ModelCapability>(capability: C): Promise<CapabilityModels[C] & ModelProvider> {
+  const active = activeModels.get(capability);
+  if (active) {
+    return active.provider as CapabilityModels[C] & ModelProvider;
+  }
+  return loadModel(capability);
+}
+
+// What is serving each capability right now, preferring what the workers reported
+export function getLoadedModels(): LoadedModel[] {
+  return MODEL_CAPABILITIES.flatMap(capability => {
+    const reported = workerModels.get(capability);
+    if (reported) return [reported];
+    const active = activeModels.get(capability);
+    if (!active) return [];
+    return [{
+      capability,
+      providerId: active.provider.id,
+      name: active.provider.name,
+      version: active.provider.version,
+      backend: active.provider.backend,
+      capabilities: getProviderCapabilities(active.provider),
+      fallback: active.fallback,
+    }];
+  });
+}
+
+// Find a provider by id; the ONNX provider is built from the models manifest on first request
+async function resolveProvider(providerId: string): Promise<ModelProvider> {
+  if (!providers.has(providerId) && providerId === ONNX_PROVIDER_ID) {
+    const { createOnnxProvider } = await import('@/lib/onnx-models');
+    registerModelProvider(await createOnnxProvider(config.ai.modelsPath));
+  }
+
+  const provider = providers.get(providerId);
+  if (!provider) {
+    throw new Error(`Unknown model provider "${providerId}"`);
+  }
+  return provider;
+}
+
+// Run a provider's load() once, retrying on the next request if it failed
+function ensureLoaded(provider: ModelProvider): Promise<void> {
+  let loading = loadedProviders.get(provider.id);
+  if (!loading) {
+    loading = provider.load ? provider.load() : Promise.resolve();
+    loading.catch(() => loadedProviders.delete(provider.id));
+    loadedProviders.set(provider.id, loading);
+  }
+  return loading;
+}
@@ -0,0 +1,315 @@
+// Furniture and fixture detection on and in front of walls, without a model
+// Candidates are the parts of a wall that don't match its color or are much brighter, other than windows
+// and doors, split apart where only thin strips (contact shadows, anti-aliased wall borders) join them.
+// Each is classified from its size, shape, position on the wall (floor contact, height), color and edge
+// structure; large regions that fit no class are still reported as generic foreground objects. Screens
+// and frames take precedence over openings: opening detection asks isWallHanging before keeping one.
+
+import type { DetectedOpening } from '@/lib/opening-detection';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { WALL_LABELS, type LayoutSurface } from '@/lib/room-layout';
+import { dilateBinary, erodeBinary, findConnectedRegions, rasterizePolygon, type MaskBounds, type MaskRegion } from '@/lib/wall-mask';
+
+export type ObjectLabel = 'sofa' | 'cabinet' | 'tv' | 'frame' | 'radiator' | 'outlet' | 'switch' | 'foreground';
+
+export interface InteriorObject {
+  label: ObjectLabel;
+  surfaceId: string; // wall the object is on or in front of
+  confidence: number;
+  bounds: MaskBounds;
+  mask: PixelBuffer; // bounds.width x bounds.height
+}
+
+export const OBJECT_NAMES: Record<ObjectLabel, string> = {
+  sofa: 'Sofa',
+  cabinet: 'Cabinet',
+  tv: 'TV',
+  frame: 'Frame',
+  radiator: 'Radiator',
+  outlet: 'Outlet',
+  switch: 'Switch',
+  foreground: 'Foreground object',
+};
+
+// Smallest region considered (outlets and switches), as a share of the image area
+const MIN_FIXTURE_AREA = 0.0002;
+// Largest outlet or switch plate
+const MAX_FIXTURE_AREA = 0.004;
+// Smallest region kept as a generic foreground object when no class fits
+const MIN_FOREGROUND_AREA = 0.005;
+// Distance (share of the image height) from the floor that still counts as standing on it
+const FLOOR_TOLERANCE = 0.04;
+const EDGE_THRESHOLD = 50;
+// Pixels either side of a region's side searched for a straight edge
+const SIDE_SEARCH_RADIUS = 2;
+// Luminance swing that counts as a radiator fin along a row
+const FIN_CONTRAST = 6;
+// Luminance above the wall's that makes a wall-colored pixel stand out (white fixtures and radiators),
+// and that marks daylight rather than a picture
+const BRIGHT_CONTRAST = 35;
+// Strips up to twice this wide are cut from candidates before they are split into regions
+const SPLIT_RADIUS = 2;
+// Quantile of a region's luminance taken as its brightness, above frames and mullions
+const BRIGHTNESS_QUANTILE = 0.75;
+
+interface RegionFeatures {
+  area: number; // share of the image
+  fill: number; // share of the bounding box covered
+  aspect: number; // width / height
+  luminance: number; // mean, 0-255
+  brightness: number; // upper-quartile luminance against the wall's
+  saturation: number; // mean (max - min) / max, 0-1
+  edgeDensity: number; // share of pixels on a strong edge
+  sideSupport: number; // mean share of each bounding-box side running along a straight edge
+  stripes: number; // vertical stripes crossed by the middle rows
+  top: number; // top of the region on the wall (0 = ceiling line, 1 = floor line)
+  bottom: number;
+  heightShare: number; // height against the wall's
+  onFloor: boolean;
+}
+
+// Find and classify objects on the walls; masks are the walls' wall-colored pixels
+export function detectInteriorObjects(
+  imageData: PixelBuffer,
+  edges: Uint8ClampedArray,
+  walls: Array<LayoutSurface & { mask: PixelBuffer }>,
+  openings: DetectedOpening[]
+): InteriorObject[] {
+  const { width, height } = imageData;
+  const objects: InteriorObject[] = [];
+
+  for (const wall of walls) {
+    if (!WALL_LABELS.includes(wall.label)) continue;
+
+    // Candidates: off-color or much brighter wall pixels outside windows and doors. A patterned wall
+    // keeps its whole polygon, so nothing stands out from it
+    const region = rasterizePolygon(wall.polygon, width, height);
+    const reference = wallLuminance(imageData, wall.mask);
+    const raw = new Uint8Array(width * height);
+    for (let idx = 0; idx < raw.length; idx++) {
+      if (region.data[idx * 4 + 3] === 0) continue;
+      if (wall.mask.data[idx * 4 + 3] === 0 || luminance(imageData.data, idx * 4) >= reference + BRIGHT_CONTRAST) raw[idx] = 1;
+    }
+
+    // Morphological opening: thin strips along the wall's borders would join everything touching them
+    const opened = dilateBinary(erodeBinary(raw, width, height, SPLIT_RADIUS), width, height, SPLIT_RADIUS);
+    const candidates = new Uint8Array(width * height);
+    for (let idx = 0; idx < candidates.length; idx++) candidates[idx] = raw[idx] & opened[idx];
+    for (const opening of openings) {
+      const { x, y, width: openingWidth, height: openingHeight } = opening.bounds;
+      for (let row = 0; row < openingHeight; row++) {
+        for (let col = 0; col < openingWidth; col++) {
+          if (opening.mask.data[(row * openingWidth + col) * 4 + 3] > 0) candidates[(y + row) * width + x + col] = 0;
+        }
+      }
+    }
+
+    for (const candidate of findConnectedRegions(candidates, width, height, width * height * MIN_FIXTURE_AREA)) {
+      const features = measureRegion(imageData, edges, region, candidate, reference);
+      const classified = classifyObject(features);
+      if (!classified) continue;
+      objects.push({
+        label: classified.label,
+        surfaceId: wall.id,
+        confidence: Math.round(classified.confidence * 100) / 100,
+        bounds: candidate.bounds,
+        mask: candidate.mask,
+      });
+    }
+  }
+
+  return objects;
+}
+
+// Whether a wall region is a screen or a picture frame, which share their frames and dark or colorful
+// rectangles with openings; wall is the wall's polygon
+export function isWallHanging(
+  imageData: PixelBuffer,
+  edges: Uint8ClampedArray,
+  wall: PixelBuffer,
+  candidate: MaskRegion,
+  wallLuminance: number
+): boolean {
+  const label = classifyObject(measureRegion(imageData, edges, wall, candidate, wallLuminance))?.label;
+  return label === 'tv' || label === 'frame';
+}
+
+// Most specific class first: small plates, then screens, heaters, wall art and furniture
+function classifyObject(f: RegionFeatures): { label: ObjectLabel; confidence: number } | null {
+  const neutral = f.saturation < 0.25;
+
+  if (f.area <= MAX_FIXTURE_AREA) {
+    // Outlets low on the wall, switches at hand height; both small, pale, upright or square plates
+    if (f.fill < 0.75 || f.aspect < 0.45 || f.aspect > 1.3 || !neutral || f.luminance < 140) return null;
+    const center = (f.top + f.bottom) / 2;
+    const confidence = (f.fill + Math.min(1, f.sideSupport + 0.3)) / 2;
+    if (center >= 0.72) return { label: 'outlet', confidence };
+    if (center >= 0.35 && center <= 0.7) return { label: 'switch', confidence };
+    return null;
+  }
+
+  // Screens: dark, neutral, solid rectangles about 16:9, off the floor
+  if (f.luminance < 60 && neutral && f.fill >= 0.85 && f.aspect >= 1.3 && f.aspect <= 2.1 && !f.onFloor && f.heightShare >= 0.1) {
+    return { label: 'tv', confidence: (f.fill + (1 - Math.abs(f.aspect - 16 / 9) / 0.8) + f.sideSupport) / 3 };
+  }
+
+  // Radiators: pale, wide and low, crossed by regular fins
+  if (f.bottom >= 0.8 && f.heightShare <= 0.45 && f.aspect >= 1.2 && neutral && f.stripes >= 6) {
+    return { label: 'radiator', confidence: (f.fill + Math.min(1, f.stripes / 12)) / 2 };
+  }
+
+  // Frames: rectangles hung on the wall with straight sides, not lit like a window
+  if (!f.onFloor && f.bottom < 0.85 && f.brightness < BRIGHT_CONTRAST && f.fill >= 0.75 && f.aspect >= 0.4 && f.aspect <= 2.5 && f.area <= 0.12 && f.sideSupport >= 0.5) {
+    return { label: 'frame', confidence: (f.fill + f.sideSupport) / 2 };
+  }
+
+  // Cabinets: large, boxy and hard-edged, standing on the floor or hung near the ceiling
+  if (f.area >= 0.02 && f.fill >= 0.8 && f.sideSupport >= 0.5 && f.edgeDensity >= 0.04 &&
+      ((f.onFloor && f.heightShare >= 0.3) || f.top <= 0.15)) {
+    return { label: 'cabinet', confidence: (f.fill + f.sideSupport) / 2 };
+  }
+
+  // Sofas: wide, low and soft-edged, on the floor
+  if (f.onFloor && f.area >= 0.02 && f.aspect >= 1.4 && f.heightShare >= 0.2 && f.heightShare <= 0.6 && f.fill >= 0.5) {
+    return { label: 'sofa', confidence: (f.fill + Math.min(1, (f.aspect - 1) / 2) + (1 - Math.min(1, f.edgeDensity * 5))) / 3 };
+  }
+
+  // Solid blobs are more likely real objects than scattered texture
+  if (f.area >= MIN_FOREGROUND_AREA) {
+    return { label: 'foreground', confidence: Math.min(1, f.fill) };
+  }
+  return null;
+}
+
+function measureRegion(
+  imageData: PixelBuffer,
+  edges: Uint8ClampedArray,
+  wall: PixelBuffer,
+  candidate: MaskRegion,
+  wallLuminance: number
+): RegionFeatures {
+  const { data, width: imageWidth, height: imageHeight } = imageData;
+  const { x, y, width, height } = candidate.bounds;
+
+  // Color and edge statistics over the region's pixels
+  const levels: number[] = [];
+  let luminanceSum = 0;
+  let saturationSum = 0;
+  let edgePixels = 0;
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (candidate.mask.data[(row * width + col) * 4 + 3] === 0) continue;
+      const idx = (y + row) * imageWidth + x + col;
+      const r = data[idx * 4];
+      const g = data[idx * 4 + 1];
+      const b = data[idx * 4 + 2];
+      const max = Math.max(r, g, b);
+      levels.push(luminance(data, idx * 4));
+      luminanceSum += levels[levels.length - 1];
+      saturationSum += max > 0 ? (max - Math.min(r, g, b)) / max : 0;
+      if (edges[idx] >= EDGE_THRESHOLD) edgePixels++;
+    }
+  }
+
+  // The wall's extent in the region's centre column
+  const column = x + Math.floor(width / 2);
+  let wallTop = -1;
+  let wallBottom = -1;
+  for (let row = 0; row < imageHeight; row++) {
+    if (wall.data[(row * imageWidth + column) * 4 + 3] === 0) continue;
+    if (wallTop < 0) wallTop = row;
+    wallBottom = row;
+  }
+  const wallHeight = Math.max(1, wallBottom - wallTop + 1);
+
+  return {
+    area: candidate.area / (imageWidth * imageHeight),
+    fill: candidate.area / (width * height),
+    aspect: width / height,
+    luminance: luminanceSum / candidate.area,
+    brightness: levels.sort((a, b) => a - b)[Math.floor(levels.length * BRIGHTNESS_QUANTILE)] - wallLuminance,
+    saturation: saturationSum / candidate.area,
+    edgeDensity: edgePixels / candidate.area,
+    sideSupport: (
+      sideSupport(edges, imageWidth, imageHeight, x, y, height, 'vertical') +
+      sideSupport(edges, imageWidth, imageHeight, x + width - 1, y, height, 'vertical') +
+      sideSupport(edges, imageWidth, imageHeight, x, y, width, 'horizontal') +
+      sideSupport(edges, imageWidth, imageHeight, x, y + height - 1, width, 'horizontal')
+    ) / 4,
+    stripes: countStripes(imageData, candidate),
+    top: (y - wallTop) / wallHeight,
+    bottom: (y + height - wallTop) / wallHeight,
+    heightShare: height / wallHeight,
+    onFloor: wallBottom - (y + height - 1) <= FLOOR_TOLERANCE * imageHeight,
+  };
+}
+
+// Share of a bounding-box side (starting at x, y and running `length` pixels) that has a strong
+// edge within a few pixels; straight sides of frames and boxes are supported along their length
+function sideSupport(
+  edges: Uint8ClampedArray,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  length: number,
+  direction: 'vertical' | 'horizontal'
+): number {
+  let supported = 0;
+  for (let i = 0; i < length; i++) {
+    for (let offset = -SIDE_SEARCH_RADIUS; offset <= SIDE_SEARCH_RADIUS; offset++) {
+      const px = direction === 'vertical' ? x + offset : x + i;
+      const py = direction === 'vertical' ? y + i : y + offset;
+      if (px >= 0 && py >= 0 && px < width && py < height && edges[py * width + px] >= EDGE_THRESHOLD) {
+        supported++;
+        break;
+      }
+    }
+  }
+  return supported / length;
+}
+
+// Light-dark alternations along the region's middle rows (median over three rows), with hysteresis
+// so shading and noise don't count
+function countStripes(imageData: PixelBuffer, candidate: MaskRegion): number {
+  const { x, y, width, height } = candidate.bounds;
+  const counts: number[] = [];
+
+  for (const share of [0.35, 0.5, 0.65]) {
+    const row = Math.floor(height * share);
+    const values: number[] = [];
+    for (let col = 0; col < width; col++) {
+      if (candidate.mask.data[(row * width + col) * 4 + 3] === 0) continue;
+      values.push(luminance(imageData.data, ((y + row) * imageData.width + x + col) * 4));
+    }
+    if (values.length < 3) {
+      counts.push(0);
+      continue;
+    }
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    let state = 0;
+    let changes = 0;
+    for (const value of values) {
+      const next = value > mean + FIN_CONTRAST ? 1 : value < mean - FIN_CONTRAST ? -1 : state;
+      if (state !== 0 && next !== state) changes++;
+      state = next;
+    }
+    counts.push(Math.floor(changes / 2));
+  }
+
+  return counts.sort((a, b) => a - b)[1];
+}
+
+// Median luminance of a wall's wall-colored pixels (sampled)
+function wallLuminance(imageData: PixelBuffer, mask: PixelBuffer): number {
+  const levels: number[] = [];
+  for (let idx = 0; idx < imageData.width * imageData.height; idx += 7) {
+    if (mask.data[idx * 4 + 3] > 0) levels.push(luminance(imageData.data, idx * 4));
+  }
+  return levels.length > 0 ? levels.sort((a, b) => a - b)[Math.floor(levels.length / 2)] : 0;
+}
+
+function luminance(data: Uint8ClampedArray, offset: number): number {
+  return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+}
@@ -0,0 +1,368 @@
+// ONNX model provider: runs segmentation, depth and object detection models with onnxruntime-web
+// Models live in config.ai.modelsPath next to a manifest.json describing their inputs and outputs:
+//
+// {
+//   "segmentation": { "file": "segformer-ade20k.onnx", "version": "b0", "inputSize": [512, 512],
+//                     "classes": { "wall": [0], "floor": [3], "ceiling": [5] } },
+//   "depth": { "file": "midas-small.onnx", "version": "2.1", "inputSize": [256, 256], "inverse": true },
+//   "objectDetection": { "file": "yolov8n.onnx", "version": "8.0", "inputSize": [640, 640], "labels": ["person", ...] }
+// }
+//
+// onnxruntime itself (ort.wasm.min.mjs and its .wasm/.mjs files) is loaded from the same directory at
+// runtime rather than bundled. A relative modelsPath resolves against the page; on the server, where
+// there is no page, it has to be an absolute URL.
+
+import type * as Ort from 'onnxruntime-web/wasm';
+import type { InferenceSession, Tensor } from 'onnxruntime-web/wasm';
+import type { DetectedObject, ObjectDetectionResult, SegmentationResult, SegmentedSurface } from '@/lib/ai-models';
+import { computeEdgeMap } from '@/lib/ai-models';
+import { resampleDepth } from '@/lib/depth-map';
+import { detectLines } from '@/lib/line-detection';
+import { detectOpenings } from '@/lib/opening-detection';
+import type { DepthMap, ModelProvider } from '@/lib/model-providers';
+import { ONNX_PROVIDER_ID } from '@/lib/model-providers';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { estimateRoomLayout, WALL_LABELS } from '@/lib/room-layout';
+import { combineMasks, createEmptyMask, getMaskBounds, maskToPolygon, rasterizePolygon } from '@/lib/wall-mask';
+
+interface OnnxModelSpec {
+  file: string;
+  version: string;
+  inputSize: [number, number]; // width, height
+  mean?: [number, number, number]; // per-channel normalization on 0-1 values
+  std?: [number, number, number];
+}
+
+interface OnnxSegmentationSpec extends OnnxModelSpec {
+  classes: Partial<Record<'wall' | 'ceiling' | 'floor', number[]>>;
+}
+
+interface OnnxDepthSpec extends OnnxModelSpec {
+  inverse?: boolean; // MiDaS-style models output inverse depth (near is large)
+}
+
+interface OnnxDetectionSpec extends OnnxModelSpec {
+  labels: string[];
+  scoreThreshold?: number;
+  iouThreshold?: number;
+}
+
+export interface OnnxManifest {
+  name?: string;
+  segmentation?: OnnxSegmentationSpec;
+  depth?: OnnxDepthSpec;
+  objectDetection?: OnnxDetectionSpec;
+}
+
+const RUNTIME_FILE = 'ort.wasm.min.mjs';
+
+const IMAGENET_MEAN: [number, number, number] = [0.485, 0.456, 0.406];
+const IMAGENET_STD: [number, number, number] = [0.229, 0.224, 0.225];
+
+// Surfaces smaller than this share of the image are dropped
+const MIN_SURFACE_SHARE = 0.005;
+
+// Build the ONNX provider from the manifest; only the models listed there become capabilities
+export async function createOnnxProvider(modelsPath: string): Promise<ModelProvider> {
+  const modelsUrl = resolveModelsUrl(modelsPath);
+  const manifest = await fetchManifest(modelsUrl);
+  const sessions: Partial<Record<'segmentation' | 'depth' | 'objectDetection', InferenceSession>> = {};
+  let ort: typeof Ort | undefined;
+  const versions = [manifest.segmentation, manifest.depth, manifest.objectDetection]
+    .filter((spec): spec is OnnxModelSpec => !!spec)
+    .map(spec => `${spec.file}@${spec.version}`);
+
+  const provider: ModelProvider = {
+    id: ONNX_PROVIDER_ID,
+    name: manifest.name ?? 'ONNX models',
+    version: versions.join(', '),
+    backend: 'onnx',
+
+    async load() {
+      const runtime: typeof Ort = await import(/* webpackIgnore: true */ `${modelsUrl}/${RUNTIME_FILE}`);
+      runtime.env.wasm.wasmPaths = `${modelsUrl}/`;
+      ort = runtime;
+
+      const create = (spec: OnnxModelSpec) =>
+        runtime.InferenceSession.create(`${modelsUrl}/${spec.file}`, { executionProviders: ['wasm'] });
+
+      if (manifest.segmentation) sessions.segmentation = await create(manifest.segmentation);
+      if (manifest.depth) sessions.depth = await create(manifest.depth);
+      if (manifest.objectDetection) sessions.objectDetection = await create(manifest.objectDetection);
+    },
+  };
+
+  if (manifest.segmentation) {
+    const spec = manifest.segmentation;
+    provider.segment = async (imageData) => {
+      const output = await runModel(ort, sessions.segmentation, spec, imageData);
+      return decodeSegmentation(output, spec, imageData);
+    };
+  }
+
+  if (manifest.depth) {
+    const spec = manifest.depth;
+    provider.estimateDepth = async (imageData) => {
+      const output = await runModel(ort, sessions.depth, spec, imageData);
+      return decodeDepth(output, spec);
+    };
+  }
+
+  if (manifest.objectDetection) {
+    const spec = manifest.objectDetection;
+    provider.detectObjects = async (imageData) => {
+      const output = await runModel(ort, sessions.objectDetection, spec, imageData);
+      return decodeDetections(output, spec, imageData.width, imageData.height);
+    };
+  }
+
+  return provider;
+}
+
+// The models directory as an absolute URL, without a trailing slash
+function resolveModelsUrl(modelsPath: string): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(modelsPath)) {
+    return modelsPath.replace(/\/+$/, '');
+  }
+  if (typeof location === 'undefined') {
+    throw new Error(`ONNX models path "${modelsPath}" must be an absolute URL outside the browser`);
+  }
+  return new URL(modelsPath, location.href).href.replace(/\/+$/, '');
+}
+
+async function fetchManifest(modelsUrl: string): Promise<OnnxManifest> {
+  const response = await fetch(`${modelsUrl}/manifest.json`);
+  if (!response.ok) {
+    throw new Error(`Failed to load model manifest (${response.status})`);
+  }
+  return response.json();
+}
+
+// Resize, normalize and run an image through a session, returning its first output
+async function runModel(
+  ort: typeof Ort | undefined,
+  session: InferenceSession | undefined,
+  spec: OnnxModelSpec,
+  imageData: PixelBuffer
+): Promise<Tensor> {
+  if (!ort || !session) {
+    throw new Error(`ONNX model ${spec.file} is not loaded`);
+  }
+
+  const [width, height] = spec.inputSize;
+  const input = new ort.Tensor('float32', toInputTensor(imageData, spec), [1, 3, height, width]);
+  const results = await session.run({ [session.inputNames[0]]: input });
+  return results[session.outputNames[0]];
+}
+
+// Bilinear resize to the model input size as normalized NCHW floats
+function toInputTensor(imageData: PixelBuffer, spec: OnnxModelSpec): Float32Array {
+  const [width, height] = spec.inputSize;
+  const mean = spec.mean ?? IMAGENET_MEAN;
+  const std = spec.std ?? IMAGENET_STD;
+  const { data, width: srcWidth, height: srcHeight } = imageData;
+  const plane = width * height;
+  const tensor = new Float32Array(plane * 3);
+
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(srcHeight - 1, Math.max(0, ((y + 0.5) * srcHeight) / height - 0.5));
+    const y0 = Math.floor(sy);
+    const y1 = Math.min(srcHeight - 1, y0 + 1);
+    const fy = sy - y0;
+
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(srcWidth - 1, Math.max(0, ((x + 0.5) * srcWidth) / width - 0.5));
+      const x0 = Math.floor(sx);
+      const x1 = Math.min(srcWidth - 1, x0 + 1);
+      const fx = sx - x0;
+
+      for (let c = 0; c < 3; c++) {
+        const top = data[(y0 * srcWidth + x0) * 4 + c] * (1 - fx) + data[(y0 * srcWidth + x1) * 4 + c] * fx;
+        const bottom = data[(y1 * srcWidth + x0) * 4 + c] * (1 - fx) + data[(y1 * srcWidth + x1) * 4 + c] * fx;
+        const value = (top * (1 - fy) + bottom * fy) / 255;
+        tensor[c * plane + y * width + x] = (value - mean[c]) / std[c];
+      }
+    }
+  }
+
+  return tensor;
+}
+
+// Turn per-class logits [1, C, h, w] into labeled surfaces at source resolution
+function decodeSegmentation(output: Tensor, spec: OnnxSegmentationSpec, imageData: PixelBuffer): SegmentationResult {
+  const [, classCount, outHeight, outWidth] = output.dims;
+  const logits = output.data as Float32Array;
+  const plane = outWidth * outHeight;
+  const labels = new Int32Array(plane);
+  const probabilities = new Float32Array(plane);
+
+  for (let i = 0; i < plane; i++) {
+    let best = 0;
+    let max = -Infinity;
+    for (let c = 0; c < classCount; c++) {
+      const value = logits[c * plane + i];
+      if (value > max) {
+        max = value;
+        best = c;
+      }
+    }
+    let sum = 0;
+    for (let c = 0; c < classCount; c++) {
+      sum += Math.exp(logits[c * plane + i] - max);
+    }
+    labels[i] = best;
+    probabilities[i] = 1 / sum;
+  }
+
+  const { width, height } = imageData;
+  const classMask = (classIds: number[] = []) => {
+    const mask = createEmptyMask(width, height);
+    let confidence = 0;
+    let area = 0;
+    for (let y = 0; y < height; y++) {
+      const oy = Math.min(outHeight - 1, Math.floor((y * outHeight) / height));
+      for (let x = 0; x < width; x++) {
+        const o = oy * outWidth + Math.min(outWidth - 1, Math.floor((x * outWidth) / width));
+        if (!classIds.includes(labels[o])) continue;
+        const idx = (y * width + x) * 4;
+        mask.data[idx] = mask.data[idx + 1] = mask.data[idx + 2] = mask.data[idx + 3] = 255;
+        confidence += probabilities[o];
+        area++;
+      }
+    }
+    return { mask, area, confidence: area > 0 ? confidence / area : 0 };
+  };
+
+  const minArea = width * height * MIN_SURFACE_SHARE;
+  const surfaces: SegmentedSurface[] = [];
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  // The model knows what a wall is, the room layout knows which wall it is
+  const walls = classMask(spec.classes.wall);
+  const edges = computeEdgeMap(imageData);
+  const lines = detectLines(edges, width, height);
+  for (const surface of estimateRoomLayout(imageData, lines)) {
+    if (!WALL_LABELS.includes(surface.label)) continue;
+    const region = rasterizePolygon(surface.polygon, width, height);
+    const mask = createEmptyMask(width, height);
+    let area = 0;
+    for (let p = 3; p < mask.data.length; p += 4) {
+      if (region.data[p] === 0 || walls.mask.data[p] === 0) continue;
+      mask.data[p - 3] = mask.data[p - 2] = mask.data[p - 1] = mask.data[p] = 255;
+      area++;
+    }
+    if (area < minArea) continue;
+    surfaces.push({ ...surface, mask, confidence: round(walls.confidence) });
+  }
+
+  for (const label of ['ceiling', 'floor'] as const) {
+    const { mask, area, confidence } = classMask(spec.classes[label]);
+    if (area < minArea) continue;
+    surfaces.push({
+      id: label,
+      label,
+      polygon: maskToPolygon(mask),
+      confidence: round(confidence),
+      mask,
+    });
+  }
+
+  const wallSurfaces = surfaces.filter(surface => WALL_LABELS.includes(surface.label));
+  const mask = wallSurfaces.reduce(
+    (combined, surface) => combineMasks(combined, surface.mask, 'add'),
+    createEmptyMask(width, height)
+  );
+
+  return {
+    mask,
+    confidence: round(walls.confidence),
+    bounds: getMaskBounds(mask),
+    wallSegments: wallSurfaces.map(surface => ({ ...getMaskBounds(surface.mask), confidence: surface.confidence })),
+    surfaces,
+    lines,
+    // Pixels the model didn't call wall are the opening candidates
+    openings: detectOpenings(imageData, edges, wallSurfaces),
+  };
+}
+
+// Normalize a [1, h, w] or [1, 1, h, w] depth output to 0 (near) - 1 (far), downsampled
+function decodeDepth(output: Tensor, spec: OnnxDepthSpec): DepthMap {
+  const dims = output.dims;
+  const height = dims[dims.length - 2];
+  const width = dims[dims.length - 1];
+  const values = output.data as Float32Array;
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < width * height; i++) {
+    min = Math.min(min, values[i]);
+    max = Math.max(max, values[i]);
+  }
+  const range = max - min || 1;
+
+  const normalized = new Float32Array(width * height);
+  for (let i = 0; i < normalized.length; i++) {
+    const value = (values[i] - min) / range;
+    normalized[i] = spec.inverse ? 1 - value : value;
+  }
+
+  return { depthMap: resampleDepth(normalized, width, height), minDepth: 0, maxDepth: 1 };
+}
+
+// Decode YOLOv8-style output [1, 4 + classes, anchors] with per-class non-maximum suppression
+function decodeDetections(output: Tensor, spec: OnnxDetectionSpec, width: number, height: number): ObjectDetectionResult {
+  const [, channels, anchors] = output.dims;
+  const values = output.data as Float32Array;
+  const scoreThreshold = spec.scoreThreshold ?? 0.35;
+  const iouThreshold = spec.iouThreshold ?? 0.45;
+  const scaleX = width / spec.inputSize[0];
+  const scaleY = height / spec.inputSize[1];
+
+  const candidates: Array<DetectedObject & { classId: number }> = [];
+  for (let a = 0; a < anchors; a++) {
+    let classId = 0;
+    let score = 0;
+    for (let c = 4; c < channels; c++) {
+      const value = values[c * anchors + a];
+      if (value > score) {
+        score = value;
+        classId = c - 4;
+      }
+    }
+    if (score < scoreThreshold) continue;
+
+    const cx = values[a] * scaleX;
+    const cy = values[anchors + a] * scaleY;
+    const w = values[2 * anchors + a] * scaleX;
+    const h = values[3 * anchors + a] * scaleY;
+    const x = Math.max(0, cx - w / 2);
+    const y = Math.max(0, cy - h / 2);
+    candidates.push({
+      classId,
+      label: spec.labels[classId] ?? `class-${classId}`,
+      confidence: Math.round(score * 100) / 100,
+      bbox: [Math.round(x), Math.round(y), Math.round(Math.min(width - x, w)), Math.round(Math.min(height - y, h))],
+    });
+  }
+
+  candidates.sort((a, b) => b.confidence - a.confidence);
+  const kept: typeof candidates = [];
+  for (const candidate of candidates) {
+    const overlaps = kept.some(other => other.classId === candidate.classId && iou(other.bbox, candidate.bbox) > iouThreshold);
+    if (!overlaps) kept.push(candidate);
+  }
+
+  return {
+    objects: kept.map(({ classId: _classId, ...object }) => object),
+  };
+}
+
+function iou(a: DetectedObject['bbox'], b: DetectedObject['bbox']): number {
+  const x0 = Math.max(a[0], b[0]);
+  const y0 = Math.max(a[1], b[1]);
+  const x1 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y1 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const intersection = Math.max(0, x1 - x0) * Math.max(0, y1 - y0);
+  const union = a[2] * a[3] + b[2] * b[3] - intersection;
+  return union > 0 ? intersection / union : 0;
+}
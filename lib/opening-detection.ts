@@ -0,0 +1,182 @@
+// Window, door and built-in opening detection inside wall regions
+// Candidates are the parts of a wall that don't match its color; they count as openings when they are
+// nearly rectangular, framed by vertical edges and show evidence of one: daylight for windows, contact
+// with the floor for doors, deep shadow for passages. Each must also be tall for its wall, and regions
+// that object detection takes for a screen or a picture frame are left to it.
+
+import { isWallHanging } from '@/lib/object-detection';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { WALL_LABELS, type LayoutSurface } from '@/lib/room-layout';
+import { dilateBinary, erodeBinary, findConnectedRegions, rasterizePolygon, type MaskBounds, type MaskRegion } from '@/lib/wall-mask';
+
+export type OpeningType = 'window' | 'door' | 'opening';
+
+export interface DetectedOpening {
+  id: string;
+  type: OpeningType;
+  surfaceId: string; // wall the opening is in
+  confidence: number;
+  bounds: MaskBounds;
+  mask: PixelBuffer; // bounds.width x bounds.height
+}
+
+export const OPENING_NAMES: Record<OpeningType, string> = {
+  window: 'Window',
+  door: 'Door',
+  opening: 'Opening',
+};
+
+// Smallest opening, as a share of the image area
+const MIN_OPENING_AREA = 0.004;
+// Share of its bounding box an opening must fill (perspective turns rectangles into trapezoids)
+const MIN_FILL = 0.7;
+// Share of the opening's left and right sides that must run along a frame edge
+const MIN_FRAME_SUPPORT = 0.5;
+// Frame support above which a dark region counts as a built-in opening rather than a stain or shadow
+const MIN_OPENING_FRAME_SUPPORT = 0.7;
+// Smallest window and built-in opening, as a share of the wall's height
+const MIN_WINDOW_HEIGHT = 0.25;
+const MIN_PASSAGE_HEIGHT = 0.4;
+// Quantile of the region's luminance taken as its glass, above the frame and mullions
+const GLASS_QUANTILE = 0.75;
+const FRAME_EDGE_THRESHOLD = 50;
+// Pixels either side of a region's side searched for its frame edge
+const FRAME_SEARCH_RADIUS = 2;
+// Gaps closed between candidate pixels, so the anti-aliased seam between a frame and its glass doesn't
+// split a window into panes
+const CLOSING_RADIUS = 1;
+// Luminance above the wall's that marks glass, and below it that marks a passage in shadow
+const WINDOW_CONTRAST = 35;
+// Doors reach the floor and cover at least this share of the wall's height
+const DOOR_MIN_HEIGHT = 0.55;
+// Distance (share of the image height) from the floor that still counts as touching it
+const FLOOR_TOLERANCE = 0.04;
+
+// Find openings in the wall surfaces; masks are the surfaces' wall-colored pixels
+export function detectOpenings(
+  imageData: PixelBuffer,
+  edges: Uint8ClampedArray,
+  surfaces: Array<LayoutSurface & { mask: PixelBuffer }>
+): DetectedOpening[] {
+  const { width, height, data } = imageData;
+  const minArea = width * height * MIN_OPENING_AREA;
+  const openings: DetectedOpening[] = [];
+
+  for (const surface of surfaces) {
+    if (!WALL_LABELS.includes(surface.label)) continue;
+
+    // Reference brightness of the wall-colored pixels
+    const region = rasterizePolygon(surface.polygon, width, height);
+    const wallLuminance: number[] = [];
+    for (let idx = 0; idx < width * height; idx += 7) {
+      if (surface.mask.data[idx * 4 + 3] > 0) wallLuminance.push(luminance(data, idx * 4));
+    }
+    if (wallLuminance.length === 0) continue;
+    wallLuminance.sort((a, b) => a - b);
+    const reference = wallLuminance[Math.floor(wallLuminance.length / 2)];
+
+    // Candidates: off-color pixels, and pixels much brighter than the wall (daylight through near-neutral glass)
+    const candidates = new Uint8Array(width * height);
+    for (let idx = 0; idx < candidates.length; idx++) {
+      if (region.data[idx * 4 + 3] === 0) continue;
+      if (surface.mask.data[idx * 4 + 3] === 0 || luminance(data, idx * 4) >= reference + WINDOW_CONTRAST) {
+        candidates[idx] = 1;
+      }
+    }
+
+    const closed = erodeBinary(dilateBinary(candidates, width, height, CLOSING_RADIUS), width, height, CLOSING_RADIUS);
+    for (const candidate of findConnectedRegions(closed, width, height, minArea)) {
+      if (isWallHanging(imageData, edges, region, candidate, reference)) continue;
+      const classified = classifyOpening(imageData, edges, region, candidate, reference);
+      if (!classified) continue;
+      openings.push({
+        id: `${surface.id}-${classified.type}-${openings.length + 1}`,
+        type: classified.type,
+        surfaceId: surface.id,
+        confidence: classified.confidence,
+        bounds: candidate.bounds,
+        mask: candidate.mask,
+      });
+    }
+  }
+
+  return openings;
+}
+
+// Decide whether an off-color wall region is a window, a door or another opening
+function classifyOpening(
+  imageData: PixelBuffer,
+  edges: Uint8ClampedArray,
+  wall: PixelBuffer,
+  candidate: MaskRegion,
+  wallLuminance: number
+): { type: OpeningType; confidence: number } | null {
+  const { x, y, width, height } = candidate.bounds;
+  const fill = candidate.area / (width * height);
+  if (fill < MIN_FILL) return null;
+
+  const frame = (frameSupport(edges, imageData.width, x, y, height) + frameSupport(edges, imageData.width, x + width - 1, y, height)) / 2;
+  if (frame < MIN_FRAME_SUPPORT) return null;
+
+  // Brightness of the glass and of the region as a whole against the wall's
+  const levels: number[] = [];
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (candidate.mask.data[(row * width + col) * 4 + 3] === 0) continue;
+      levels.push(luminance(imageData.data, ((y + row) * imageData.width + x + col) * 4));
+    }
+  }
+  levels.sort((a, b) => a - b);
+  const contrast = levels[Math.floor(levels.length * GLASS_QUANTILE)] - wallLuminance;
+  const shadow = wallLuminance - levels[Math.floor(levels.length / 2)];
+
+  // The wall's extent in the region's centre column
+  const column = x + Math.floor(width / 2);
+  let wallTop = -1;
+  let wallBottom = -1;
+  for (let row = 0; row < imageData.height; row++) {
+    if (wall.data[(row * imageData.width + column) * 4 + 3] === 0) continue;
+    if (wallTop < 0) wallTop = row;
+    wallBottom = row;
+  }
+  const wallHeight = wallBottom - wallTop + 1;
+  const touchesFloor = wallBottom - (y + height - 1) <= FLOOR_TOLERANCE * imageData.height;
+
+  let type: OpeningType;
+  if (touchesFloor) {
+    // Anything shorter standing on the floor is furniture
+    if (height < DOOR_MIN_HEIGHT * wallHeight) return null;
+    type = 'door';
+  } else if (contrast >= WINDOW_CONTRAST && height >= MIN_WINDOW_HEIGHT * wallHeight) {
+    type = 'window';
+  } else if (shadow >= WINDOW_CONTRAST && frame >= MIN_OPENING_FRAME_SUPPORT && height >= MIN_PASSAGE_HEIGHT * wallHeight) {
+    type = 'opening';
+  } else {
+    return null;
+  }
+
+  const confidence = type === 'window'
+    ? (fill + frame + Math.min(1, contrast / (2 * WINDOW_CONTRAST))) / 3
+    : (fill + frame) / 2;
+  return { type, confidence: Math.round(confidence * 100) / 100 };
+}
+
+// Share of a vertical side's rows that have a strong edge within a few pixels; only straight
+// vertical sides (frames, jambs) are supported along their whole height
+function frameSupport(edges: Uint8ClampedArray, width: number, x: number, top: number, height: number): number {
+  let supported = 0;
+  for (let row = top; row < top + height; row++) {
+    for (let dx = -FRAME_SEARCH_RADIUS; dx <= FRAME_SEARCH_RADIUS; dx++) {
+      const px = x + dx;
+      if (px >= 0 && px < width && edges[row * width + px] >= FRAME_EDGE_THRESHOLD) {
+        supported++;
+        break;
+      }
+    }
+  }
+  return supported / height;
+}
+
+function luminance(data: Uint8ClampedArray, offset: number): number {
+  return 0.299 * data[offset] + 0.587 * data[offset + 1] + 0.114 * data[offset + 2];
+}
@@ -0,0 +1,77 @@
+// Offline paint color database: fan decks stored as JSON in data/paints
+// Only the bundled sample deck (Studio Essentials, made-up colors rather than a real brand) is registered
+// here; other decks are imported and added at startup with registerPaintCatalog(). Colors are matched
+// to the nearest catalog paints by CIEDE2000
+
+import studioEssentials from '@/data/paints/studio-essentials.json';
+import { deltaE2000, hexToRgb, rgbToLab, type Lab, type RGB } from '@/lib/color-science';
+
+// One color of a fan deck, as stored in the JSON files
+export interface PaintColorEntry {
+  name: string;
+  code: string; // the brand's color code
+  hex: string;
+  lrv: number; // light reflectance value, 0 (black) - 100 (white)
+}
+
+export interface PaintCatalog {
+  id: string;
+  brand: string;
+  collection?: string;
+  colors: PaintColorEntry[];
+}
+
+export interface PaintColor extends PaintColorEntry {
+  catalogId: string;
+  brand: string;
+}
+
+export interface PaintMatch {
+  paint: PaintColor;
+  deltaE: number; // CIEDE2000 difference to the requested color
+}
+
+export interface PaintMatchOptions {
+  count?: number; // matches to return
+  catalogIds?: string[]; // restrict to these fan decks
+}
+
+const catalogs = new Map<string, { catalog: PaintCatalog; paints: Array<PaintColor & { lab: Lab }> }>();
+
+// Add or replace a fan deck; throws when an entry is malformed
+export function registerPaintCatalog(catalog: PaintCatalog): void {
+  const paints = catalog.colors.map(entry => {
+    const rgb = hexToRgb(entry.hex);
+    if (!rgb || !entry.name || !entry.code || !(entry.lrv >= 0 && entry.lrv <= 100)) {
+      throw new Error(`Invalid paint color "${entry.code}" in catalog "${catalog.id}"`);
+    }
+    return { ...entry, catalogId: catalog.id, brand: catalog.brand, lab: rgbToLab(rgb) };
+  });
+  catalogs.set(catalog.id, { catalog, paints });
+}
+
+export function getPaintCatalogs(): PaintCatalog[] {
+  return Array.from(catalogs.values(), entry => entry.catalog);
+}
+
+// Nearest catalog paints to a color (hex or RGB), closest first
+export function findNearestPaints(color: string | RGB, options: PaintMatchOptions = {}): PaintMatch[] {
+  const rgb = typeof color === 'string' ? hexToRgb(color) : color;
+  if (!rgb) {
+    throw new Error(`Invalid color "${color}"`);
+  }
+  const { count = 3, catalogIds } = options;
+  const lab = rgbToLab(rgb);
+
+  const matches: PaintMatch[] = [];
+  for (const [id, { paints }] of Array.from(catalogs.entries())) {
+    if (catalogIds && !catalogIds.includes(id)) continue;
+    for (const { lab: paintLab, ...paint } of paints) {
+      matches.push({ paint, deltaE: Math.round(deltaE2000(lab, paintLab) * 100) / 100 });
+    }
+  }
+
+  return matches.sort((a, b) => a.deltaE - b.deltaE).slice(0, count);
+}
+
+registerPaintCatalog(studioEssentials);
@@ -0,0 +1,168 @@
+// Perspective pattern rendering: tiles a texture across a wall plane through its homography
+// Texels are read from a mipmap pyramid at the level matching each pixel's footprint (trilinear
+// filtering), so distant tiles average out instead of aliasing into moiré
+
+import type { MaskBounds } from '@/lib/wall-mask';
+import { invertHomography, type PerspectivePlane } from '@/lib/perspective';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+export interface PatternWarpOptions {
+  tileHeight?: number; // share of the plane's height covered by one tile; defaults to the texture's own size
+  scale?: number; // output pixels per source-image pixel
+}
+
+interface MipLevel {
+  data: Float32Array; // RGBA
+  width: number;
+  height: number;
+}
+
+const pyramids = new WeakMap<PixelBuffer, MipLevel[]>();
+
+// Render a texture tiled over a perspective plane, for the image rectangle `bounds`
+export function warpPattern(
+  texture: PixelBuffer,
+  plane: Pick<PerspectivePlane, 'corners' | 'homography' | 'aspectRatio'>,
+  bounds: MaskBounds,
+  options: PatternWarpOptions = {}
+): PixelBuffer {
+  const scale = options.scale ?? 1;
+  const width = Math.max(1, Math.round(bounds.width * scale));
+  const height = Math.max(1, Math.round(bounds.height * scale));
+  const output = new Uint8ClampedArray(width * height * 4);
+  const levels = getPyramid(texture);
+
+  const { width: su, height: sv } = getPlaneTextureSize(texture, plane, options);
+
+  const [[a, b, c], [d, e, f], [g, h, i]] = invertHomography(plane.homography);
+  const pixel = new Float32Array(4);
+
+  for (let row = 0; row < height; row++) {
+    const y = bounds.y + (row + 0.5) / scale;
+    for (let col = 0; col < width; col++) {
+      const x = bounds.x + (col + 0.5) / scale;
+      const w = g * x + h * y + i;
+      if (w <= 1e-9) continue; // beyond the plane's horizon
+
+      const u = (a * x + b * y + c) / w;
+      const v = (d * x + e * y + f) / w;
+
+      // Texels covered by one output pixel, from the derivatives of the projective map
+      const dudx = (a - u * g) / w / scale;
+      const dudy = (b - u * h) / w / scale;
+      const dvdx = (d - v * g) / w / scale;
+      const dvdy = (e - v * h) / w / scale;
+      const footprint = Math.max(Math.hypot(dudx * su, dvdx * sv), Math.hypot(dudy * su, dvdy * sv));
+
+      sampleTrilinear(levels, u * su, v * sv, footprint, pixel);
+      const idx = (row * width + col) * 4;
+      output[idx] = pixel[0];
+      output[idx + 1] = pixel[1];
+      output[idx + 2] = pixel[2];
+      output[idx + 3] = pixel[3];
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+// Texels spanned by the whole plane when the texture is tiled across it: enough tiles down the plane
+// to show the texture at its own size on the nearest edge, and across it to keep its proportions
+export function getPlaneTextureSize(
+  texture: Pick<PixelBuffer, 'width' | 'height'>,
+  plane: Pick<PerspectivePlane, 'corners' | 'aspectRatio'>,
+  options: Pick<PatternWarpOptions, 'tileHeight'> = {}
+): { width: number; height: number } {
+  const [topLeft, topRight, bottomRight, bottomLeft] = plane.corners;
+  const nearestEdge = Math.max(
+    Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y),
+    Math.hypot(bottomRight.x - topRight.x, bottomRight.y - topRight.y)
+  );
+  const tilesDown = options.tileHeight ? 1 / options.tileHeight : Math.max(1, nearestEdge / texture.height);
+  const tilesAcross = tilesDown * plane.aspectRatio * (texture.height / texture.width);
+  return { width: tilesAcross * texture.width, height: tilesDown * texture.height };
+}
+
+// Mipmap pyramid of a texture (2x2 box filter per level), built once per texture
+function getPyramid(texture: PixelBuffer): MipLevel[] {
+  const cached = pyramids.get(texture);
+  if (cached) return cached;
+
+  const levels: MipLevel[] = [{ data: Float32Array.from(texture.data), width: texture.width, height: texture.height }];
+  let level = levels[0];
+  while (level.width > 1 || level.height > 1) {
+    const width = Math.max(1, level.width >> 1);
+    const height = Math.max(1, level.height >> 1);
+    const data = new Float32Array(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.min(level.width - 1, x * 2);
+        const x1 = Math.min(level.width - 1, x * 2 + 1);
+        const y0 = Math.min(level.height - 1, y * 2);
+        const y1 = Math.min(level.height - 1, y * 2 + 1);
+        for (let ch = 0; ch < 4; ch++) {
+          data[(y * width + x) * 4 + ch] = (
+            level.data[(y0 * level.width + x0) * 4 + ch] +
+            level.data[(y0 * level.width + x1) * 4 + ch] +
+            level.data[(y1 * level.width + x0) * 4 + ch] +
+            level.data[(y1 * level.width + x1) * 4 + ch]
+          ) / 4;
+        }
+      }
+    }
+
+    level = { data, width, height };
+    levels.push(level);
+  }
+
+  pyramids.set(texture, levels);
+  return levels;
+}
+
+// Blend bilinear samples of the two mip levels around a footprint (in base-level texels)
+function sampleTrilinear(levels: MipLevel[], s: number, t: number, footprint: number, out: Float32Array): void {
+  const lod = Math.min(levels.length - 1, Math.max(0, Math.log2(Math.max(footprint, 1e-6))));
+  const lower = Math.floor(lod);
+  const blend = lod - lower;
+
+  sampleBilinear(levels[lower], s, t, levels[0], out, 1 - blend, true);
+  if (blend > 0 && lower + 1 < levels.length) {
+    sampleBilinear(levels[lower + 1], s, t, levels[0], out, blend, false);
+  }
+}
+
+// Add a weighted bilinear sample of a repeating mip level to out
+function sampleBilinear(
+  level: MipLevel,
+  s: number,
+  t: number,
+  base: MipLevel,
+  out: Float32Array,
+  weight: number,
+  reset: boolean
+): void {
+  const x = (s * level.width) / base.width - 0.5;
+  const y = (t * level.height) / base.height - 0.5;
+  const fx = x - Math.floor(x);
+  const fy = y - Math.floor(y);
+  const x0 = wrap(Math.floor(x), level.width);
+  const y0 = wrap(Math.floor(y), level.height);
+  const x1 = (x0 + 1) % level.width;
+  const y1 = (y0 + 1) % level.height;
+
+  const i00 = (y0 * level.width + x0) * 4;
+  const i10 = (y0 * level.width + x1) * 4;
+  const i01 = (y1 * level.width + x0) * 4;
+  const i11 = (y1 * level.width + x1) * 4;
+  for (let ch = 0; ch < 4; ch++) {
+    const top = level.data[i00 + ch] * (1 - fx) + level.data[i10 + ch] * fx;
+    const bottom = level.data[i01 + ch] * (1 - fx) + level.data[i11 + ch] * fx;
+    const value = (top * (1 - fy) + bottom * fy) * weight;
+    out[ch] = reset ? value : out[ch] + value;
+  }
+}
+
+function wrap(value: number, size: number): number {
+  return ((value % size) + size) % size;
+}
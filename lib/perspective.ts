@@ -0,0 +1,373 @@
+// Perspective estimation: vanishing points from detected line families and a perspective plane
+// (homography) per wall, so patterns can be drawn as if they lay on the wall
+
+import { intersectLines, type Line2D, type Point2D } from '@/lib/geometry';
+import { solveLinearSystem } from '@/lib/linear-algebra';
+import { lineLength, type DetectedLine } from '@/lib/line-detection';
+import type { LayoutSurface, SurfaceLabel } from '@/lib/room-layout';
+
+export interface VanishingPoint {
+  x: number; // image position, or the direction of the parallel lines when at infinity
+  y: number;
+  atInfinity: boolean;
+  support: number; // number of detected lines converging on it
+}
+
+// A 3x3 homography, row-major, mapping homogeneous points as H * [x, y, 1]
+export type Homography = number[][];
+
+export interface PerspectivePlane {
+  surfaceId: string;
+  label: SurfaceLabel;
+  // Image quad of a rectangle on the wall covering the surface: top-left, top-right, bottom-right, bottom-left
+  corners: Point2D[];
+  homography: Homography; // unit square (u, v in 0-1) to image pixels
+  aspectRatio: number; // real width / height of that rectangle
+}
+
+export interface PerspectiveEstimate {
+  vertical: VanishingPoint;
+  horizontal: VanishingPoint[]; // strongest first
+  focalLength: number; // in pixels
+  planes: PerspectivePlane[];
+}
+
+// Lines within this angle (degrees) of the direction towards a vanishing point converge on it
+const VP_ANGLE_TOLERANCE = 1.5;
+// Wall edges within this angle of a vanishing point use it
+const WALL_VP_TOLERANCE = 4;
+// Intersections further than this many image diagonals away are treated as points at infinity
+const MAX_VP_DISTANCE = 50;
+const UNIT_SQUARE: Point2D[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+// Focal length assumed when the vanishing points cannot fix it, as a share of the longer image side
+const DEFAULT_FOCAL_RATIO = 0.8;
+
+// Estimate vanishing points and a perspective plane for each wall of the room layout
+export function estimatePerspective(
+  walls: LayoutSurface[],
+  lines: DetectedLine[],
+  width: number,
+  height: number
+): PerspectiveEstimate {
+  const diagonal = Math.hypot(width, height);
+  const verticalLines = lines.filter(line => line.orientation === 'vertical');
+  const otherLines = lines.filter(line => line.orientation !== 'vertical');
+
+  const vertical = findVanishingPoint(verticalLines, diagonal)
+    ?? { x: 0, y: 1, atInfinity: true, support: 0 };
+
+  // Up to two horizontal directions (one- or two-point perspective)
+  const horizontal: VanishingPoint[] = [];
+  let remaining = otherLines;
+  while (horizontal.length < 2) {
+    const point = findVanishingPoint(remaining, diagonal);
+    if (!point) break;
+    horizontal.push(point);
+    remaining = remaining.filter(line => !convergesOn(line, point, VP_ANGLE_TOLERANCE));
+  }
+
+  const focalLength = estimateFocalLength([vertical, ...horizontal], width, height);
+  const planes = walls.flatMap(wall => {
+    const plane = fitWallPlane(wall, vertical, horizontal, focalLength, width, height);
+    return plane ? [plane] : [];
+  });
+
+  return { vertical, horizontal, focalLength, planes };
+}
+
+// Perspective plane through an image quad (top-left, top-right, bottom-right, bottom-left), e.g. after
+// its corners were adjusted by hand
+export function createPerspectivePlane(
+  surfaceId: string,
+  label: SurfaceLabel,
+  corners: Point2D[],
+  width: number,
+  height: number,
+  focalLength: number = DEFAULT_FOCAL_RATIO * Math.max(width, height)
+): PerspectivePlane {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const limit = MAX_VP_DISTANCE * Math.hypot(width, height);
+  const horizon = edgeVanishingPoint([topLeft, topRight], [bottomLeft, bottomRight], limit);
+  const vertical = edgeVanishingPoint([topLeft, bottomLeft], [topRight, bottomRight], limit);
+
+  return {
+    surfaceId,
+    label,
+    corners,
+    homography: computeHomography(UNIT_SQUARE, corners),
+    aspectRatio: planeAspectRatio(corners, horizon, vertical, focalLength, width, height),
+  };
+}
+
+// Homography mapping four points onto four others (direct linear transform)
+export function computeHomography(from: Point2D[], to: Point2D[]): Homography {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+
+  const h = solveLinearSystem(a, b);
+  return [
+    [h[0], h[1], h[2]],
+    [h[3], h[4], h[5]],
+    [h[6], h[7], 1],
+  ];
+}
+
+export function applyHomography(homography: Homography, point: Point2D): Point2D {
+  const [r0, r1, r2] = homography;
+  const w = r2[0] * point.x + r2[1] * point.y + r2[2];
+  return {
+    x: (r0[0] * point.x + r0[1] * point.y + r0[2]) / w,
+    y: (r1[0] * point.x + r1[1] * point.y + r1[2]) / w,
+  };
+}
+
+export function invertHomography(homography: Homography): Homography {
+  const [[a, b, c], [d, e, f], [g, h, i]] = homography;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  const k = Math.abs(det) < 1e-12 ? 0 : 1 / det;
+  return [
+    [(e * i - f * h) * k, (c * h - b * i) * k, (b * f - c * e) * k],
+    [(f * g - d * i) * k, (a * i - c * g) * k, (c * d - a * f) * k],
+    [(d * h - e * g) * k, (b * g - a * h) * k, (a * e - b * d) * k],
+  ];
+}
+
+function direction(line: DetectedLine): Point2D {
+  const length = lineLength(line) || 1;
+  return { x: (line.end.x - line.start.x) / length, y: (line.end.y - line.start.y) / length };
+}
+
+// Angle in degrees between two directions, ignoring their sign
+function angleBetween(a: Point2D, b: Point2D): number {
+  const cross = a.x * b.y - a.y * b.x;
+  const dot = a.x * b.x + a.y * b.y;
+  const angle = (Math.abs(Math.atan2(cross, dot)) * 180) / Math.PI;
+  return Math.min(angle, 180 - angle);
+}
+
+// Whether a segment, extended, passes through a vanishing point
+function convergesOn(line: DetectedLine, point: VanishingPoint, tolerance: number): boolean {
+  const towards = point.atInfinity
+    ? point
+    : {
+        x: point.x - (line.start.x + line.end.x) / 2,
+        y: point.y - (line.start.y + line.end.y) / 2,
+      };
+  return angleBetween(direction(line), towards) <= tolerance;
+}
+
+// The point most lines converge on (weighted by length): tries every pairwise intersection and
+// every line direction as a point at infinity. Needs at least two supporting lines.
+function findVanishingPoint(lines: DetectedLine[], diagonal: number): VanishingPoint | null {
+  if (lines.length < 2) return null;
+
+  const candidates: VanishingPoint[] = lines.map(line => ({ ...direction(line), atInfinity: true, support: 0 }));
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      const a: Line2D = { point: lines[i].start, direction: direction(lines[i]) };
+      const b: Line2D = { point: lines[j].start, direction: direction(lines[j]) };
+      const point = intersectLines(a, b);
+      if (point && Math.hypot(point.x, point.y) < MAX_VP_DISTANCE * diagonal) {
+        candidates.push({ x: point.x, y: point.y, atInfinity: false, support: 0 });
+      }
+    }
+  }
+
+  let best: { point: VanishingPoint; score: number } | null = null;
+  for (const candidate of candidates) {
+    const inliers = lines.filter(line => convergesOn(line, candidate, VP_ANGLE_TOLERANCE));
+    if (inliers.length < 2) continue;
+    const score = inliers.reduce((sum, line) => sum + lineLength(line), 0);
+    if (!best || score > best.score) {
+      best = { point: { ...candidate, support: inliers.length }, score };
+    }
+  }
+
+  return best ? best.point : null;
+}
+
+// Focal length from a pair of finite vanishing points of orthogonal directions, which satisfy
+// (v1 - c) . (v2 - c) = -f^2 for principal point c; falls back to a typical phone camera
+function estimateFocalLength(points: VanishingPoint[], width: number, height: number): number {
+  const cx = width / 2;
+  const cy = height / 2;
+  const longest = Math.max(width, height);
+  const finite = points.filter(point => !point.atInfinity);
+
+  for (let i = 0; i < finite.length; i++) {
+    for (let j = i + 1; j < finite.length; j++) {
+      const dot = (finite[i].x - cx) * (finite[j].x - cx) + (finite[i].y - cy) * (finite[j].y - cy);
+      const focal = Math.sqrt(Math.max(0, -dot));
+      if (focal > 0.3 * longest && focal < 5 * longest) return focal;
+    }
+  }
+
+  return DEFAULT_FOCAL_RATIO * longest;
+}
+
+// The wall's horizontal vanishing point: the detected one its top and bottom edges head towards,
+// or where those edges meet
+function wallHorizontalPoint(wall: LayoutSurface, candidates: VanishingPoint[], width: number, height: number): VanishingPoint | null {
+  const onBorder = (p: Point2D) => p.x <= 0.5 || p.y <= 0.5 || p.x >= width - 0.5 || p.y >= height - 0.5;
+  const edges: DetectedLine[] = [];
+  wall.polygon.forEach((start, index) => {
+    const end = wall.polygon[(index + 1) % wall.polygon.length];
+    if (onBorder(start) && onBorder(end)) return;
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    if (Math.hypot(dx, dy) < 1 || Math.abs(dy) > Math.abs(dx) * 2) return; // skip vertical edges
+    edges.push({ start, end, angle: 0, orientation: 'oblique', strength: 1 });
+  });
+  if (edges.length === 0) return null;
+
+  const matching = candidates.find(point => edges.every(edge => convergesOn(edge, point, WALL_VP_TOLERANCE)));
+  if (matching) return matching;
+
+  edges.sort((a, b) => lineLength(b) - lineLength(a));
+  const [first, second] = edges;
+  const meet = second && intersectLines(
+    { point: first.start, direction: direction(first) },
+    { point: second.start, direction: direction(second) }
+  );
+  if (meet && Math.hypot(meet.x, meet.y) < MAX_VP_DISTANCE * Math.hypot(width, height)) {
+    return { ...meet, atInfinity: false, support: 0 };
+  }
+  return { ...direction(first), atInfinity: true, support: 0 };
+}
+
+// The two lines through a vanishing point that just enclose a polygon
+function enclosingLines(point: VanishingPoint, polygon: Point2D[]): [Line2D, Line2D] | null {
+  if (point.atInfinity) {
+    const normal = { x: -point.y, y: point.x };
+    const offsets = polygon.map(p => p.x * normal.x + p.y * normal.y);
+    const norm = normal.x * normal.x + normal.y * normal.y;
+    const line = (offset: number): Line2D => ({
+      point: { x: (normal.x * offset) / norm, y: (normal.y * offset) / norm },
+      direction: { x: point.x, y: point.y },
+    });
+    return [line(Math.min(...offsets)), line(Math.max(...offsets))];
+  }
+
+  // Angles of the vertices seen from the vanishing point, relative to the polygon's centroid
+  const centroid = {
+    x: polygon.reduce((sum, p) => sum + p.x, 0) / polygon.length,
+    y: polygon.reduce((sum, p) => sum + p.y, 0) / polygon.length,
+  };
+  const axis = { x: centroid.x - point.x, y: centroid.y - point.y };
+  if (Math.hypot(axis.x, axis.y) < 1e-6) return null;
+  const angles = polygon.map(p => {
+    const v = { x: p.x - point.x, y: p.y - point.y };
+    return Math.atan2(axis.x * v.y - axis.y * v.x, axis.x * v.x + axis.y * v.y);
+  });
+  // A vanishing point inside the polygon has no enclosing pair
+  if (Math.max(...angles) - Math.min(...angles) >= Math.PI * 0.95) return null;
+
+  const base = Math.atan2(axis.y, axis.x);
+  const line = (angle: number): Line2D => ({
+    point: { x: point.x, y: point.y },
+    direction: { x: Math.cos(base + angle), y: Math.sin(base + angle) },
+  });
+  return [line(Math.min(...angles)), line(Math.max(...angles))];
+}
+
+// Perspective plane of a wall: the quad bounded by lines through its horizontal and the vertical
+// vanishing point, with its real aspect ratio from the camera model
+function fitWallPlane(
+  wall: LayoutSurface,
+  vertical: VanishingPoint,
+  horizontal: VanishingPoint[],
+  focalLength: number,
+  width: number,
+  height: number
+): PerspectivePlane | null {
+  const horizon = wallHorizontalPoint(wall, horizontal, width, height);
+  if (!horizon) return null;
+
+  const rows = enclosingLines(horizon, wall.polygon);
+  const columns = enclosingLines(vertical, wall.polygon);
+  if (!rows || !columns) return null;
+
+  const limit = MAX_VP_DISTANCE * Math.hypot(width, height);
+  const quad: Point2D[] = [];
+  for (const row of rows) {
+    for (const column of columns) {
+      const corner = intersectLines(row, column);
+      if (!corner || Math.hypot(corner.x, corner.y) > limit) return null;
+      quad.push(corner);
+    }
+  }
+
+  return createPerspectivePlane(wall.id, wall.label, orderCorners(quad), width, height, focalLength);
+}
+
+// Where two opposite edges of a quad meet, or their direction when (nearly) parallel
+function edgeVanishingPoint(a: [Point2D, Point2D], b: [Point2D, Point2D], limit: number): VanishingPoint {
+  const toLine = ([start, end]: [Point2D, Point2D]): Line2D => ({
+    point: start,
+    direction: { x: end.x - start.x, y: end.y - start.y },
+  });
+  const meet = intersectLines(toLine(a), toLine(b));
+  if (meet && Math.hypot(meet.x, meet.y) < limit) {
+    return { ...meet, atInfinity: false, support: 0 };
+  }
+  const dx = a[1].x - a[0].x;
+  const dy = a[1].y - a[0].y;
+  const length = Math.hypot(dx, dy) || 1;
+  return { x: dx / length, y: dy / length, atInfinity: true, support: 0 };
+}
+
+// Sort a quad clockwise (in image coordinates) starting at the top-left corner
+function orderCorners(quad: Point2D[]): Point2D[] {
+  const cx = quad.reduce((sum, p) => sum + p.x, 0) / quad.length;
+  const cy = quad.reduce((sum, p) => sum + p.y, 0) / quad.length;
+  const sorted = [...quad].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+  let start = 0;
+  sorted.forEach((p, index) => {
+    if (p.x + p.y < sorted[start].x + sorted[start].y) start = index;
+  });
+  return [...sorted.slice(start), ...sorted.slice(0, start)];
+}
+
+// Width / height of the wall rectangle behind an image quad, by back-projecting its corners onto the
+// plane spanned by the two vanishing directions
+function planeAspectRatio(
+  corners: Point2D[],
+  horizon: VanishingPoint,
+  vertical: VanishingPoint,
+  focalLength: number,
+  width: number,
+  height: number
+): number {
+  const cx = width / 2;
+  const cy = height / 2;
+  const ray = (point: VanishingPoint | Point2D, atInfinity = false) => atInfinity
+    ? [point.x / focalLength, point.y / focalLength, 0]
+    : [(point.x - cx) / focalLength, (point.y - cy) / focalLength, 1];
+
+  const h = ray(horizon, horizon.atInfinity);
+  const v = ray(vertical, vertical.atInfinity);
+  const normal = [h[1] * v[2] - h[2] * v[1], h[2] * v[0] - h[0] * v[2], h[0] * v[1] - h[1] * v[0]];
+
+  const points = corners.map(corner => {
+    const r = ray(corner);
+    const depth = normal[0] * r[0] + normal[1] * r[1] + normal[2] * r[2];
+    return Math.abs(depth) < 1e-9 ? null : r.map(value => value / depth);
+  });
+  const [topLeft, topRight, bottomRight, bottomLeft] = points;
+  const fallback = Math.hypot(corners[1].x - corners[0].x, corners[1].y - corners[0].y)
+    / (Math.hypot(corners[3].x - corners[0].x, corners[3].y - corners[0].y) || 1);
+  if (!topLeft || !topRight || !bottomRight || !bottomLeft) return fallback;
+
+  const length = (a: number[], b: number[]) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+  const wallWidth = (length(topLeft, topRight) + length(bottomLeft, bottomRight)) / 2;
+  const wallHeight = (length(topLeft, bottomLeft) + length(topRight, bottomRight)) / 2;
+  return wallHeight > 0 ? wallWidth / wallHeight : fallback;
+}
@@ -0,0 +1,38 @@
+// Raw RGBA pixel buffers shared by the browser and the server
+// Structurally compatible with ImageData, so canvas pixels can be passed in directly
+
+export interface PixelBuffer {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+// Allocate a fully transparent buffer
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+  return { data: new Uint8ClampedArray(width * height * 4), width, height };
+}
+
+// Wrap a buffer as ImageData for drawing on a canvas (browser only)
+export function toImageData(buffer: PixelBuffer): ImageData {
+  if (buffer instanceof ImageData) return buffer;
+  return new ImageData(buffer.data, buffer.width, buffer.height);
+}
+
+// Mean RGB of the opaque pixels in a square around a point, or null outside the buffer
+export function sampleColor(buffer: PixelBuffer, x: number, y: number, radius: number = 2): [number, number, number] | null {
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (let py = Math.round(y) - radius; py <= Math.round(y) + radius; py++) {
+    for (let px = Math.round(x) - radius; px <= Math.round(x) + radius; px++) {
+      if (px < 0 || py < 0 || px >= buffer.width || py >= buffer.height) continue;
+      const idx = (py * buffer.width + px) * 4;
+      if (buffer.data[idx + 3] === 0) continue;
+      sum[0] += buffer.data[idx];
+      sum[1] += buffer.data[idx + 1];
+      sum[2] += buffer.data[idx + 2];
+      count++;
+    }
+  }
+  if (count === 0) return null;
+  return [Math.round(sum[0] / count), Math.round(sum[1] / count), Math.round(sum[2] / count)];
+}
@@ -0,0 +1,132 @@
+// Luminance-preserving recolor: paints a wall region a new color while keeping the photo's light
+// Shading is multiplicative in linear light, so each pixel keeps its luminance relative to the wall's
+// typical luminance (shadows, corners, falloff from windows, texture) and takes the paint's chroma
+// and base lightness. Sheen adds an untinted specular highlight around the spot nearest the light
+// and reflects part of the incoming light, more the glossier the finish
+
+import { fromLinear, toLinear, type RGB } from '@/lib/color-science';
+import { estimateWallLighting, sampleLightField, type WallLighting } from '@/lib/lighting';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import type { MaskBounds } from '@/lib/wall-mask';
+
+export type PaintFinish = 'matte' | 'eggshell' | 'satin' | 'gloss';
+
+export const PAINT_FINISHES: PaintFinish[] = ['matte', 'eggshell', 'satin', 'gloss'];
+
+export const PAINT_FINISH_NAMES: Record<PaintFinish, string> = {
+  matte: 'Matte',
+  eggshell: 'Eggshell',
+  satin: 'Satin',
+  gloss: 'Gloss',
+};
+
+export const DEFAULT_PAINT_FINISH: PaintFinish = 'eggshell';
+
+export interface RecolorOptions {
+  scale?: number; // output pixels per source-image pixel
+  reference?: number; // wall luminance (linear, 0-1) the paint color is matched to; measured when omitted
+  finish?: PaintFinish; // defaults to matte (no sheen)
+  lighting?: WallLighting; // estimated from the photo when omitted
+}
+
+// Specular strength, highlight spread (share of the wall's diagonal) and reflectivity (share of the
+// incoming light reflected untinted) of each finish
+const FINISH_SHEEN: Record<PaintFinish, { specular: number; spread: number; reflectivity: number }> = {
+  matte: { specular: 0, spread: 1, reflectivity: 0 },
+  eggshell: { specular: 0.06, spread: 0.45, reflectivity: 0.02 },
+  satin: { specular: 0.14, spread: 0.3, reflectivity: 0.05 },
+  gloss: { specular: 0.32, spread: 0.16, reflectivity: 0.1 },
+};
+// Highlights stretch along the light's direction by this factor
+const HIGHLIGHT_ELONGATION = 1.6;
+
+// Coverage above which a mask pixel counts as wall when measuring its luminance
+const REFERENCE_COVERAGE = 128;
+// Floor for the reference so a near-black wall doesn't blow up the shading ratio
+const MIN_REFERENCE = 0.01;
+
+const LINEAR = Float32Array.from({ length: 256 }, (_, channel) => toLinear(channel));
+
+// Repaint the rectangle `bounds` of the source image. Every output pixel is opaque; clip it with the
+// wall's matte
+export function recolorRegion(
+  source: PixelBuffer,
+  mask: PixelBuffer,
+  color: RGB,
+  bounds: MaskBounds,
+  options: RecolorOptions = {}
+): PixelBuffer {
+  const scale = options.scale ?? 1;
+  const width = Math.max(1, Math.round(bounds.width * scale));
+  const height = Math.max(1, Math.round(bounds.height * scale));
+  const output = new Uint8ClampedArray(width * height * 4);
+  const reference = Math.max(MIN_REFERENCE, options.reference ?? measureWallLuminance(source, mask));
+  const paint = color.map(channel => LINEAR[Math.round(channel)]);
+
+  const sheen = FINISH_SHEEN[options.finish ?? 'matte'];
+  const lighting = sheen.specular > 0 || sheen.reflectivity > 0
+    ? options.lighting ?? estimateWallLighting(source, mask, bounds)
+    : null;
+  const sigma = sheen.spread * Math.hypot(bounds.width, bounds.height);
+  const along = 2 * (sigma * HIGHLIGHT_ELONGATION) ** 2;
+  const across = 2 * sigma ** 2;
+
+  for (let row = 0; row < height; row++) {
+    const y = Math.min(source.height - 1, Math.floor(bounds.y + (row + 0.5) / scale));
+    for (let col = 0; col < width; col++) {
+      const x = Math.min(source.width - 1, Math.floor(bounds.x + (col + 0.5) / scale));
+      const shading = luminanceAt(source, (y * source.width + x) * 4) / reference;
+
+      // White light added on top of the paint: a lobe around the hotspot, and a reflection of the
+      // wall's light field
+      let added = 0;
+      if (lighting) {
+        const light = sampleLightField(lighting.shading, x, y);
+        const dx = x - lighting.hotspot.x;
+        const dy = y - lighting.hotspot.y;
+        const u = dx * lighting.direction.x + dy * lighting.direction.y;
+        const v = dx * lighting.direction.y - dy * lighting.direction.x;
+        const lobe = lighting.direction.x || lighting.direction.y
+          ? Math.exp(-(u * u) / along - (v * v) / across)
+          : Math.exp(-(dx * dx + dy * dy) / across);
+        added = reference * light * (sheen.specular * lobe + sheen.reflectivity);
+      }
+
+      const idx = (row * width + col) * 4;
+      output[idx] = fromLinear(paint[0] * shading + added);
+      output[idx + 1] = fromLinear(paint[1] * shading + added);
+      output[idx + 2] = fromLinear(paint[2] * shading + added);
+      output[idx + 3] = 255;
+    }
+  }
+
+  return { data: output, width, height };
+}
+
+// Median linear luminance of the wall pixels: the "unshaded" wall the paint color stands for
+export function measureWallLuminance(source: PixelBuffer, mask: PixelBuffer): number {
+  // 10-bit histogram of luminance, which is plenty for a median
+  const histogram = new Uint32Array(1024);
+  let count = 0;
+  const step = Math.max(1, Math.floor(Math.sqrt((source.width * source.height) / 250000)));
+  for (let y = 0; y < source.height; y += step) {
+    for (let x = 0; x < source.width; x += step) {
+      const idx = (y * source.width + x) * 4;
+      if (mask.data[idx + 3] < REFERENCE_COVERAGE) continue;
+      histogram[Math.min(1023, Math.floor(luminanceAt(source, idx) * 1024))]++;
+      count++;
+    }
+  }
+  if (count === 0) return 0.5;
+
+  let seen = 0;
+  for (let bin = 0; bin < histogram.length; bin++) {
+    seen += histogram[bin];
+    if (seen * 2 >= count) return (bin + 0.5) / 1024;
+  }
+  return 0.5;
+}
+
+function luminanceAt(source: PixelBuffer, idx: number): number {
+  return 0.2126729 * LINEAR[source.data[idx]] + 0.7151522 * LINEAR[source.data[idx + 1]] + 0.072175 * LINEAR[source.data[idx + 2]];
+}
@@ -0,0 +1,513 @@
+// Room layout estimation: splits a photo into labeled surfaces (walls, ceiling, floor)
+// Uses a one-point "room box" model fitted to horizontal and vertical boundaries, optionally snapped
+// onto detected straight lines. A boundary only counts where its edge runs along the wall (corners
+// from the ceiling line to the floor line, those lines from corner to corner), and the outermost
+// consistent set wins, so windows, frames and furniture inside the back wall can't pass for it
+
+import { distanceToLine, intersectLines, pointInPolygon, type Line2D, type Point2D } from '@/lib/geometry';
+import type { DetectedLine } from '@/lib/line-detection';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+export type SurfaceLabel = 'left-wall' | 'back-wall' | 'right-wall' | 'ceiling' | 'floor';
+
+export interface LayoutSurface {
+  id: string;
+  label: SurfaceLabel;
+  polygon: Point2D[];
+  confidence: number;
+}
+
+export const SURFACE_NAMES: Record<SurfaceLabel, string> = {
+  'left-wall': 'Left wall',
+  'back-wall': 'Back wall',
+  'right-wall': 'Right wall',
+  ceiling: 'Ceiling',
+  floor: 'Floor',
+};
+
+export const WALL_LABELS: SurfaceLabel[] = ['left-wall', 'back-wall', 'right-wall'];
+
+interface BoundaryPeak {
+  position: number;
+  strength: number; // 0-1, how much the boundary stands out from the rest of the profile
+}
+
+// Minimum peak-to-median ratio for a boundary to count as present
+const MIN_BOUNDARY_RATIO = 1.8;
+// Profile peaks considered per side of the box
+const MAX_BOUNDARY_CANDIDATES = 6;
+// Luminance change (central difference) that makes a pixel part of an edge
+const EDGE_GRADIENT = 8;
+// Pixels either side of a boundary searched for its edge
+const EDGE_SEARCH_RADIUS = 2;
+// Share of the wall's height a corner's edge must span, and of its width the ceiling and floor lines
+// must span (furniture against the wall hides part of the floor line)
+const MIN_CORNER_SPAN = 0.6;
+const MIN_LINE_SPAN = 0.5;
+
+// How far (as a fraction of the image size) a detected line may be from a layout edge to snap to it
+const EDGE_SNAP_DISTANCE = 0.04;
+const CORNER_SNAP_DISTANCE = 0.03;
+// Maximum angle between a corner junction line and the default corner-to-image-corner direction
+const CORNER_SNAP_ANGLE = 30;
+// Share of a back-wall edge a detected line must run alongside
+const MIN_EDGE_OVERLAP = 0.25;
+
+// Estimate the room box and return one polygon per visible surface
+// Detected lines (see detectLines) pull the box edges onto the real wall, ceiling and floor junctions
+export function estimateRoomLayout(imageData: PixelBuffer, lines: DetectedLine[] = []): LayoutSurface[] {
+  const { width, height } = imageData;
+  const gray = toGrayscale(imageData);
+  const { ceiling, floor, leftCorner, rightCorner } = findRoomBoundaries(gray, width, height);
+
+  // Missing boundaries collapse the adjacent surface onto the image border
+  const yc = ceiling ? ceiling.position : 0;
+  const yf = floor ? floor.position : height;
+  const xl = leftCorner ? leftCorner.position : 0;
+  const xr = rightCorner ? rightCorner.position : width;
+
+  const box = fitRoomBox({ xl, xr, yc, yf }, {
+    top: !!ceiling,
+    bottom: !!floor,
+    left: !!leftCorner,
+    right: !!rightCorner,
+  }, lines, width, height);
+
+  const candidates: Array<{ label: SurfaceLabel; polygon: Point2D[]; boundaries: Array<BoundaryPeak | null> }> = [
+    {
+      label: 'back-wall',
+      polygon: box.backWall,
+      boundaries: [ceiling, floor, leftCorner, rightCorner],
+    },
+    {
+      label: 'left-wall',
+      polygon: box.left,
+      boundaries: leftCorner ? [leftCorner] : [],
+    },
+    {
+      label: 'right-wall',
+      polygon: box.right,
+      boundaries: rightCorner ? [rightCorner] : [],
+    },
+    {
+      label: 'ceiling',
+      polygon: box.ceiling,
+      boundaries: ceiling ? [ceiling] : [],
+    },
+    {
+      label: 'floor',
+      polygon: box.floor,
+      boundaries: floor ? [floor] : [],
+    },
+  ];
+
+  const surfaces: LayoutSurface[] = [];
+  for (const candidate of candidates) {
+    // The back wall always exists; the others only when their boundary was found
+    if (candidate.label !== 'back-wall' && candidate.boundaries.length === 0) continue;
+
+    const boundaryScore = candidate.boundaries.length > 0
+      ? candidate.boundaries.reduce((sum, b) => sum + (b ? b.strength : 0), 0) / candidate.boundaries.length
+      : 0;
+    const uniformity = regionUniformity(gray, width, height, candidate.polygon);
+
+    surfaces.push({
+      id: candidate.label,
+      label: candidate.label,
+      polygon: candidate.polygon,
+      confidence: Math.round((0.5 * boundaryScore + 0.5 * uniformity) * 100) / 100,
+    });
+  }
+
+  return surfaces;
+}
+
+interface RoomBox {
+  backWall: Point2D[];
+  left: Point2D[];
+  right: Point2D[];
+  ceiling: Point2D[];
+  floor: Point2D[];
+}
+
+// Build the surface polygons of the room box: the back-wall quad plus a junction ray from each of
+// its corners to the image border. Edges and rays follow detected lines where one matches.
+function fitRoomBox(
+  box: { xl: number; xr: number; yc: number; yf: number },
+  found: { top: boolean; bottom: boolean; left: boolean; right: boolean },
+  lines: DetectedLine[],
+  width: number,
+  height: number
+): RoomBox {
+  const { xl, xr, yc, yf } = box;
+  const horizontal = lines.filter(line => line.orientation === 'horizontal');
+  const vertical = lines.filter(line => line.orientation === 'vertical');
+
+  const top = (found.top && snapEdge(horizontal, { x: xl, y: yc }, { x: xr, y: yc }, height))
+    || { point: { x: 0, y: yc }, direction: { x: 1, y: 0 } };
+  const bottom = (found.bottom && snapEdge(horizontal, { x: xl, y: yf }, { x: xr, y: yf }, height))
+    || { point: { x: 0, y: yf }, direction: { x: 1, y: 0 } };
+  const left = (found.left && snapEdge(vertical, { x: xl, y: yc }, { x: xl, y: yf }, width))
+    || { point: { x: xl, y: 0 }, direction: { x: 0, y: 1 } };
+  const right = (found.right && snapEdge(vertical, { x: xr, y: yc }, { x: xr, y: yf }, width))
+    || { point: { x: xr, y: 0 }, direction: { x: 0, y: 1 } };
+
+  const corner = (a: Line2D, b: Line2D, fallback: Point2D) =>
+    clampPoint(intersectLines(a, b) ?? fallback, width, height);
+  const topLeft = corner(top, left, { x: xl, y: yc });
+  const topRight = corner(top, right, { x: xr, y: yc });
+  const bottomRight = corner(bottom, right, { x: xr, y: yf });
+  const bottomLeft = corner(bottom, left, { x: xl, y: yf });
+
+  // Junction rays only exist where both adjacent boundaries were found
+  const ray = (from: Point2D, imageCorner: Point2D, snap: boolean) =>
+    snap ? snapCornerRay(lines, from, imageCorner, width, height) : imageCorner;
+  const topLeftRay = ray(topLeft, { x: 0, y: 0 }, found.top && found.left);
+  const topRightRay = ray(topRight, { x: width, y: 0 }, found.top && found.right);
+  const bottomRightRay = ray(bottomRight, { x: width, y: height }, found.bottom && found.right);
+  const bottomLeftRay = ray(bottomLeft, { x: 0, y: height }, found.bottom && found.left);
+
+  return {
+    backWall: [topLeft, topRight, bottomRight, bottomLeft],
+    ceiling: sidePolygon(topLeft, topRight, topLeftRay, topRightRay, width, height),
+    right: sidePolygon(topRight, bottomRight, topRightRay, bottomRightRay, width, height),
+    floor: sidePolygon(bottomRight, bottomLeft, bottomRightRay, bottomLeftRay, width, height),
+    left: sidePolygon(bottomLeft, topLeft, bottomLeftRay, topLeftRay, width, height),
+  };
+}
+
+function toLine2D(line: DetectedLine): Line2D {
+  return { point: line.start, direction: { x: line.end.x - line.start.x, y: line.end.y - line.start.y } };
+}
+
+// The detected line closest to a back-wall edge a-b that runs alongside it, if any
+function snapEdge(candidates: DetectedLine[], a: Point2D, b: Point2D, extent: number): Line2D | null {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length === 0) return null;
+  const ux = (b.x - a.x) / length;
+  const uy = (b.y - a.y) / length;
+
+  let best: { line: Line2D; distance: number } | null = null;
+  for (const candidate of candidates) {
+    const line = toLine2D(candidate);
+    const distance = (distanceToLine(a, line) + distanceToLine(b, line)) / 2;
+    if (distance > EDGE_SNAP_DISTANCE * extent) continue;
+
+    const t0 = (candidate.start.x - a.x) * ux + (candidate.start.y - a.y) * uy;
+    const t1 = (candidate.end.x - a.x) * ux + (candidate.end.y - a.y) * uy;
+    const overlap = Math.min(length, Math.max(t0, t1)) - Math.max(0, Math.min(t0, t1));
+    if (overlap < MIN_EDGE_OVERLAP * length) continue;
+
+    if (!best || distance < best.distance) {
+      best = { line, distance };
+    }
+  }
+
+  return best ? best.line : null;
+}
+
+// Where the junction leaving a back-wall corner meets the image border: along a detected line through
+// the corner heading roughly towards the image corner, or straight to the image corner
+function snapCornerRay(lines: DetectedLine[], from: Point2D, imageCorner: Point2D, width: number, height: number): Point2D {
+  const tolerance = CORNER_SNAP_DISTANCE * Math.hypot(width, height);
+  const wanted = Math.atan2(imageCorner.y - from.y, imageCorner.x - from.x);
+
+  let best: { direction: Point2D; distance: number } | null = null;
+  for (const candidate of lines) {
+    const line = toLine2D(candidate);
+    const distance = distanceToLine(from, line);
+    if (distance > tolerance) continue;
+
+    // Orient the line away from the back wall, towards the image corner
+    let direction = line.direction;
+    if (direction.x * (imageCorner.x - from.x) + direction.y * (imageCorner.y - from.y) < 0) {
+      direction = { x: -direction.x, y: -direction.y };
+    }
+    let delta = Math.abs(Math.atan2(direction.y, direction.x) - wanted);
+    if (delta > Math.PI) delta = 2 * Math.PI - delta;
+    if ((delta * 180) / Math.PI > CORNER_SNAP_ANGLE) continue;
+
+    // The segment itself must lie on the outward side of the corner
+    const mid = { x: (candidate.start.x + candidate.end.x) / 2, y: (candidate.start.y + candidate.end.y) / 2 };
+    if ((mid.x - from.x) * direction.x + (mid.y - from.y) * direction.y <= 0) continue;
+
+    if (!best || distance < best.distance) {
+      best = { direction, distance };
+    }
+  }
+
+  return best ? rayToBorder(from, best.direction, width, height) : imageCorner;
+}
+
+// First point where a ray from inside the image leaves it
+function rayToBorder(origin: Point2D, direction: Point2D, width: number, height: number): Point2D {
+  let t = Infinity;
+  if (direction.x < 0) t = Math.min(t, -origin.x / direction.x);
+  if (direction.x > 0) t = Math.min(t, (width - origin.x) / direction.x);
+  if (direction.y < 0) t = Math.min(t, -origin.y / direction.y);
+  if (direction.y > 0) t = Math.min(t, (height - origin.y) / direction.y);
+  if (!Number.isFinite(t)) return origin;
+  return clampPoint({ x: origin.x + t * direction.x, y: origin.y + t * direction.y }, width, height);
+}
+
+// Surface between back-wall edge a-b and the junction rays ending at rayA and rayB on the border,
+// including any image corners passed when walking the border from rayB back to rayA
+function sidePolygon(a: Point2D, b: Point2D, rayA: Point2D, rayB: Point2D, width: number, height: number): Point2D[] {
+  const perimeter = 2 * (width + height);
+  const from = borderPosition(rayB, width, height);
+  const span = (from - borderPosition(rayA, width, height) + perimeter) % perimeter;
+
+  const passed = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }]
+    .map(point => ({ point, back: (from - borderPosition(point, width, height) + perimeter) % perimeter }))
+    .filter(({ back }) => back > 0 && back < span)
+    .sort((p, q) => p.back - q.back)
+    .map(({ point }) => point);
+
+  return [a, b, rayB, ...passed, rayA];
+}
+
+// Clockwise distance along the image border from the top-left corner
+function borderPosition(point: Point2D, width: number, height: number): number {
+  const epsilon = 0.5;
+  if (point.y <= epsilon) return point.x;
+  if (point.x >= width - epsilon) return width + point.y;
+  if (point.y >= height - epsilon) return width + height + (width - point.x);
+  return 2 * width + height + (height - point.y);
+}
+
+function clampPoint(point: Point2D, width: number, height: number): Point2D {
+  return {
+    x: Math.min(width, Math.max(0, point.x)),
+    y: Math.min(height, Math.max(0, point.y)),
+  };
+}
+
+// Convert RGBA pixels to luminance
+function toGrayscale(imageData: PixelBuffer): Float32Array {
+  const gray = new Float32Array(imageData.width * imageData.height);
+  const data = imageData.data;
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+interface EdgeProfiles {
+  rows: Float32Array; // vertical gradient summed per row
+  columns: Float32Array; // horizontal gradient summed per column
+  horizontalEdges: Uint8Array; // pixels on an edge running across the image
+  verticalEdges: Uint8Array; // pixels on an edge running down the image
+}
+
+// Gradient profiles and edge pixels, counting only gradients that clearly favour one direction
+function gradientProfiles(gray: Float32Array, width: number, height: number): EdgeProfiles {
+  const rows = new Float32Array(height);
+  const columns = new Float32Array(width);
+  const horizontalEdges = new Uint8Array(width * height);
+  const verticalEdges = new Uint8Array(width * height);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const idx = y * width + x;
+      const gx = gray[idx + 1] - gray[idx - 1];
+      const gy = gray[idx + width] - gray[idx - width];
+      if (Math.abs(gy) > 2 * Math.abs(gx)) {
+        rows[y] += Math.abs(gy);
+        if (Math.abs(gy) >= EDGE_GRADIENT) horizontalEdges[idx] = 1;
+      }
+      if (Math.abs(gx) > 2 * Math.abs(gy)) {
+        columns[x] += Math.abs(gx);
+        if (Math.abs(gx) >= EDGE_GRADIENT) verticalEdges[idx] = 1;
+      }
+    }
+  }
+
+  return { rows: smoothProfile(rows), columns: smoothProfile(columns), horizontalEdges, verticalEdges };
+}
+
+// Box-filter a profile so single-pixel noise does not win
+function smoothProfile(profile: Float32Array): Float32Array {
+  const radius = Math.max(1, Math.round(profile.length / 200));
+  const smoothed = new Float32Array(profile.length);
+  for (let i = 0; i < profile.length; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(profile.length - 1, i + radius); j++) {
+      sum += profile[j];
+      count++;
+    }
+    smoothed[i] = sum / count;
+  }
+  return smoothed;
+}
+
+interface BoundaryCandidate extends BoundaryPeak {
+  coverage: Uint32Array; // running count of edge pixels along the boundary
+}
+
+interface RoomBoundaries {
+  ceiling: BoundaryPeak | null;
+  floor: BoundaryPeak | null;
+  leftCorner: BoundaryPeak | null;
+  rightCorner: BoundaryPeak | null;
+}
+
+type BoxSide = keyof RoomBoundaries;
+
+// The room box's boundaries: among the profile peaks on each side (or none, leaving the surface on
+// the image border), the set whose edges span the box, each side the outermost that does.
+// Preferring outer boundaries is what keeps a window, whose edges also form a box, from winning
+// over the ceiling line running above it
+function findRoomBoundaries(gray: Float32Array, width: number, height: number): RoomBoundaries {
+  const { rows, columns, horizontalEdges, verticalEdges } = gradientProfiles(gray, width, height);
+
+  // Candidates per side, outermost first
+  const candidates: Record<BoxSide, BoundaryCandidate[]> = {
+    ceiling: findCandidates(rows, 0.05, 0.45, y => rowCoverage(horizontalEdges, width, height, y))
+      .sort((a, b) => a.position - b.position),
+    floor: findCandidates(rows, 0.55, 0.95, y => rowCoverage(horizontalEdges, width, height, y))
+      .sort((a, b) => b.position - a.position),
+    leftCorner: findCandidates(columns, 0.05, 0.45, x => columnCoverage(verticalEdges, width, height, x))
+      .sort((a, b) => a.position - b.position),
+    rightCorner: findCandidates(columns, 0.55, 0.95, x => columnCoverage(verticalEdges, width, height, x))
+      .sort((a, b) => b.position - a.position),
+  };
+  const sides: BoxSide[] = ['ceiling', 'floor', 'leftCorner', 'rightCorner'];
+
+  // Whether a side's boundary runs along the box the other sides make
+  const spans = (side: BoxSide, candidate: BoundaryCandidate, box: Record<BoxSide, BoundaryCandidate | null>) => {
+    const horizontal = side === 'ceiling' || side === 'floor';
+    const from = horizontal ? box.leftCorner?.position ?? 0 : box.ceiling?.position ?? 0;
+    const to = horizontal ? box.rightCorner?.position ?? width : box.floor?.position ?? height;
+    if (to - from < 1) return false;
+    const covered = candidate.coverage[to] - candidate.coverage[from];
+    return covered / (to - from) >= (horizontal ? MIN_LINE_SPAN : MIN_CORNER_SPAN);
+  };
+
+  let best: { box: Record<BoxSide, BoundaryCandidate | null>; valid: boolean; found: number; area: number } | null = null;
+  const visit = (index: number, box: Record<BoxSide, BoundaryCandidate | null>) => {
+    if (index < sides.length) {
+      const side = sides[index];
+      for (const option of [...candidates[side], null]) visit(index + 1, { ...box, [side]: option });
+      return;
+    }
+
+    if (!sides.every(side => !box[side] || spans(side, box[side]!, box))) return;
+    // Valid when no side has a more outward candidate that would also span the box
+    const valid = sides.every(side => {
+      const chosen = box[side];
+      const outer = chosen ? candidates[side].slice(0, candidates[side].indexOf(chosen)) : candidates[side];
+      return !outer.some(candidate => spans(side, candidate, box));
+    });
+    const found = sides.filter(side => box[side]).length;
+    const area = ((box.rightCorner?.position ?? width) - (box.leftCorner?.position ?? 0)) *
+      ((box.floor?.position ?? height) - (box.ceiling?.position ?? 0));
+    if (!best ||
+        (valid && !best.valid) ||
+        (valid === best.valid && (found > best.found || (found === best.found && area > best.area)))) {
+      best = { box, valid, found, area };
+    }
+  };
+  visit(0, { ceiling: null, floor: null, leftCorner: null, rightCorner: null });
+
+  const box = best!.box;
+  const peak = (candidate: BoundaryCandidate | null) =>
+    candidate ? { position: candidate.position, strength: candidate.strength } : null;
+  return {
+    ceiling: peak(box.ceiling),
+    floor: peak(box.floor),
+    leftCorner: peak(box.leftCorner),
+    rightCorner: peak(box.rightCorner),
+  };
+}
+
+// Local peaks of a profile within a fractional range that stand out from it, strongest first
+function findCandidates(
+  profile: Float32Array,
+  from: number,
+  to: number,
+  coverage: (position: number) => Uint32Array
+): BoundaryCandidate[] {
+  const start = Math.floor(profile.length * from);
+  const end = Math.ceil(profile.length * to);
+  const radius = Math.max(2, Math.round(profile.length / 100));
+
+  const sorted = Array.from(profile).sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)] || 1e-6;
+
+  const peaks: BoundaryPeak[] = [];
+  for (let i = start; i < end; i++) {
+    const ratio = profile[i] / median;
+    if (ratio < MIN_BOUNDARY_RATIO) continue;
+    let isPeak = true;
+    for (let j = Math.max(0, i - radius); j <= Math.min(profile.length - 1, i + radius) && isPeak; j++) {
+      // Ties go to the first position of a plateau
+      if (profile[j] > profile[i] || (j < i && profile[j] === profile[i])) isPeak = false;
+    }
+    if (isPeak) peaks.push({ position: i, strength: Math.min(1, (ratio - 1) / 4) });
+  }
+
+  return peaks
+    .sort((a, b) => b.strength - a.strength || profile[b.position] - profile[a.position])
+    .slice(0, MAX_BOUNDARY_CANDIDATES)
+    .map(peak => ({ ...peak, coverage: coverage(peak.position) }));
+}
+
+// Running count, along row y, of columns with an edge pixel near the row
+function rowCoverage(edges: Uint8Array, width: number, height: number, y: number): Uint32Array {
+  const coverage = new Uint32Array(width + 1);
+  for (let x = 0; x < width; x++) {
+    let hit = 0;
+    for (let row = Math.max(0, y - EDGE_SEARCH_RADIUS); row <= Math.min(height - 1, y + EDGE_SEARCH_RADIUS); row++) {
+      if (edges[row * width + x]) {
+        hit = 1;
+        break;
+      }
+    }
+    coverage[x + 1] = coverage[x] + hit;
+  }
+  return coverage;
+}
+
+// Running count, down column x, of rows with an edge pixel near the column
+function columnCoverage(edges: Uint8Array, width: number, height: number, x: number): Uint32Array {
+  const coverage = new Uint32Array(height + 1);
+  for (let y = 0; y < height; y++) {
+    let hit = 0;
+    for (let col = Math.max(0, x - EDGE_SEARCH_RADIUS); col <= Math.min(width - 1, x + EDGE_SEARCH_RADIUS); col++) {
+      if (edges[y * width + col]) {
+        hit = 1;
+        break;
+      }
+    }
+    coverage[y + 1] = coverage[y] + hit;
+  }
+  return coverage;
+}
+
+// 1 for a flat-colored region, falling towards 0 as luminance varies
+function regionUniformity(gray: Float32Array, width: number, height: number, polygon: Point2D[]): number {
+  const minX = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.x))));
+  const maxX = Math.min(width - 1, Math.ceil(Math.max(...polygon.map(p => p.x))));
+  const minY = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.y))));
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(...polygon.map(p => p.y))));
+  const step = Math.max(1, Math.round(Math.max(width, height) / 200));
+
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = minY; y <= maxY; y += step) {
+    for (let x = minX; x <= maxX; x += step) {
+      if (!pointInPolygon(x, y, polygon)) continue;
+      const value = gray[y * width + x];
+      sum += value;
+      sumSq += value * value;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  const std = Math.sqrt(Math.max(0, sumSq / count - mean * mean));
+  return Math.max(0, 1 - std / 64);
+}
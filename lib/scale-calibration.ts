@@ -0,0 +1,149 @@
+// Real-world scale of a room photo, from a reference line of known length drawn on a wall, a detected
+// door or, failing both, a standard ceiling height
+// The walls are taken to share one floor-to-ceiling height, which each wall's perspective plane spans,
+// so a single calibration sizes every wall; walls without a plane use the pixel size instead
+
+import { distance, type Point2D } from '@/lib/geometry';
+import type { DetectedOpening } from '@/lib/opening-detection';
+import { applyHomography, invertHomography, type PerspectivePlane } from '@/lib/perspective';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+import { WALL_LABELS, type SurfaceLabel } from '@/lib/room-layout';
+import { getMaskBounds } from '@/lib/wall-mask';
+
+export type LengthUnit = 'cm' | 'in';
+
+export type CalibrationSource = 'reference' | 'door' | 'ceiling';
+
+export interface ScaleCalibration {
+  source: CalibrationSource;
+  wallHeight: number; // floor-to-ceiling height, cm
+  cmPerPixel: number; // size of a source-image pixel on the walls, cm
+}
+
+// Real size, cm
+export interface PhysicalSize {
+  width: number;
+  height: number;
+}
+
+export const CALIBRATION_SOURCE_NAMES: Record<CalibrationSource, string> = {
+  reference: 'reference line',
+  door: 'door height',
+  ceiling: 'standard ceiling height',
+};
+
+export const CM_PER_INCH = 2.54;
+
+// Standard interior door (80 in) and ceiling (8 ft) heights
+const DOOR_HEIGHT = 203;
+const CEILING_HEIGHT = 244;
+
+// Convert centimeters to a unit, and back
+export function toUnit(cm: number, unit: LengthUnit): number {
+  return unit === 'in' ? cm / CM_PER_INCH : cm;
+}
+
+export function fromUnit(value: number, unit: LengthUnit): number {
+  return unit === 'in' ? value * CM_PER_INCH : value;
+}
+
+// "12.5 cm", "96 in": one decimal below 10 units
+export function formatLength(cm: number, unit: LengthUnit): string {
+  const value = toUnit(cm, unit);
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${unit}`;
+}
+
+// Scale from the photo's doors, or a standard ceiling height when none is found. Surface masks are
+// full-image; only walls are measured
+export function estimateCalibration(
+  openings: DetectedOpening[],
+  surfaces: Array<{ id: string; label: SurfaceLabel; mask: PixelBuffer }>
+): ScaleCalibration {
+  const walls = surfaces.filter(surface => WALL_LABELS.includes(surface.label));
+  const wallHeights = walls.map(wall => getMaskBounds(wall.mask).height).filter(height => height > 0);
+
+  // A door stands on the floor, so the wall above its centre column down to its sill is the wall's
+  // height there, whether or not the mask covers the door itself
+  const doorScales: number[] = [];
+  for (const door of openings.filter(opening => opening.type === 'door')) {
+    const wall = walls.find(surface => surface.id === door.surfaceId);
+    if (!wall) continue;
+    const top = columnTop(wall.mask, door.bounds.x + Math.floor(door.bounds.width / 2));
+    if (top < 0 || top > door.bounds.y) continue;
+    doorScales.push((door.bounds.y + door.bounds.height - top) / door.bounds.height);
+  }
+
+  const typicalWall = median(wallHeights) ?? 1;
+  if (doorScales.length > 0) {
+    const wallHeight = DOOR_HEIGHT * median(doorScales)!;
+    return { source: 'door', wallHeight, cmPerPixel: wallHeight / typicalWall };
+  }
+  return { source: 'ceiling', wallHeight: CEILING_HEIGHT, cmPerPixel: CEILING_HEIGHT / typicalWall };
+}
+
+// Scale from a line of known real length (cm) drawn on a wall, measured along the wall's plane when
+// it has one; wallPixels is the wall's height in pixels, for walls without a plane
+export function calibrateFromLine(
+  start: Point2D,
+  end: Point2D,
+  length: number,
+  plane: PerspectivePlane | null,
+  wallPixels: number
+): ScaleCalibration | null {
+  const pixels = distance(start, end);
+  if (pixels < 1 || length <= 0) return null;
+
+  const cmPerPixel = length / pixels;
+  const span = plane ? planeSpan(start, end, plane) : 0;
+  return {
+    source: 'reference',
+    wallHeight: span > 0 ? length / span : cmPerPixel * wallPixels,
+    cmPerPixel,
+  };
+}
+
+// Real length (cm) of a line on a wall
+export function measureLine(start: Point2D, end: Point2D, calibration: ScaleCalibration, plane: PerspectivePlane | null): number {
+  const span = plane ? planeSpan(start, end, plane) : 0;
+  return span > 0 ? span * calibration.wallHeight : distance(start, end) * calibration.cmPerPixel;
+}
+
+// Real size of a wall: its plane's when it has one, else its image bounds at the pixel size
+export function measureSurface(
+  calibration: ScaleCalibration,
+  plane: PerspectivePlane | null,
+  bounds: { width: number; height: number }
+): PhysicalSize {
+  if (plane) {
+    return { width: plane.aspectRatio * calibration.wallHeight, height: calibration.wallHeight };
+  }
+  return { width: bounds.width * calibration.cmPerPixel, height: bounds.height * calibration.cmPerPixel };
+}
+
+// Share of the wall's height covered by one repeat of a design
+export function getTileHeight(size: PhysicalSize, calibration: ScaleCalibration): number {
+  return size.height / calibration.wallHeight;
+}
+
+// Length of a line on a plane, in units of the plane's height
+function planeSpan(start: Point2D, end: Point2D, plane: PerspectivePlane): number {
+  const inverse = invertHomography(plane.homography);
+  const a = applyHomography(inverse, start);
+  const b = applyHomography(inverse, end);
+  const span = Math.hypot((b.x - a.x) * plane.aspectRatio, b.y - a.y);
+  return Number.isFinite(span) ? span : 0;
+}
+
+// First masked row in a column, -1 when there is none
+function columnTop(mask: PixelBuffer, column: number): number {
+  for (let row = 0; row < mask.height; row++) {
+    if (mask.data[(row * mask.width + column) * 4 + 3] > 0) return row;
+  }
+  return -1;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
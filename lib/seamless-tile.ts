@@ -0,0 +1,396 @@
+// Seamless tiles from swatch photos: flattens the photo's uneven lighting, finds the pattern's repeat
+// period from its autocorrelation (via FFT), crops to a whole number of repeats and hides what's left
+// of the seams with offset-and-blend, so the tile repeats cleanly
+// Swatches without a clear repeat along an axis keep their full extent there and rely on the blend
+
+import { fromLinear, toLinear } from '@/lib/color-science';
+import { solveLinearSystem } from '@/lib/linear-algebra';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+export interface SeamlessTile {
+  tile: PixelBuffer;
+  // Repeat period in tile pixels along each axis, null when the swatch doesn't repeat along it
+  period: { x: number | null; y: number | null };
+  scale: number; // tile pixels per swatch pixel
+}
+
+export interface SeamlessTileOptions {
+  maxSize?: number; // longer side the swatch is reduced to before processing
+  blendShare?: number; // share of the tile, from each edge, blended with its half-offset copy
+}
+
+const DEFAULT_MAX_SIZE = 1024;
+const DEFAULT_BLEND_SHARE = 0.25;
+// Longer side of the luminance image the period is detected on
+const ANALYSIS_SIZE = 256;
+// Shortest period considered, in analysis pixels; shorter "repeats" are grain, not pattern
+const MIN_PERIOD = 4;
+// Normalized autocorrelation a lag must reach to count as a repeat
+const MIN_CORRELATION = 0.4;
+// How far a peak must rise above the lowest correlation at shorter lags. Along an axis without
+// structure the correlation stays flat, near 1, and its ripples aren't repeats
+const MIN_PROMINENCE = 0.25;
+// Among the autocorrelation peaks, the shortest within this share of the strongest is the period,
+// so multiples of the period aren't picked
+const PEAK_SHARE = 0.9;
+
+const LINEAR = Float32Array.from({ length: 256 }, (_, channel) => toLinear(channel));
+
+export function prepareSeamlessTile(swatch: PixelBuffer, options: SeamlessTileOptions = {}): SeamlessTile {
+  const reduced = reduce(swatch, options.maxSize ?? DEFAULT_MAX_SIZE);
+  let flat = flattenLighting(reduced);
+  const luminance = luminanceOf(flat);
+
+  const analysisScale = Math.min(1, ANALYSIS_SIZE / Math.max(flat.width, flat.height));
+  const analysis = analysisScale < 1 ? luminanceOf(reduce(flat, ANALYSIS_SIZE)) : luminance;
+  const lags = detectPeriods(analysis.values, analysis.width, analysis.height);
+  const period = {
+    x: lags.x !== null ? refinePeriod(luminance.values, flat.width, flat.height, lags.x / analysisScale, 'x') : null,
+    y: lags.y !== null ? refinePeriod(luminance.values, flat.width, flat.height, lags.y / analysisScale, 'y') : null,
+  };
+  // A strong pattern biases the lighting fit wherever its phase lines up with the position;
+  // fitted again on the luminance averaged over whole repeats, the pattern cancels out
+  if (period.x || period.y) {
+    flat = flattenLighting(reduced, period);
+  }
+
+  // As many whole repeats as fit, centered
+  const width = period.x ? Math.floor(flat.width / period.x) * period.x : flat.width;
+  const height = period.y ? Math.floor(flat.height / period.y) * period.y : flat.height;
+  const cropped = crop(flat, Math.floor((flat.width - width) / 2), Math.floor((flat.height - height) / 2), width, height);
+
+  // The blended copy is shifted by whole repeats, so it stays in phase with the pattern
+  const shift = {
+    x: period.x ? Math.floor(width / period.x / 2) * period.x : Math.floor(width / 2),
+    y: period.y ? Math.floor(height / period.y / 2) * period.y : Math.floor(height / 2),
+  };
+
+  return {
+    tile: offsetBlend(cropped, options.blendShare ?? DEFAULT_BLEND_SHARE, shift),
+    period,
+    scale: flat.width / swatch.width,
+  };
+}
+
+interface LuminanceImage {
+  values: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Box-filter a buffer down so its longer side is at most maxSize
+function reduce(buffer: PixelBuffer, maxSize: number): PixelBuffer {
+  const scale = Math.min(1, maxSize / Math.max(buffer.width, buffer.height));
+  if (scale === 1) return buffer;
+
+  const width = Math.max(1, Math.round(buffer.width * scale));
+  const height = Math.max(1, Math.round(buffer.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor((y * buffer.height) / height);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * buffer.height) / height));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor((x * buffer.width) / width);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * buffer.width) / width));
+      const sum = [0, 0, 0, 0];
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const idx = (sy * buffer.width + sx) * 4;
+          for (let ch = 0; ch < 4; ch++) sum[ch] += buffer.data[idx + ch];
+        }
+      }
+      const count = (x1 - x0) * (y1 - y0);
+      for (let ch = 0; ch < 4; ch++) data[(y * width + x) * 4 + ch] = sum[ch] / count;
+    }
+  }
+  return { data, width, height };
+}
+
+// Divide out a smooth quadratic illumination surface fitted to log luminance: removes gradients
+// and vignetting without touching the pattern, whatever its scale. With known repeat periods, each
+// sample is the mean luminance over one repeat around it
+function flattenLighting(
+  buffer: PixelBuffer,
+  period: { x: number | null; y: number | null } = { x: null, y: null }
+): PixelBuffer {
+  const { width, height } = buffer;
+  const sampleLuminance = repeatAverage(buffer, period.x ?? 1, period.y ?? 1);
+  const basis = (x: number, y: number) => {
+    const u = x / width - 0.5;
+    const v = y / height - 0.5;
+    return [1, u, v, u * u, u * v, v * v];
+  };
+
+  // Least squares on a sample grid, via the normal equations
+  const ata = Array.from({ length: 6 }, () => new Array(6).fill(0));
+  const atb = new Array(6).fill(0);
+  const step = Math.max(1, Math.floor(Math.max(width, height) / 128));
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const value = Math.log(Math.max(1e-4, sampleLuminance(x, y)));
+      const terms = basis(x, y);
+      for (let i = 0; i < 6; i++) {
+        atb[i] += terms[i] * value;
+        for (let j = 0; j < 6; j++) ata[i][j] += terms[i] * terms[j];
+      }
+    }
+  }
+  const coefficients = solveLinearSystem(ata, atb);
+
+  // Keep the swatch's overall brightness: the fitted surface's value at the center
+  const data = new Uint8ClampedArray(buffer.data.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const terms = basis(x, y);
+      let fit = 0;
+      for (let i = 1; i < 6; i++) fit += coefficients[i] * terms[i];
+      const gain = Math.exp(-fit);
+      const idx = (y * width + x) * 4;
+      data[idx] = fromLinear(LINEAR[buffer.data[idx]] * gain);
+      data[idx + 1] = fromLinear(LINEAR[buffer.data[idx + 1]] * gain);
+      data[idx + 2] = fromLinear(LINEAR[buffer.data[idx + 2]] * gain);
+      data[idx + 3] = buffer.data[idx + 3];
+    }
+  }
+  return { data, width, height };
+}
+
+// Mean luminance over a spanX × spanY window around a pixel, shifted inside the buffer so it always
+// covers the whole span; read from a summed-area table
+function repeatAverage(buffer: PixelBuffer, spanX: number, spanY: number): (x: number, y: number) => number {
+  const { width, height } = buffer;
+  if (spanX <= 1 && spanY <= 1) {
+    return (x, y) => luminanceAt(buffer.data, (y * width + x) * 4);
+  }
+
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += luminanceAt(buffer.data, (y * width + x) * 4);
+      sums[(y + 1) * stride + x + 1] = sums[y * stride + x + 1] + row;
+    }
+  }
+
+  const w = Math.min(spanX, width);
+  const h = Math.min(spanY, height);
+  return (x, y) => {
+    const x0 = Math.max(0, Math.min(width - w, x - Math.floor(w / 2)));
+    const y0 = Math.max(0, Math.min(height - h, y - Math.floor(h / 2)));
+    const x1 = x0 + w;
+    const y1 = y0 + h;
+    return (sums[y1 * stride + x1] - sums[y0 * stride + x1] - sums[y1 * stride + x0] + sums[y0 * stride + x0]) / (w * h);
+  };
+}
+
+function luminanceOf(buffer: PixelBuffer): LuminanceImage {
+  const values = new Float32Array(buffer.width * buffer.height);
+  for (let i = 0; i < values.length; i++) values[i] = luminanceAt(buffer.data, i * 4);
+  return { values, width: buffer.width, height: buffer.height };
+}
+
+function luminanceAt(data: Uint8ClampedArray, idx: number): number {
+  return 0.2126729 * LINEAR[data[idx]] + 0.7151522 * LINEAR[data[idx + 1]] + 0.072175 * LINEAR[data[idx + 2]];
+}
+
+// Repeat periods along both axes from the normalized autocorrelation, computed as the inverse FFT of
+// the power spectrum. Zero padding to twice the size keeps the correlation from wrapping around
+function detectPeriods(values: Float32Array, width: number, height: number): { x: number | null; y: number | null } {
+  const fw = nextPowerOfTwo(width * 2);
+  const fh = nextPowerOfTwo(height * 2);
+  const re = new Float64Array(fw * fh);
+  const im = new Float64Array(fw * fh);
+
+  let mean = 0;
+  for (let i = 0; i < values.length; i++) mean += values[i];
+  mean /= values.length;
+  let variance = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = values[y * width + x] - mean;
+      re[y * fw + x] = value;
+      variance += value * value;
+    }
+  }
+  variance /= values.length;
+  if (variance < 1e-10) return { x: null, y: null }; // flat color
+
+  fft2d(re, im, fw, fh, false);
+  for (let i = 0; i < re.length; i++) {
+    re[i] = re[i] * re[i] + im[i] * im[i];
+    im[i] = 0;
+  }
+  fft2d(re, im, fw, fh, true);
+
+  // Correlation coefficient at a lag: the sum over the overlap, per overlapping pixel
+  const alongX = (lag: number) => re[lag] / ((width - lag) * height * variance);
+  const alongY = (lag: number) => re[lag * fw] / (width * (height - lag) * variance);
+  return {
+    x: findPeriod(alongX, Math.floor(width / 2)),
+    y: findPeriod(alongY, Math.floor(height / 2)),
+  };
+}
+
+// Shortest strong peak of the correlation up to maxLag (at least two repeats must fit)
+function findPeriod(correlation: (lag: number) => number, maxLag: number): number | null {
+  const peaks: Array<{ lag: number; value: number }> = [];
+  let trough = Infinity;
+  for (let lag = 1; lag < MIN_PERIOD; lag++) trough = Math.min(trough, correlation(lag));
+  for (let lag = MIN_PERIOD; lag < maxLag; lag++) {
+    const value = correlation(lag);
+    trough = Math.min(trough, value);
+    if (
+      value >= MIN_CORRELATION &&
+      value - trough >= MIN_PROMINENCE &&
+      value > correlation(lag - 1) &&
+      value >= correlation(lag + 1)
+    ) {
+      peaks.push({ lag, value });
+    }
+  }
+  if (peaks.length === 0) return null;
+
+  const strongest = Math.max(...peaks.map(peak => peak.value));
+  return peaks.find(peak => peak.value >= strongest * PEAK_SHARE)!.lag;
+}
+
+// Pin a period estimated at the analysis scale to the whole pixel, around it, that best matches the
+// swatch with itself shifted by it
+function refinePeriod(values: Float32Array, width: number, height: number, estimate: number, axis: 'x' | 'y'): number | null {
+  const size = axis === 'x' ? width : height;
+  const radius = Math.max(1, Math.ceil(size / ANALYSIS_SIZE));
+  let best: number | null = null;
+  let bestError = Infinity;
+  for (let lag = Math.max(1, Math.round(estimate) - radius); lag <= Math.round(estimate) + radius && lag * 2 <= size; lag++) {
+    let error = 0;
+    let count = 0;
+    const spanX = axis === 'x' ? width - lag : width;
+    const spanY = axis === 'y' ? height - lag : height;
+    const shift = axis === 'x' ? lag : lag * width;
+    for (let y = 0; y < spanY; y += 2) {
+      for (let x = 0; x < spanX; x += 2) {
+        const diff = values[y * width + x] - values[y * width + x + shift];
+        error += diff * diff;
+        count++;
+      }
+    }
+    if (count > 0 && error / count < bestError) {
+      bestError = error / count;
+      best = lag;
+    }
+  }
+  return best;
+}
+
+function crop(buffer: PixelBuffer, left: number, top: number, width: number, height: number): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const from = ((top + y) * buffer.width + left) * 4;
+    data.set(buffer.data.subarray(from, from + width * 4), y * width * 4);
+  }
+  return { data, width, height };
+}
+
+// Blend the tile with a copy offset by about half its size (wrapping around). The copy is continuous
+// across the tile's edges, where it is used; the tile itself is used in the middle, where the
+// copy's seams are
+function offsetBlend(tile: PixelBuffer, blendShare: number, shift: { x: number; y: number }): PixelBuffer {
+  const { width, height } = tile;
+  const data = new Uint8ClampedArray(tile.data.length);
+  const rampX = Math.max(1, width * blendShare);
+  const rampY = Math.max(1, height * blendShare);
+
+  for (let y = 0; y < height; y++) {
+    const wy = Math.min(1, (Math.min(y, height - 1 - y) + 0.5) / rampY);
+    const oy = (y + shift.y) % height;
+    for (let x = 0; x < width; x++) {
+      const wx = Math.min(1, (Math.min(x, width - 1 - x) + 0.5) / rampX);
+      const ox = (x + shift.x) % width;
+      const weight = wx * wy;
+      const idx = (y * width + x) * 4;
+      const offsetIdx = (oy * width + ox) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        data[idx + ch] = tile.data[idx + ch] * weight + tile.data[offsetIdx + ch] * (1 - weight);
+      }
+    }
+  }
+  return { data, width, height };
+}
+
+function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) size *= 2;
+  return size;
+}
+
+// In-place 2D FFT of a row-major complex array, rows then columns; the inverse is scaled by 1/n
+function fft2d(re: Float64Array, im: Float64Array, width: number, height: number, inverse: boolean): void {
+  const rowRe = new Float64Array(width);
+  const rowIm = new Float64Array(width);
+  for (let y = 0; y < height; y++) {
+    rowRe.set(re.subarray(y * width, (y + 1) * width));
+    rowIm.set(im.subarray(y * width, (y + 1) * width));
+    fft(rowRe, rowIm, inverse);
+    re.set(rowRe, y * width);
+    im.set(rowIm, y * width);
+  }
+
+  const colRe = new Float64Array(height);
+  const colIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      colRe[y] = re[y * width + x];
+      colIm[y] = im[y * width + x];
+    }
+    fft(colRe, colIm, inverse);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = colRe[y];
+      im[y * width + x] = colIm[y];
+    }
+  }
+}
+
+// Iterative radix-2 Cooley-Tukey FFT; the length must be a power of two
+function fft(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+// Disk store for the analysis cache, used by the API routes (Node only)
+// Entries are v8-serialized files (typed arrays survive intact) in a directory per cache version;
+// directories of older versions are removed when the store is first used
+
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { deserialize, serialize } from 'v8';
+import { setAnalysisCacheStore, type AnalysisCacheStore } from '@/lib/analysis-cache';
+import { config } from '@/lib/config';
+
+let diskStore: AnalysisCacheStore | null = null;
+
+// Cache analysis results on disk for this process; safe to call from every route
+export function enableDiskAnalysisCache(): void {
+  diskStore ??= createDiskCacheStore(path.join(process.cwd(), config.ai.cache.directory));
+  setAnalysisCacheStore(diskStore);
+}
+
+export function createDiskCacheStore(root: string): AnalysisCacheStore {
+  const directory = path.join(root, `v${config.ai.cache.version}`);
+  let ready: Promise<void> | null = null;
+  const prepare = () => {
+    ready ??= (async () => {
+      await mkdir(directory, { recursive: true });
+      for (const entry of await readdir(root)) {
+        if (path.join(root, entry) !== directory) {
+          await rm(path.join(root, entry), { recursive: true, force: true });
+        }
+      }
+    })();
+    ready.catch(() => (ready = null));
+    return ready;
+  };
+
+  return {
+    async get(key) {
+      await prepare();
+      try {
+        return deserialize(await readFile(path.join(directory, key)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+      }
+    },
+
+    async set(key, value) {
+      await prepare();
+      // Write then rename, so concurrent requests never read a partial entry
+      const temporary = path.join(directory, `.${key}.${process.pid}.${Date.now()}`);
+      await writeFile(temporary, serialize(value));
+      await rename(temporary, path.join(directory, key));
+      await evictOldest(directory, config.ai.cache.maxEntries);
+    },
+  };
+}
+
+// Remove the least recently written entries beyond the limit
+async function evictOldest(directory: string, maxEntries: number): Promise<void> {
+  const names = (await readdir(directory)).filter(name => !name.startsWith('.'));
+  if (names.length <= maxEntries) return;
+
+  const entries = await Promise.all(
+    names.map(async name => ({ name, modified: (await stat(path.join(directory, name))).mtimeMs }))
+  );
+  entries.sort((a, b) => a.modified - b.modified);
+  for (const entry of entries.slice(0, entries.length - maxEntries)) {
+    await rm(path.join(directory, entry.name), { force: true });
+  }
+}
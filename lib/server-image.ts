@@ -0,0 +1,222 @@
+// Server-side image decoding and encoding for the API routes (Node only)
+// Decodes to the same RGBA pixel buffers the browser gets from a canvas
+
+import { lookup } from 'dns';
+import { readFile } from 'fs/promises';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import path from 'path';
+import sharp from 'sharp';
+import { config } from '@/lib/config';
+import type { DepthBuffer } from '@/lib/depth-map';
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+// Read the bytes behind an image URL: data URLs, http(s) URLs or paths under public/
+async function readImageBytes(imageUrl: string): Promise<Buffer> {
+  if (imageUrl.startsWith('data:')) {
+    const comma = imageUrl.indexOf(',');
+    if (comma < 0) throw new Error('Malformed data URL');
+    const meta = imageUrl.slice(5, comma);
+    const payload = imageUrl.slice(comma + 1);
+    return meta.endsWith(';base64')
+      ? Buffer.from(payload, 'base64')
+      : Buffer.from(decodeURIComponent(payload));
+  }
+
+  if (/^https?:\/\//i.test(imageUrl)) {
+    return fetchRemoteImage(new URL(imageUrl));
+  }
+
+  if (imageUrl.startsWith('/')) {
+    const publicDir = path.join(process.cwd(), 'public');
+    const filePath = path.join(publicDir, decodeURIComponent(imageUrl.split(/[?#]/)[0]));
+    if (!filePath.startsWith(publicDir + path.sep)) {
+      throw new Error('Image path is outside the public directory');
+    }
+    return readFile(filePath);
+  }
+
+  throw new Error('Unsupported image URL; use a data URL, an http(s) URL or a path under public/');
+}
+
+// Ranges a remote image URL may never resolve to: private, loopback, link-local and other non-public addresses
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['64:ff9b::', 96],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  if (isIP(address) !== 6) return blockedAddresses.check(address, 'ipv4');
+
+  // IPv4-mapped IPv6 addresses are checked against the IPv4 rules as the address they carry, whether
+  // written dotted (::ffff:127.0.0.1) or in hex (::ffff:7f00:1); the URL parser brings both to hex
+  const canonical = new URL(`http://[${address}]`).hostname.slice(1, -1);
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(canonical);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return blockedAddresses.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, 'ipv4');
+  }
+  return blockedAddresses.check(canonical, 'ipv6');
+}
+
+// Whether config.image.remoteHosts allows a host; '*.example.com' matches example.com and its subdomains
+function isAllowedHost(hostname: string): boolean {
+  return config.image.remoteHosts.some(allowed => allowed.startsWith('*.')
+    ? hostname === allowed.slice(2) || hostname.endsWith(allowed.slice(1))
+    : hostname === allowed);
+}
+
+// DNS lookup that refuses blocked addresses, so the checked address is the one connected to.
+// Node asks for every address or just the first depending on autoSelectFamily; the typings only describe the former
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some(entry => isBlockedAddress(entry.address))) {
+      return callback(new Error(`Image host ${hostname} resolves to a private address`), []);
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      (callback as unknown as (error: null, address: string, family: number) => void)(
+        null, addresses[0].address, addresses[0].family
+      );
+    }
+  });
+};
+
+// Fetch an image from an allowed host, with a timeout and the size limit enforced while streaming.
+// Redirects are not followed, since their targets would bypass the host check
+function fetchRemoteImage(url: URL): Promise<Buffer> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (!isAllowedHost(hostname)) {
+    return Promise.reject(new Error(`Image host ${hostname} is not allowed`));
+  }
+  // IP literals are connected to without a lookup
+  if (isIP(hostname) && isBlockedAddress(hostname)) {
+    return Promise.reject(new Error(`Image host ${hostname} is a private address`));
+  }
+
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, {
+      lookup: checkedLookup,
+      signal: AbortSignal.timeout(config.image.fetchTimeout),
+    }, (response) => {
+      const status = response.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        response.resume();
+        reject(new Error(`Failed to fetch image (${status})`));
+        return;
+      }
+      if (Number(response.headers['content-length']) > config.image.maxSize) {
+        response.destroy();
+        reject(new Error('Image exceeds the maximum size'));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      response.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > config.image.maxSize) {
+          response.destroy();
+          reject(new Error('Image exceeds the maximum size'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', reject);
+    });
+
+    request.on('error', (error) => {
+      reject(error.name === 'TimeoutError' || error.name === 'AbortError' ? new Error('Timed out fetching image') : error);
+    });
+  });
+}
+
+// Decode an image URL to RGBA pixels, applying EXIF orientation and the configured size limits
+export async function decodeImage(imageUrl: string): Promise<PixelBuffer> {
+  const bytes = await readImageBytes(imageUrl);
+  if (bytes.length > config.image.maxSize) {
+    throw new Error('Image exceeds the maximum size');
+  }
+
+  const { data, info } = await sharp(bytes)
+    .rotate()
+    .resize({
+      width: config.image.maxWidth,
+      height: config.image.maxHeight,
+      fit: 'inside',
+      withoutEnlargement: true,
+    })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return {
+    data: new Uint8ClampedArray(data.buffer, data.byteOffset, data.byteLength),
+    width: info.width,
+    height: info.height,
+  };
+}
+
+// Decode a mask image: coverage is the gray level (as written by encodeMask) times alpha
+export async function decodeMask(imageUrl: string): Promise<PixelBuffer> {
+  const mask = await decodeImage(imageUrl);
+  for (let p = 0; p < mask.data.length; p += 4) {
+    const coverage = Math.round((mask.data[p] * mask.data[p + 3]) / 255);
+    mask.data[p] = mask.data[p + 1] = mask.data[p + 2] = mask.data[p + 3] = coverage;
+  }
+  return mask;
+}
+
+// Encode RGBA pixels as a data URL
+export async function encodeImage(pixels: PixelBuffer, format: 'png' | 'jpeg' = 'png'): Promise<string> {
+  const image = sharp(Buffer.from(pixels.data.buffer, pixels.data.byteOffset, pixels.data.byteLength), {
+    raw: { width: pixels.width, height: pixels.height, channels: 4 },
+  });
+  const encoded = format === 'jpeg'
+    ? await image.jpeg({ quality: Math.round(config.performance.compressionQuality * 100) }).toBuffer()
+    : await image.png().toBuffer();
+
+  return `data:image/${format};base64,${encoded.toString('base64')}`;
+}
+
+// Encode a mask's coverage (alpha channel) as a grayscale PNG data URL
+export async function encodeMask(mask: PixelBuffer): Promise<string> {
+  const coverage = Buffer.alloc(mask.width * mask.height);
+  for (let i = 0; i < coverage.length; i++) {
+    coverage[i] = mask.data[i * 4 + 3];
+  }
+
+  const encoded = await sharp(coverage, {
+    raw: { width: mask.width, height: mask.height, channels: 1 },
+  }).png().toBuffer();
+
+  return `data:image/png;base64,${encoded.toString('base64')}`;
+}
+
+// Encode a depth map (0 near - 1 far) as a grayscale PNG data URL, white = far
+export async function encodeDepth(depth: DepthBuffer): Promise<string> {
+  const gray = Buffer.alloc(depth.width * depth.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(Math.min(1, Math.max(0, depth.data[i])) * 255);
+  }
+
+  const encoded = await sharp(gray, {
+    raw: { width: depth.width, height: depth.height, channels: 1 },
+  }).png().toBuffer();
+
+  return `data:image/png;base64,${encoded.toString('base64')}`;
+}
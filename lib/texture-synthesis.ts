@@ -0,0 +1,200 @@
+// Texture synthesis by image quilting (Efros & Freeman): grows a small swatch into a larger texture
+// without visible repeats. Patches are laid on a grid with overlapping edges; each is picked from the
+// swatch among random candidates whose overlap agrees best with what's already placed, and the seam
+// between them follows the minimum-error path through the overlap
+
+import type { PixelBuffer } from '@/lib/pixel-buffer';
+
+export interface QuiltOptions {
+  patchSize?: number; // patch side in swatch pixels; defaults to a third of the swatch's shorter side
+  overlap?: number; // width of the overlapping edge; defaults to a sixth of the patch
+  seed?: number;
+}
+
+// Candidate patches drawn per grid cell
+const CANDIDATES = 48;
+// Candidates within this share of the best overlap error are picked from at random, so the
+// same few patches aren't repeated
+const ERROR_TOLERANCE = 0.1;
+const PATCH_SHARE = 1 / 3;
+const MIN_PATCH = 16;
+const MAX_PATCH = 128;
+const DEFAULT_SEED = 0x9e3779b9;
+
+// A width × height texture grown from the swatch. A swatch already at least that size is cropped
+export function quiltTexture(source: PixelBuffer, width: number, height: number, options: QuiltOptions = {}): PixelBuffer {
+  width = Math.max(1, Math.round(width));
+  height = Math.max(1, Math.round(height));
+  const output = new Uint8ClampedArray(width * height * 4);
+
+  if (source.width >= width && source.height >= height) {
+    for (let y = 0; y < height; y++) {
+      output.set(source.data.subarray(y * source.width * 4, (y * source.width + width) * 4), y * width * 4);
+    }
+    return { data: output, width, height };
+  }
+
+  const shorter = Math.min(source.width, source.height);
+  const patch = Math.max(1, Math.min(shorter, options.patchSize ?? Math.min(MAX_PATCH, Math.max(MIN_PATCH, Math.round(shorter * PATCH_SHARE)))));
+  const overlap = Math.max(1, Math.min(Math.floor(patch / 2), options.overlap ?? Math.round(patch / 6)));
+  const step = Math.max(1, patch - overlap);
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const target: PixelBuffer = { data: output, width, height };
+  const keep = new Uint8Array(patch * patch);
+
+  for (let oy = 0; oy === 0 || oy + overlap < height; oy += step) {
+    for (let ox = 0; ox === 0 || ox + overlap < width; ox += step) {
+      const region: Region = {
+        x: ox,
+        y: oy,
+        width: Math.min(patch, width - ox),
+        height: Math.min(patch, height - oy),
+        left: ox > 0 ? overlap : 0,
+        top: oy > 0 ? overlap : 0,
+      };
+      const position = region.left || region.top
+        ? choosePatch(source, target, region, patch, random)
+        : randomPosition(source, patch, random);
+
+      keep.fill(1);
+      if (region.left) cutVertical(source, target, region, position, keep, patch);
+      if (region.top) cutHorizontal(source, target, region, position, keep, patch);
+
+      for (let y = 0; y < region.height; y++) {
+        for (let x = 0; x < region.width; x++) {
+          if (!keep[y * patch + x]) continue;
+          const from = ((position.y + y) * source.width + position.x + x) * 4;
+          const to = ((oy + y) * width + ox + x) * 4;
+          output[to] = source.data[from];
+          output[to + 1] = source.data[from + 1];
+          output[to + 2] = source.data[from + 2];
+          output[to + 3] = source.data[from + 3];
+        }
+      }
+    }
+  }
+
+  return target;
+}
+
+// A grid cell of the output: where it lies and how much of it overlaps patches placed before
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  left: number;
+  top: number;
+}
+
+interface Position {
+  x: number;
+  y: number;
+}
+
+function randomPosition(source: PixelBuffer, patch: number, random: () => number): Position {
+  return {
+    x: Math.floor(random() * (source.width - patch + 1)),
+    y: Math.floor(random() * (source.height - patch + 1)),
+  };
+}
+
+// Pick a swatch position whose overlap matches the placed texture, among random candidates
+function choosePatch(source: PixelBuffer, target: PixelBuffer, region: Region, patch: number, random: () => number): Position {
+  const candidates: Array<{ position: Position; error: number }> = [];
+  let best = Infinity;
+  for (let i = 0; i < CANDIDATES; i++) {
+    const position = randomPosition(source, patch, random);
+    // Every other pixel is plenty to rank candidates
+    const error = overlapError(source, target, region, position, 2);
+    candidates.push({ position, error });
+    best = Math.min(best, error);
+  }
+
+  const good = candidates.filter(candidate => candidate.error <= best * (1 + ERROR_TOLERANCE));
+  return good[Math.floor(random() * good.length)].position;
+}
+
+function overlapError(source: PixelBuffer, target: PixelBuffer, region: Region, position: Position, stride: number): number {
+  let error = 0;
+  for (let y = 0; y < region.height; y += stride) {
+    const span = y < region.top ? region.width : region.left;
+    for (let x = 0; x < span; x += stride) {
+      error += pixelError(source, target, region, position, x, y);
+    }
+  }
+  return error;
+}
+
+function pixelError(source: PixelBuffer, target: PixelBuffer, region: Region, position: Position, x: number, y: number): number {
+  const a = ((position.y + y) * source.width + position.x + x) * 4;
+  const b = ((region.y + y) * target.width + region.x + x) * 4;
+  const dr = source.data[a] - target.data[b];
+  const dg = source.data[a + 1] - target.data[b + 1];
+  const db = source.data[a + 2] - target.data[b + 2];
+  return dr * dr + dg * dg + db * db;
+}
+
+// Minimum-error seam down the left overlap; pixels left of it keep the placed texture
+function cutVertical(source: PixelBuffer, target: PixelBuffer, region: Region, position: Position, keep: Uint8Array, patch: number): void {
+  const span = Math.min(region.left, region.width);
+  const seam = minimumSeam(span, region.height, (along, across) => pixelError(source, target, region, position, across, along));
+  for (let y = 0; y < region.height; y++) {
+    for (let x = 0; x < seam[y]; x++) keep[y * patch + x] = 0;
+  }
+}
+
+// Minimum-error seam across the top overlap; pixels above it keep the placed texture
+function cutHorizontal(source: PixelBuffer, target: PixelBuffer, region: Region, position: Position, keep: Uint8Array, patch: number): void {
+  const span = Math.min(region.top, region.height);
+  const seam = minimumSeam(span, region.width, (along, across) => pixelError(source, target, region, position, along, across));
+  for (let x = 0; x < region.width; x++) {
+    for (let y = 0; y < seam[x]; y++) keep[y * patch + x] = 0;
+  }
+}
+
+// Dynamic-programming seam through a span × length strip: for each step along it, the offset across
+// where the new patch starts. The seam moves at most one pixel across per step
+function minimumSeam(span: number, length: number, cost: (along: number, across: number) => number): Int32Array {
+  const total = new Float64Array(span * length);
+  for (let along = 0; along < length; along++) {
+    for (let across = 0; across < span; across++) {
+      let previous = 0;
+      if (along > 0) {
+        const row = (along - 1) * span;
+        previous = total[row + across];
+        if (across > 0) previous = Math.min(previous, total[row + across - 1]);
+        if (across < span - 1) previous = Math.min(previous, total[row + across + 1]);
+      }
+      total[along * span + across] = cost(along, across) + previous;
+    }
+  }
+
+  const seam = new Int32Array(length);
+  let across = 0;
+  for (let i = 1; i < span; i++) {
+    if (total[(length - 1) * span + i] < total[(length - 1) * span + across]) across = i;
+  }
+  seam[length - 1] = across;
+  for (let along = length - 2; along >= 0; along--) {
+    const row = along * span;
+    let next = across;
+    if (across > 0 && total[row + across - 1] < total[row + next]) next = across - 1;
+    if (across < span - 1 && total[row + across + 1] < total[row + next]) next = across + 1;
+    across = next;
+    seam[along] = across;
+  }
+  return seam;
+}
+
+// Mulberry32: small seeded PRNG, uniform in [0, 1)
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
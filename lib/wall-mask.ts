@@ -0,0 +1,667 @@
+// Wall mask utilities for the AI Wall Visualizer
+// A wall mask is an RGBA pixel buffer in source-image pixels whose alpha channel marks wall coverage
+
+import { convexHull, simplifyPolygon, type Point2D } from '@/lib/geometry';
+import { createPixelBuffer, toImageData, type PixelBuffer } from '@/lib/pixel-buffer';
+
+export interface MaskBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Create an empty (fully transparent) mask
+export function createEmptyMask(width: number, height: number): PixelBuffer {
+  return createPixelBuffer(width, height);
+}
+
+// Copy a mask so it can be edited without touching the original
+export function cloneMask(mask: PixelBuffer): PixelBuffer {
+  return { data: new Uint8ClampedArray(mask.data), width: mask.width, height: mask.height };
+}
+
+// Create a mask covering a single rectangle
+export function createRectangleMask(width: number, height: number, rect: MaskBounds): PixelBuffer {
+  const mask = createEmptyMask(width, height);
+  const x0 = Math.max(0, Math.floor(rect.x));
+  const y0 = Math.max(0, Math.floor(rect.y));
+  const x1 = Math.min(width, Math.ceil(rect.x + rect.width));
+  const y1 = Math.min(height, Math.ceil(rect.y + rect.height));
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const idx = (y * width + x) * 4;
+      mask.data[idx] = 255;
+      mask.data[idx + 1] = 255;
+      mask.data[idx + 2] = 255;
+      mask.data[idx + 3] = 255;
+    }
+  }
+
+  return mask;
+}
+
+// Create a mask covering a polygon (even-odd scanline fill at pixel centers)
+export function rasterizePolygon(polygon: Array<{ x: number; y: number }>, width: number, height: number): PixelBuffer {
+  const mask = createEmptyMask(width, height);
+  if (polygon.length < 3) return mask;
+
+  const minY = Math.max(0, Math.floor(Math.min(...polygon.map(p => p.y))));
+  const maxY = Math.min(height - 1, Math.ceil(Math.max(...polygon.map(p => p.y))));
+
+  for (let y = minY; y <= maxY; y++) {
+    const cy = y + 0.5;
+    const crossings: number[] = [];
+
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const a = polygon[i];
+      const b = polygon[j];
+      if ((a.y > cy) !== (b.y > cy)) {
+        crossings.push(a.x + ((cy - a.y) * (b.x - a.x)) / (b.y - a.y));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const x0 = Math.max(0, Math.ceil(crossings[k] - 0.5));
+      const x1 = Math.min(width - 1, Math.floor(crossings[k + 1] - 0.5));
+      for (let x = x0; x <= x1; x++) {
+        const idx = (y * width + x) * 4;
+        mask.data[idx] = mask.data[idx + 1] = mask.data[idx + 2] = mask.data[idx + 3] = 255;
+      }
+    }
+  }
+
+  return mask;
+}
+
+// Find the bounding box of all covered pixels
+export function getMaskBounds(mask: PixelBuffer): MaskBounds {
+  const { width, height, data } = mask;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  return {
+    x: minX,
+    y: minY,
+    width: maxX - minX + 1,
+    height: maxY - minY + 1,
+  };
+}
+
+// Approximate the covered area with an editable outline (simplified convex hull)
+export function maskToPolygon(mask: PixelBuffer): Point2D[] {
+  const { width, height, data } = mask;
+  const step = Math.max(1, Math.round(height / 200));
+  const points: Point2D[] = [];
+
+  for (let y = 0; y < height; y += step) {
+    let left = -1;
+    let right = -1;
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 0) {
+        if (left < 0) left = x;
+        right = x;
+      }
+    }
+    if (left >= 0) {
+      points.push({ x: left, y }, { x: right + 1, y }, { x: left, y: y + 1 }, { x: right + 1, y: y + 1 });
+    }
+  }
+
+  return simplifyPolygon(convexHull(points), Math.max(width, height) / 200);
+}
+
+// Render a mask to a canvas, optionally tinting covered pixels for display
+export function maskToCanvas(mask: PixelBuffer, tint?: [number, number, number, number]): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = mask.width;
+  canvas.height = mask.height;
+  const ctx = canvas.getContext('2d')!;
+
+  if (!tint) {
+    ctx.putImageData(toImageData(mask), 0, 0);
+    return canvas;
+  }
+
+  const [r, g, b, a] = tint;
+  const tinted = ctx.createImageData(mask.width, mask.height);
+  for (let i = 0; i < mask.data.length; i += 4) {
+    tinted.data[i] = r;
+    tinted.data[i + 1] = g;
+    tinted.data[i + 2] = b;
+    tinted.data[i + 3] = Math.round(mask.data[i + 3] * a);
+  }
+  ctx.putImageData(tinted, 0, 0);
+
+  return canvas;
+}
+
+export interface RegionGrowOptions {
+  // Maximum color distance (0-255) from the region's running mean color
+  tolerance: number;
+  // Edge magnitude (0-255) at or above which growth stops
+  edgeThreshold?: number;
+}
+
+export type MaskCombineMode = 'replace' | 'add' | 'subtract';
+
+// Grow a region from a seed pixel (magic wand), using color tolerance and edges as barriers
+export function growRegion(
+  imageData: PixelBuffer,
+  edges: Uint8ClampedArray | null,
+  seedX: number,
+  seedY: number,
+  options: RegionGrowOptions
+): PixelBuffer {
+  const { width, height, data } = imageData;
+  const mask = createEmptyMask(width, height);
+  const sx = Math.floor(seedX);
+  const sy = Math.floor(seedY);
+
+  if (sx < 0 || sy < 0 || sx >= width || sy >= height) {
+    return mask;
+  }
+
+  const edgeThreshold = options.edgeThreshold ?? 100;
+  const toleranceSq = options.tolerance * options.tolerance * 3;
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let stackSize = 0;
+
+  // Running mean color of the region, so gradual lighting changes are followed
+  const seed = (sy * width + sx) * 4;
+  let sumR = data[seed];
+  let sumG = data[seed + 1];
+  let sumB = data[seed + 2];
+  let count = 1;
+
+  visited[sy * width + sx] = 1;
+  stack[stackSize++] = sy * width + sx;
+
+  while (stackSize > 0) {
+    const idx = stack[--stackSize];
+    const p = idx * 4;
+    mask.data[p] = mask.data[p + 1] = mask.data[p + 2] = mask.data[p + 3] = 255;
+
+    const x = idx % width;
+    const y = (idx - x) / width;
+    const neighbors = [
+      x > 0 ? idx - 1 : -1,
+      x < width - 1 ? idx + 1 : -1,
+      y > 0 ? idx - width : -1,
+      y < height - 1 ? idx + width : -1,
+    ];
+
+    for (const n of neighbors) {
+      if (n < 0 || visited[n]) continue;
+      visited[n] = 1;
+
+      if (edges && edges[n] >= edgeThreshold) continue;
+
+      const q = n * 4;
+      const dr = data[q] - sumR / count;
+      const dg = data[q + 1] - sumG / count;
+      const db = data[q + 2] - sumB / count;
+      if (dr * dr + dg * dg + db * db > toleranceSq) continue;
+
+      sumR += data[q];
+      sumG += data[q + 1];
+      sumB += data[q + 2];
+      count++;
+      stack[stackSize++] = n;
+    }
+  }
+
+  return mask;
+}
+
+// Combine a region into an existing mask
+export function combineMasks(base: PixelBuffer | null, region: PixelBuffer, mode: MaskCombineMode): PixelBuffer {
+  if (mode === 'replace' || !base) {
+    return mode === 'subtract' ? createEmptyMask(region.width, region.height) : region;
+  }
+
+  const result = createEmptyMask(base.width, base.height);
+  for (let i = 3; i < base.data.length; i += 4) {
+    const alpha = mode === 'add'
+      ? Math.max(base.data[i], region.data[i])
+      : Math.min(base.data[i], 255 - region.data[i]);
+    result.data[i - 3] = result.data[i - 2] = result.data[i - 1] = 255;
+    result.data[i] = alpha;
+  }
+
+  return result;
+}
+
+export interface BrushOptions {
+  radius: number; // source-image pixels
+  hardness: number; // 0 (soft falloff) to 1 (hard edge)
+  mode: 'paint' | 'erase';
+  // When set, the dab does not spread across edges at or above edgeThreshold
+  edges?: Uint8ClampedArray | null;
+  edgeThreshold?: number;
+}
+
+// Apply one brush dab to a mask in place; returns the affected rectangle
+export function paintMaskDab(mask: PixelBuffer, cx: number, cy: number, options: BrushOptions): MaskBounds {
+  const { width, height, data } = mask;
+  const radius = Math.max(1, options.radius);
+  const x0 = Math.max(0, Math.floor(cx - radius));
+  const y0 = Math.max(0, Math.floor(cy - radius));
+  const x1 = Math.min(width - 1, Math.ceil(cx + radius));
+  const y1 = Math.min(height - 1, Math.ceil(cy + radius));
+  const bounds = { x: x0, y: y0, width: Math.max(0, x1 - x0 + 1), height: Math.max(0, y1 - y0 + 1) };
+  if (bounds.width === 0 || bounds.height === 0) return bounds;
+
+  const reachable = options.edges
+    ? reachableWithinDab(options.edges, width, cx, cy, radius, x0, y0, x1, y1, options.edgeThreshold ?? 100)
+    : null;
+  const hardRadius = radius * Math.min(1, Math.max(0, options.hardness));
+
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const d = Math.hypot(x + 0.5 - cx, y + 0.5 - cy);
+      if (d > radius) continue;
+      if (reachable && !reachable[(y - y0) * bounds.width + (x - x0)]) continue;
+
+      // Full strength inside the hard core, linear falloff to the rim
+      const strength = d <= hardRadius ? 1 : (radius - d) / Math.max(1e-6, radius - hardRadius);
+      const idx = (y * width + x) * 4;
+      const alpha = data[idx + 3];
+      data[idx] = data[idx + 1] = data[idx + 2] = 255;
+      data[idx + 3] = options.mode === 'paint'
+        ? Math.round(alpha + (255 - alpha) * strength)
+        : Math.round(alpha * (1 - strength));
+    }
+  }
+
+  return bounds;
+}
+
+// Apply dabs along a stroke segment so fast mouse moves leave no gaps
+export function paintMaskStroke(
+  mask: PixelBuffer,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  options: BrushOptions
+): MaskBounds {
+  const spacing = Math.max(1, options.radius / 3);
+  const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / spacing));
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps;
+    const dab = paintMaskDab(mask, from.x + (to.x - from.x) * t, from.y + (to.y - from.y) * t, options);
+    if (dab.width === 0 || dab.height === 0) continue;
+    minX = Math.min(minX, dab.x);
+    minY = Math.min(minY, dab.y);
+    maxX = Math.max(maxX, dab.x + dab.width);
+    maxY = Math.max(maxY, dab.y + dab.height);
+  }
+
+  return maxX < minX
+    ? { x: 0, y: 0, width: 0, height: 0 }
+    : { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+// Pixels inside the dab's bounding box connected to its center without crossing an edge
+function reachableWithinDab(
+  edges: Uint8ClampedArray,
+  width: number,
+  cx: number,
+  cy: number,
+  radius: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  edgeThreshold: number
+): Uint8Array {
+  const boxWidth = x1 - x0 + 1;
+  const boxHeight = y1 - y0 + 1;
+  const reachable = new Uint8Array(boxWidth * boxHeight);
+  const sx = Math.min(x1, Math.max(x0, Math.floor(cx)));
+  const sy = Math.min(y1, Math.max(y0, Math.floor(cy)));
+  const stack = [(sy - y0) * boxWidth + (sx - x0)];
+  reachable[stack[0]] = 1;
+
+  while (stack.length > 0) {
+    const local = stack.pop()!;
+    const lx = local % boxWidth;
+    const ly = (local - lx) / boxWidth;
+    const neighbors: Array<[number, number]> = [[lx - 1, ly], [lx + 1, ly], [lx, ly - 1], [lx, ly + 1]];
+
+    for (const [nx, ny] of neighbors) {
+      if (nx < 0 || ny < 0 || nx >= boxWidth || ny >= boxHeight) continue;
+      const n = ny * boxWidth + nx;
+      if (reachable[n]) continue;
+      if (Math.hypot(x0 + nx + 0.5 - cx, y0 + ny + 0.5 - cy) > radius) continue;
+
+      reachable[n] = 1;
+      // Edge pixels are painted but growth stops there
+      if (edges[(y0 + ny) * width + (x0 + nx)] < edgeThreshold) {
+        stack.push(n);
+      }
+    }
+  }
+
+  return reachable;
+}
+
+// Redraw part of a tinted mask canvas after an in-place edit
+export function updateMaskCanvas(
+  canvas: HTMLCanvasElement,
+  mask: PixelBuffer,
+  rect: MaskBounds,
+  tint?: [number, number, number, number]
+): void {
+  if (rect.width === 0 || rect.height === 0) return;
+
+  const ctx = canvas.getContext('2d')!;
+  const region = ctx.createImageData(rect.width, rect.height);
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      const src = ((rect.y + y) * mask.width + rect.x + x) * 4;
+      const dst = (y * rect.width + x) * 4;
+      if (tint) {
+        region.data[dst] = tint[0];
+        region.data[dst + 1] = tint[1];
+        region.data[dst + 2] = tint[2];
+        region.data[dst + 3] = Math.round(mask.data[src + 3] * tint[3]);
+      } else {
+        region.data[dst] = mask.data[src];
+        region.data[dst + 1] = mask.data[src + 1];
+        region.data[dst + 2] = mask.data[src + 2];
+        region.data[dst + 3] = mask.data[src + 3];
+      }
+    }
+  }
+  ctx.putImageData(region, rect.x, rect.y);
+}
+
+// A connected region of a mask, stored cropped to its bounding box
+export interface MaskRegion {
+  bounds: MaskBounds;
+  mask: PixelBuffer; // bounds.width x bounds.height
+  area: number;
+}
+
+// Label 4-connected components of a binary map (1 = set) and keep those of at least minArea pixels
+export function findConnectedRegions(binary: Uint8Array, width: number, height: number, minArea: number): MaskRegion[] {
+  const labels = new Int32Array(width * height);
+  const stack = new Int32Array(width * height);
+  const regions: MaskRegion[] = [];
+  let nextLabel = 0;
+
+  for (let start = 0; start < binary.length; start++) {
+    if (!binary[start] || labels[start]) continue;
+
+    nextLabel++;
+    let stackSize = 0;
+    let area = 0;
+    let minX = width;
+    let minY = height;
+    let maxX = 0;
+    let maxY = 0;
+    labels[start] = nextLabel;
+    stack[stackSize++] = start;
+
+    while (stackSize > 0) {
+      const idx = stack[--stackSize];
+      const x = idx % width;
+      const y = (idx - x) / width;
+      area++;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+
+      if (x > 0 && binary[idx - 1] && !labels[idx - 1]) { labels[idx - 1] = nextLabel; stack[stackSize++] = idx - 1; }
+      if (x < width - 1 && binary[idx + 1] && !labels[idx + 1]) { labels[idx + 1] = nextLabel; stack[stackSize++] = idx + 1; }
+      if (y > 0 && binary[idx - width] && !labels[idx - width]) { labels[idx - width] = nextLabel; stack[stackSize++] = idx - width; }
+      if (y < height - 1 && binary[idx + width] && !labels[idx + width]) { labels[idx + width] = nextLabel; stack[stackSize++] = idx + width; }
+    }
+
+    if (area < minArea) continue;
+
+    const bounds = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+    const mask = createEmptyMask(bounds.width, bounds.height);
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        if (labels[y * width + x] === nextLabel) {
+          const p = ((y - minY) * bounds.width + (x - minX)) * 4;
+          mask.data[p] = mask.data[p + 1] = mask.data[p + 2] = mask.data[p + 3] = 255;
+        }
+      }
+    }
+    regions.push({ bounds, mask, area });
+  }
+
+  return regions;
+}
+
+// Grow a binary map (1 = set) by a (2r+1)² square
+export function dilateBinary(binary: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  return squareFilter(squareFilter(binary, width, height, radius, 'any', 'rows'), width, height, radius, 'any', 'columns');
+}
+
+// Shrink a binary map (1 = set) by a (2r+1)² square; the window is clamped at the image borders
+export function erodeBinary(binary: Uint8Array, width: number, height: number, radius: number): Uint8Array {
+  return squareFilter(squareFilter(binary, width, height, radius, 'all', 'rows'), width, height, radius, 'all', 'columns');
+}
+
+// One pass of a square dilation or erosion, counting set pixels in a running window
+function squareFilter(
+  binary: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  mode: 'any' | 'all',
+  direction: 'rows' | 'columns'
+): Uint8Array {
+  const result = new Uint8Array(binary.length);
+  const lines = direction === 'rows' ? height : width;
+  const length = direction === 'rows' ? width : height;
+  const stride = direction === 'rows' ? 1 : width;
+
+  for (let line = 0; line < lines; line++) {
+    const offset = direction === 'rows' ? line * width : line;
+    let count = 0;
+    for (let i = 0; i < Math.min(radius, length); i++) count += binary[offset + i * stride];
+    for (let i = 0; i < length; i++) {
+      if (i + radius < length) count += binary[offset + (i + radius) * stride];
+      if (i - radius - 1 >= 0) count -= binary[offset + (i - radius - 1) * stride];
+      const window = Math.min(length - 1, i + radius) - Math.max(0, i - radius) + 1;
+      result[offset + i * stride] = (mode === 'any' ? count > 0 : count === window) ? 1 : 0;
+    }
+  }
+
+  return result;
+}
+
+// Remove cropped regions (e.g. foreground objects) from a full-size mask
+export function subtractRegions(mask: PixelBuffer, regions: Array<Pick<MaskRegion, 'bounds' | 'mask'>>): PixelBuffer {
+  if (regions.length === 0) return mask;
+
+  const result = cloneMask(mask);
+  for (const region of regions) {
+    const { x: rx, y: ry, width: rw, height: rh } = region.bounds;
+    for (let y = 0; y < rh; y++) {
+      const my = ry + y;
+      if (my < 0 || my >= mask.height) continue;
+      for (let x = 0; x < rw; x++) {
+        const mx = rx + x;
+        if (mx < 0 || mx >= mask.width) continue;
+        const coverage = region.mask.data[(y * rw + x) * 4 + 3];
+        if (coverage === 0) continue;
+        const idx = (my * mask.width + mx) * 4 + 3;
+        result.data[idx] = Math.round(result.data[idx] * (1 - coverage / 255));
+      }
+    }
+  }
+
+  return result;
+}
+
+// Crop a region out of a full-size mask
+export function cropMask(mask: PixelBuffer, bounds: MaskBounds): PixelBuffer {
+  const cropped = createEmptyMask(Math.max(1, bounds.width), Math.max(1, bounds.height));
+  for (let y = 0; y < bounds.height; y++) {
+    for (let x = 0; x < bounds.width; x++) {
+      const sx = bounds.x + x;
+      const sy = bounds.y + y;
+      if (sx < 0 || sy < 0 || sx >= mask.width || sy >= mask.height) continue;
+      const src = (sy * mask.width + sx) * 4;
+      const dst = (y * bounds.width + x) * 4;
+      cropped.data[dst] = mask.data[src];
+      cropped.data[dst + 1] = mask.data[src + 1];
+      cropped.data[dst + 2] = mask.data[src + 2];
+      cropped.data[dst + 3] = mask.data[src + 3];
+    }
+  }
+  return cropped;
+}
+
+export interface MatteOptions {
+  radius?: number; // filter window radius in pixels; defaults to ~0.3% of the shorter image side
+  epsilon?: number; // edge sensitivity on 0-1 luminance; smaller values hug photo edges more tightly
+  scale?: number; // resolution (0-1) the filter is fitted at, e.g. the display scale; 1 = full resolution
+}
+
+const DEFAULT_MATTE_EPSILON = 1e-3;
+
+// Soften a mask into an alpha matte that follows edges in the photo (guided filter on luminance)
+// Boundaries fade out smoothly across flat areas but stay crisp along real edges, and hairline
+// gaps between the mask and a ceiling or skirting line are partially filled. Below full scale the
+// filter's linear model is fitted on a subsampled grid and applied to full-resolution luminance
+// (fast guided filter), so large photos cost about as much as the displayed size.
+export function refineMaskEdges(mask: PixelBuffer, guide: PixelBuffer, options: MatteOptions = {}): PixelBuffer {
+  const { width, height } = mask;
+  const radius = options.radius ?? Math.max(2, Math.round(Math.min(width, height) / 300));
+  const epsilon = options.epsilon ?? DEFAULT_MATTE_EPSILON;
+  const step = Math.max(1, Math.floor(1 / Math.min(1, options.scale ?? 1)));
+  const bounds = getMaskBounds(mask);
+  if (bounds.width === 0 || guide.width !== width || guide.height !== height) {
+    return mask;
+  }
+
+  // Only pixels within two filter radii of the covered area can change
+  const x0 = Math.max(0, bounds.x - 2 * radius);
+  const y0 = Math.max(0, bounds.y - 2 * radius);
+  const cw = Math.min(width, bounds.x + bounds.width + 2 * radius) - x0;
+  const ch = Math.min(height, bounds.y + bounds.height + 2 * radius) - y0;
+
+  // Guide and mask on the fitting grid: every step-th pixel of the crop
+  const gw = Math.ceil(cw / step);
+  const gh = Math.ceil(ch / step);
+  const n = gw * gh;
+  const gridRadius = Math.max(1, Math.round(radius / step));
+  const lum = new Float32Array(n);
+  const alpha = new Float32Array(n);
+  for (let y = 0; y < gh; y++) {
+    for (let x = 0; x < gw; x++) {
+      const i = y * gw + x;
+      const src = ((y * step + y0) * width + x * step + x0) * 4;
+      lum[i] = (0.299 * guide.data[src] + 0.587 * guide.data[src + 1] + 0.114 * guide.data[src + 2]) / 255;
+      alpha[i] = mask.data[src + 3] / 255;
+    }
+  }
+
+  const meanLum = boxFilter(lum, gw, gh, gridRadius);
+  const meanAlpha = boxFilter(alpha, gw, gh, gridRadius);
+  const product = new Float32Array(n);
+  for (let i = 0; i < n; i++) product[i] = lum[i] * alpha[i];
+  const corrLumAlpha = boxFilter(product, gw, gh, gridRadius);
+  for (let i = 0; i < n; i++) product[i] = lum[i] * lum[i];
+  const corrLum = boxFilter(product, gw, gh, gridRadius);
+
+  // Per-window linear model alpha ≈ a * lum + b, reusing the correlation buffers for a and b
+  for (let i = 0; i < n; i++) {
+    const variance = corrLum[i] - meanLum[i] * meanLum[i];
+    const a = (corrLumAlpha[i] - meanLum[i] * meanAlpha[i]) / (variance + epsilon);
+    corrLumAlpha[i] = a;
+    corrLum[i] = meanAlpha[i] - a * meanLum[i];
+  }
+  const meanA = boxFilter(corrLumAlpha, gw, gh, gridRadius);
+  const meanB = boxFilter(corrLum, gw, gh, gridRadius);
+
+  // Apply the model at every pixel, interpolating a and b between grid points
+  const matte = createEmptyMask(width, height);
+  for (let y = 0; y < ch; y++) {
+    const gy = Math.min(gh - 1, y / step);
+    const gy0 = Math.floor(gy);
+    const gy1 = Math.min(gh - 1, gy0 + 1);
+    const fy = gy - gy0;
+    for (let x = 0; x < cw; x++) {
+      const gx = Math.min(gw - 1, x / step);
+      const gx0 = Math.floor(gx);
+      const gx1 = Math.min(gw - 1, gx0 + 1);
+      const fx = gx - gx0;
+      const a = bilinear(meanA, gw, gx0, gx1, gy0, gy1, fx, fy);
+      const b = bilinear(meanB, gw, gx0, gx1, gy0, gy1, fx, fy);
+      const idx = ((y + y0) * width + x + x0) * 4;
+      const value = (0.299 * guide.data[idx] + 0.587 * guide.data[idx + 1] + 0.114 * guide.data[idx + 2]) / 255;
+      const coverage = Math.round(Math.min(1, Math.max(0, a * value + b)) * 255);
+      if (coverage === 0) continue;
+      matte.data[idx] = matte.data[idx + 1] = matte.data[idx + 2] = 255;
+      matte.data[idx + 3] = coverage;
+    }
+  }
+
+  return matte;
+}
+
+function bilinear(values: Float32Array, width: number, x0: number, x1: number, y0: number, y1: number, fx: number, fy: number): number {
+  return (values[y0 * width + x0] * (1 - fx) + values[y0 * width + x1] * fx) * (1 - fy) +
+    (values[y1 * width + x0] * (1 - fx) + values[y1 * width + x1] * fx) * fy;
+}
+
+// Mean over a (2r+1)² window, shrinking the window at the borders (separable running sums)
+function boxFilter(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const rows = new Float32Array(values.length);
+  for (let y = 0; y < height; y++) {
+    const offset = y * width;
+    let sum = 0;
+    for (let x = 0; x < Math.min(radius, width); x++) sum += values[offset + x];
+    for (let x = 0; x < width; x++) {
+      if (x + radius < width) sum += values[offset + x + radius];
+      if (x - radius - 1 >= 0) sum -= values[offset + x - radius - 1];
+      rows[offset + x] = sum / (Math.min(width - 1, x + radius) - Math.max(0, x - radius) + 1);
+    }
+  }
+
+  const result = new Float32Array(values.length);
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let y = 0; y < Math.min(radius, height); y++) sum += rows[y * width + x];
+    for (let y = 0; y < height; y++) {
+      if (y + radius < height) sum += rows[(y + radius) * width + x];
+      if (y - radius - 1 >= 0) sum -= rows[(y - radius - 1) * width + x];
+      result[y * width + x] = sum / (Math.min(height - 1, y + radius) - Math.max(0, y - radius) + 1);
+    }
+  }
+
+  return result;
+}